@@ -0,0 +1,79 @@
+import { PackagePlus, CheckCircle2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { AddOnVerdict, PolicyAddOn } from "@/lib/mockData";
+import { formatRupees } from "@/lib/utils";
+
+interface AddOnsPanelProps {
+  addOns: PolicyAddOn[];
+}
+
+const verdictConfig: Record<AddOnVerdict, { label: string; className: string }> = {
+  recommended: { label: "Recommended", className: "bg-great/10 text-great border-great/40" },
+  optional: { label: "Optional", className: "bg-good/10 text-good-foreground border-good/40" },
+  not_needed: { label: "Not needed", className: "bg-muted text-muted-foreground border-border" },
+};
+
+const VERDICT_ORDER: AddOnVerdict[] = ["recommended", "optional", "not_needed"];
+
+const AddOnsPanel = ({ addOns }: AddOnsPanelProps) => {
+  if (addOns.length === 0) return null;
+
+  const sorted = [...addOns].sort((a, b) => VERDICT_ORDER.indexOf(a.verdict) - VERDICT_ORDER.indexOf(b.verdict));
+
+  return (
+    <div className="bg-card rounded-2xl shadow-card p-6 md:p-8 mb-6">
+      <div className="flex items-center gap-2 mb-2">
+        <PackagePlus className="w-5 h-5 text-primary" />
+        <h3 className="font-display text-xl text-foreground">Available add-ons</h3>
+      </div>
+      <p className="font-body text-sm text-muted-foreground mb-6">
+        Optional covers you can buy for an extra premium. They are not part of the analysis above - a red flag stays a red flag until you add the cover that removes it.
+      </p>
+
+      <div className="divide-y divide-border border border-border rounded-xl">
+        {sorted.map((addOn) => {
+          const verdict = verdictConfig[addOn.verdict];
+          const price = addOn.price || (addOn.premium !== null ? formatRupees(addOn.premium) : null);
+
+          return (
+            <div key={addOn.name} className="p-5">
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <h4 className="font-body font-semibold text-foreground">{addOn.name}</h4>
+                <Badge variant="outline" className={`font-body font-medium ${verdict.className}`}>
+                  {verdict.label}
+                </Badge>
+                {addOn.selected && (
+                  <Badge variant="secondary" className="font-body font-medium">
+                    <CheckCircle2 className="w-3 h-3 mr-1" />
+                    On your policy
+                  </Badge>
+                )}
+                <span className="font-body text-sm text-muted-foreground ml-auto">
+                  {price || "Price not stated"}
+                </span>
+              </div>
+
+              <p className="font-body text-sm text-muted-foreground mb-2">{addOn.explanation}</p>
+
+              {addOn.neutralises.length > 0 && (
+                <p className="font-body text-sm text-foreground">
+                  Removes red flag{addOn.neutralises.length > 1 ? "s" : ""}:{" "}
+                  <span className="text-bad">{addOn.neutralises.join(", ")}</span>
+                </p>
+              )}
+
+              {addOn.quote && (
+                <p className="font-body text-xs text-muted-foreground mt-2">
+                  <span className="italic">"{addOn.quote}"</span>
+                  {addOn.reference && <> — {addOn.reference}</>}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AddOnsPanel;
@@ -0,0 +1,128 @@
+import { Clock, HandCoins, Mail, Phone, RefreshCw, Globe } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { CustomerInformationSheet } from "@/lib/mockData";
+import { formatRupees } from "@/lib/utils";
+
+interface CisCardProps {
+  cis: CustomerInformationSheet;
+}
+
+const formatMonths = (months: number | null) => {
+  if (months === null) return "Not stated";
+  if (months >= 12 && months % 12 === 0) return `${months / 12} year${months > 12 ? "s" : ""}`;
+  return `${months} month${months > 1 ? "s" : ""}`;
+};
+
+const BASIS_LABELS = { indemnity: "Indemnity - pays actual bills", benefit: "Benefit - pays a fixed amount" };
+
+// Key terms as the insurer's own Customer Information Sheet states them
+const CisCard = ({ cis }: CisCardProps) => {
+  const { waitingPeriods, costSharing, renewal, grievances } = cis;
+  const basis = cis.payoutBasis?.basis ?? cis.coverType?.basis ?? null;
+  const contacts = grievances ? grievances.emails.length + grievances.phones.length + grievances.websites.length : 0;
+
+  return (
+    <div className="bg-card rounded-2xl shadow-card p-6 md:p-8 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-6">
+        <h3 className="font-display text-xl text-foreground">Customer Information Sheet</h3>
+        {basis && (
+          <Badge variant="secondary" className="font-body font-medium">{BASIS_LABELS[basis]}</Badge>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="bg-muted/40 rounded-xl p-4">
+          <div className="flex items-center gap-2 mb-1 text-muted-foreground">
+            <Clock className="w-4 h-4" />
+            <span className="font-body text-sm">Waiting periods</span>
+          </div>
+          {waitingPeriods ? (
+            <div className="font-body text-sm text-foreground space-y-0.5">
+              <p>Initial: {formatMonths(waitingPeriods.initialMonths)}</p>
+              <p>Pre-existing diseases: {formatMonths(waitingPeriods.pedMonths)}</p>
+              <p>Specific illnesses: {formatMonths(waitingPeriods.specificIllnessMonths)}</p>
+            </div>
+          ) : (
+            <p className="font-body font-medium text-foreground">Not stated</p>
+          )}
+        </div>
+
+        <div className="bg-muted/40 rounded-xl p-4">
+          <div className="flex items-center gap-2 mb-1 text-muted-foreground">
+            <HandCoins className="w-4 h-4" />
+            <span className="font-body text-sm">Cost sharing</span>
+          </div>
+          {costSharing ? (
+            <div className="font-body text-sm text-foreground space-y-0.5">
+              <p>
+                Co-payment: {costSharing.coPayPercent === null ? "Not stated" : costSharing.coPayPercent === 0 ? "None" : `${costSharing.coPayPercent}%`}
+              </p>
+              {costSharing.coPayCondition && (
+                <p className="text-xs text-muted-foreground">{costSharing.coPayCondition}</p>
+              )}
+              {costSharing.deductibleAmount !== null && <p>Deductible: {formatRupees(costSharing.deductibleAmount)}</p>}
+            </div>
+          ) : (
+            <p className="font-body font-medium text-foreground">Not stated</p>
+          )}
+        </div>
+
+        <div className="bg-muted/40 rounded-xl p-4">
+          <div className="flex items-center gap-2 mb-1 text-muted-foreground">
+            <RefreshCw className="w-4 h-4" />
+            <span className="font-body text-sm">Renewal</span>
+          </div>
+          <div className="font-body text-sm text-foreground space-y-0.5">
+            <p>{renewal.lifelong ? "Lifelong renewal" : renewal.conditions ? "See conditions" : "Not stated"}</p>
+            {renewal.bonusPercentPerYear !== null && (
+              <p>
+                Bonus: {renewal.bonusPercentPerYear}% a year
+                {renewal.bonusMaxPercent !== null && `, up to ${renewal.bonusMaxPercent}%`}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {cis.exclusions.length > 0 && (
+        <div className="mb-4">
+          <p className="font-body text-sm text-muted-foreground mb-2">Major exclusions</p>
+          <div className="flex flex-wrap gap-2">
+            {cis.exclusions.map((exclusion) => (
+              <Badge key={exclusion} variant="outline" className="font-body font-normal">{exclusion}</Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {grievances && contacts > 0 && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 font-body text-sm">
+          <span className="text-muted-foreground">Complaints:</span>
+          {grievances.emails.map((email) => (
+            <a key={email} href={`mailto:${email}`} className="flex items-center gap-1 text-primary hover:underline">
+              <Mail className="w-4 h-4" />{email}
+            </a>
+          ))}
+          {grievances.phones.map((phone) => (
+            <a key={phone} href={`tel:${phone.replace(/[\s-]/g, "")}`} className="flex items-center gap-1 text-primary hover:underline">
+              <Phone className="w-4 h-4" />{phone}
+            </a>
+          ))}
+          {grievances.websites.map((website) => (
+            <a
+              key={website}
+              href={website.startsWith("http") ? website : `https://${website}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-primary hover:underline"
+            >
+              <Globe className="w-4 h-4" />{website}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CisCard;
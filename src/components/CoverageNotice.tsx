@@ -0,0 +1,40 @@
+import { HelpCircle } from "lucide-react";
+import { DOCUMENT_KINDS, documentCoverage, type DocumentKind, type DocumentKindInfo } from "../../supabase/functions/_shared/documents";
+
+interface CoverageNoticeProps {
+  kinds: DocumentKind[];
+  // Results are already based on these documents; on upload there is still time to add the wording
+  analyzed?: boolean;
+  className?: string;
+}
+
+// Says which document would give a fuller analysis when the policy wording is missing
+const CoverageNotice = ({ kinds, analyzed = false, className = "" }: CoverageNoticeProps) => {
+  const { missing } = documentCoverage(kinds);
+  if (!missing || kinds.length === 0) return null;
+
+  const gaps = [...new Set(kinds)].map(kind => {
+    const info: DocumentKindInfo = DOCUMENT_KINDS[kind];
+    return `The ${info.label} ${info.gap}.`;
+  });
+
+  return (
+    <div className={`flex gap-3 bg-unclear/10 rounded-xl p-4 text-left ${className}`} onClick={(e) => e.stopPropagation()}>
+      <HelpCircle className="w-5 h-5 text-unclear shrink-0 mt-0.5" />
+      <div>
+        <p className="font-body font-medium text-foreground text-sm">
+          {analyzed
+            ? `This analysis has no ${DOCUMENT_KINDS[missing].label} to go on`
+            : `Add the ${DOCUMENT_KINDS[missing].label} for a fuller analysis`}
+        </p>
+        <p className="font-body text-sm text-muted-foreground">
+          {gaps.join(" ")} {analyzed
+            ? `Terms it couldn't check are listed under Needs Clarification - upload the ${DOCUMENT_KINDS[missing].label} to analyze them.`
+            : `The ${DOCUMENT_KINDS[missing].label} has the full cover, exclusions and conditions - your insurer sends it with the policy and most publish it on their website.`}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default CoverageNotice;
@@ -1,13 +1,22 @@
 import { useState } from "react";
-import { ChevronDown, ShieldCheck, ThumbsUp, AlertTriangle, HelpCircle } from "lucide-react";
-import { PolicyFeature } from "@/lib/mockData";
+import { ChevronDown, ShieldCheck, ThumbsUp, AlertTriangle, HelpCircle, UserX } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { PolicyFeature, QuoteStatus } from "@/lib/mockData";
+import { DOCUMENT_KINDS } from "../../supabase/functions/_shared/documents";
+import { LANGUAGES } from "../../supabase/functions/_shared/languages";
 
-type FeatureType = "great" | "good" | "bad" | "unclear";
+type FeatureType = "great" | "good" | "bad" | "unclear" | "irrelevant";
 
 interface FeatureSectionProps {
   type: FeatureType;
   features: PolicyFeature[];
   defaultOpen?: boolean;
+  // Uploaded PDFs in upload order - located quotes link to their page
+  documentUrls?: string[];
+  // Label each finding with the document it came from
+  showSource?: boolean;
+  // Name the language of each quote - set for Hindi and bilingual policies
+  showQuoteLanguage?: boolean;
 }
 
 const typeConfig = {
@@ -43,9 +52,31 @@ const typeConfig = {
     contentBg: "bg-unclear/5",
     borderClass: "border-unclear/20",
   },
+  irrelevant: {
+    title: "Not relevant to you",
+    icon: UserX,
+    bgClass: "bg-muted",
+    textClass: "text-muted-foreground",
+    contentBg: "bg-muted/30",
+    borderClass: "border-border",
+  },
+};
+
+// Only unverified quotes get a badge - verified ones need no extra noise
+const quoteBadgeConfig: Partial<Record<QuoteStatus, { label: string; title: string; className: string }>> = {
+  approximate: {
+    label: "Approximate quote",
+    title: "This quote closely matches the policy text but is not word-for-word.",
+    className: "border-unclear/40 text-unclear",
+  },
+  not_found: {
+    label: "Quote not found",
+    title: "We couldn't find this quote in your policy document. Please verify it before relying on it.",
+    className: "border-bad/40 text-bad",
+  },
 };
 
-const FeatureSection = ({ type, features, defaultOpen = false }: FeatureSectionProps) => {
+const FeatureSection = ({ type, features, defaultOpen = false, documentUrls = [], showSource = false, showQuoteLanguage = false }: FeatureSectionProps) => {
   const [isOpen, setIsOpen] = useState(defaultOpen);
   const config = typeConfig[type];
   const Icon = config.icon;
@@ -76,38 +107,82 @@ const FeatureSection = ({ type, features, defaultOpen = false }: FeatureSectionP
 
       {isOpen && (
         <div className={`${config.contentBg} divide-y ${config.borderClass}`}>
-          {features.map((feature, index) => (
-            <div
-              key={index}
-              className="p-6 animate-fade-in"
-              style={{ animationDelay: `${index * 0.05}s` }}
-            >
-              <h4 className="font-body font-semibold text-foreground mb-3">
-                {feature.name}
-              </h4>
+          {features.map((feature, index) => {
+            const quoteBadge = feature.verification && quoteBadgeConfig[feature.verification.status];
+            const documentUrl = documentUrls[feature.source?.document ?? 0];
+
+            return (
+              <div
+                key={index}
+                className="p-6 animate-fade-in"
+                style={{ animationDelay: `${index * 0.05}s` }}
+              >
+                <div className="flex flex-wrap items-center gap-2 mb-3">
+                  <h4 className="font-body font-semibold text-foreground">
+                    {feature.name}
+                  </h4>
+                  {showSource && feature.source && (
+                    <Badge variant="secondary" className="font-body font-medium" title={feature.source.name}>
+                      {DOCUMENT_KINDS[feature.source.kind].label}
+                    </Badge>
+                  )}
+                  {feature.relevance === "high" && type !== "irrelevant" && (
+                    <Badge variant="outline" className="font-body font-medium border-primary/40 text-primary" title={feature.relevanceReason}>
+                      Important for you
+                    </Badge>
+                  )}
+                  {quoteBadge && (
+                    <Badge variant="outline" className={`font-body font-medium ${quoteBadge.className}`} title={quoteBadge.title}>
+                      {quoteBadge.label}
+                    </Badge>
+                  )}
+                </div>
               
-              <div className="mb-3">
-                <span className="font-body text-sm text-muted-foreground">
-                  Policy states:{" "}
-                </span>
-                <span className="font-body text-sm text-foreground italic">
-                  "{feature.quote}"
-                </span>
-                <span className="font-body text-xs text-muted-foreground ml-2">
-                  — {feature.reference}
-                </span>
-              </div>
+                <div className="mb-3">
+                  <span className="font-body text-sm text-muted-foreground">
+                    Policy states:{" "}
+                  </span>
+                  <span className="font-body text-sm text-foreground italic">
+                    "{feature.quote}"
+                  </span>
+                  <span className="font-body text-xs text-muted-foreground ml-2">
+                    — {feature.reference}
+                    {showQuoteLanguage && feature.quoteLanguage && ` (quoted in ${LANGUAGES[feature.quoteLanguage].label})`}
+                  </span>
+                  {documentUrl && feature.page && (
+                    <a
+                      href={`${documentUrl}#page=${feature.page}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-body text-xs text-primary underline hover:text-primary/80 ml-2"
+                    >
+                      View page {feature.page}
+                    </a>
+                  )}
+                </div>
               
-              <div>
-                <span className="font-body text-sm font-medium text-foreground">
-                  What this means:{" "}
-                </span>
-                <span className="font-body text-sm text-muted-foreground">
-                  {feature.explanation}
-                </span>
+                <div>
+                  <span className="font-body text-sm font-medium text-foreground">
+                    What this means:{" "}
+                  </span>
+                  <span className="font-body text-sm text-muted-foreground">
+                    {feature.explanation}
+                  </span>
+                </div>
+
+                {feature.relevanceReason && (
+                  <p className="font-body text-xs text-muted-foreground mt-3">
+                    For you: <span className="text-foreground">{feature.relevanceReason}</span>
+                  </p>
+                )}
+                {feature.removableBy && feature.removableBy.length > 0 && (
+                  <p className="font-body text-xs text-muted-foreground mt-3">
+                    Can be removed with the add-on: <span className="text-foreground">{feature.removableBy.join(", ")}</span>
+                  </p>
+                )}
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
     </div>
@@ -10,7 +10,7 @@ const HeroSection = ({ children }: HeroSectionProps) => {
           Policy Analyzer
         </h1>
         <p className="font-body text-lg md:text-xl text-muted-foreground max-w-2xl mx-auto animate-fade-in" style={{ animationDelay: '0.1s' }}>
-          Upload your health insurance policy and get instant insights on what's great, good, and needs attention
+          Upload your health, life, motor or home insurance policy and get instant insights on what's great, good, and needs attention
         </p>
       </div>
       
@@ -1,11 +1,31 @@
-import { FileSearch, FileText } from "lucide-react";
+import { Check, FileSearch, FileText } from "lucide-react";
+import { AnalysisProgress, AnalysisStage } from "@/services/policyAnalyzer";
 
 interface LoadingStateProps {
   stage?: 'extracting' | 'analyzing';
+  // Real progress from the streaming analysis - falls back to a pulsing bar
+  progress?: AnalysisProgress | null;
 }
 
-const LoadingState = ({ stage = 'analyzing' }: LoadingStateProps) => {
+const analysisSteps: { stage: AnalysisStage; label: string; percent: number }[] = [
+  { stage: 'validated', label: 'Document checked', percent: 15 },
+  { stage: 'model_call_started', label: 'Reading the fine print', percent: 30 },
+  { stage: 'categories_parsed', label: 'Findings sorted into categories', percent: 80 },
+  { stage: 'post_processing_done', label: 'Quotes and rules verified', percent: 100 },
+];
+
+const previewConfig = [
+  { key: 'great', label: 'Great', className: 'text-great' },
+  { key: 'good', label: 'Good', className: 'text-good-foreground' },
+  { key: 'bad', label: 'Red Flags', className: 'text-bad' },
+  { key: 'unclear', label: 'Unclear', className: 'text-unclear' },
+] as const;
+
+const LoadingState = ({ stage = 'analyzing', progress }: LoadingStateProps) => {
   const isExtracting = stage === 'extracting';
+  const currentStep = progress ? analysisSteps.findIndex(s => s.stage === progress.stage) : -1;
+  const showSteps = !isExtracting && currentStep >= 0;
+  const preview = progress?.preview;
   
   return (
     <div className="bg-card rounded-2xl shadow-card p-12 text-center">
@@ -31,15 +51,62 @@ const LoadingState = ({ stage = 'analyzing' }: LoadingStateProps) => {
           </p>
         </div>
 
-        <div className="w-48 h-1.5 bg-muted rounded-full overflow-hidden">
-          <div 
-            className="h-full bg-primary rounded-full animate-pulse"
-            style={{ 
-              width: '60%',
-              animation: 'progressPulse 2s ease-in-out infinite'
-            }}
-          />
-        </div>
+        {showSteps ? (
+          <>
+            <div className="w-48 h-1.5 bg-muted rounded-full overflow-hidden">
+              <div
+                className="h-full bg-primary rounded-full transition-all duration-700"
+                style={{ width: `${analysisSteps[currentStep].percent}%` }}
+              />
+            </div>
+
+            <ul className="text-left space-y-2">
+              {analysisSteps.map((step, index) => (
+                <li key={step.stage} className="flex items-center gap-2 font-body text-sm">
+                  {index <= currentStep ? (
+                    <Check className="w-4 h-4 text-great" />
+                  ) : (
+                    <span className={`w-4 h-4 rounded-full border-2 ${
+                      index === currentStep + 1 ? 'border-primary border-t-transparent animate-spin' : 'border-muted'
+                    }`} />
+                  )}
+                  <span className={index <= currentStep ? 'text-foreground' : 'text-muted-foreground'}>
+                    {step.label}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : (
+          <div className="w-48 h-1.5 bg-muted rounded-full overflow-hidden">
+            <div 
+              className="h-full bg-primary rounded-full animate-pulse"
+              style={{ 
+                width: '60%',
+                animation: 'progressPulse 2s ease-in-out infinite'
+              }}
+            />
+          </div>
+        )}
+
+        {!isExtracting && preview && (
+          <div className="w-full max-w-md grid grid-cols-2 gap-3 text-left animate-fade-in">
+            {previewConfig.map(({ key, label, className }) => (
+              <div key={key} className="bg-muted/50 rounded-xl p-3">
+                <p className={`font-body text-sm font-semibold ${className}`}>
+                  {label} ({preview[key].length})
+                </p>
+                <ul className="mt-1 space-y-0.5">
+                  {preview[key].slice(0, 3).map((feature, index) => (
+                    <li key={index} className="font-body text-xs text-muted-foreground truncate">
+                      {feature.name}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       <style>{`
@@ -0,0 +1,198 @@
+import { useEffect, useRef, useState } from "react";
+import { Loader2, MessageCircleQuestion, SearchX, Send } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { askPolicyQuestion } from "@/services/policyQuestions";
+import { PolicyAnalysisError, QuotaExceededError } from "@/services/policyAnalyzer";
+import { loadConversation, saveConversation, type AskedQuestion } from "@/lib/analysisSession";
+import { DOCUMENT_KINDS, type SourceDocumentInput } from "../../supabase/functions/_shared/documents";
+import type { LanguageCode } from "../../supabase/functions/_shared/languages";
+import { DEFAULT_INSURANCE_TYPE, type InsuranceType } from "../../supabase/functions/_shared/insuranceTypes";
+
+interface PolicyChatProps {
+  // Extracted text of the analysed documents - answers are drawn only from it
+  documents: SourceDocumentInput[];
+  // Uploaded PDFs in upload order - citations link to their page
+  documentUrls?: string[];
+  // Answers are written in the report language; quotes stay verbatim
+  language?: LanguageCode;
+  // Picks the suggested questions
+  insuranceType?: InsuranceType;
+}
+
+const SUGGESTIONS: Record<InsuranceType, string[]> = {
+  health: [
+    "Is cataract surgery covered in the first year?",
+    "Is there a waiting period for pre-existing diseases?",
+    "Are ambulance charges covered?",
+  ],
+  life: [
+    "What happens if I miss a premium payment?",
+    "Is death from an accident abroad covered?",
+    "How long does the claim settlement take?",
+  ],
+  motor: [
+    "How much depreciation is deducted on plastic parts?",
+    "Is engine damage from a flooded road covered?",
+    "Will I lose my NCB if I make a claim?",
+  ],
+  home: [
+    "Is my building insured for its rebuilding cost?",
+    "Is jewellery covered against burglary?",
+    "What happens if the house is empty for two months?",
+  ],
+};
+
+const PolicyChat = ({ documents, documentUrls = [], language, insuranceType = DEFAULT_INSURANCE_TYPE }: PolicyChatProps) => {
+  const [conversation, setConversation] = useState<AskedQuestion[]>(loadConversation);
+  const [question, setQuestion] = useState("");
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    saveConversation(conversation);
+  }, [conversation]);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [conversation, pending]);
+
+  const ask = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || pending) return;
+
+    setPending(trimmed);
+    setQuestion("");
+    setError(null);
+    try {
+      const history = conversation.map(({ question, answer }) => ({ question, answer: answer.answer }));
+      const answer = await askPolicyQuestion(documents, trimmed, history, language);
+      setConversation(current => [...current, { question: trimmed, answer }]);
+    } catch (err) {
+      setQuestion(trimmed);
+      if (err instanceof QuotaExceededError) {
+        setError("You've asked a lot of questions recently. Please wait a little before asking another.");
+      } else {
+        setError(err instanceof PolicyAnalysisError ? err.message : "Couldn't get an answer. Please try again.");
+      }
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-2xl shadow-card p-6 md:p-8 mb-6">
+      <div className="flex items-center gap-2 mb-2">
+        <MessageCircleQuestion className="w-5 h-5 text-primary" />
+        <h3 className="font-display text-xl text-foreground">Ask about your policy</h3>
+      </div>
+      <p className="font-body text-sm text-muted-foreground mb-6">
+        Answers come only from your policy text, with the clauses they rely on. If the policy doesn't say, we'll tell you.
+      </p>
+
+      {conversation.length === 0 && !pending && (
+        <div className="flex flex-wrap gap-2 mb-6">
+          {SUGGESTIONS[insuranceType].map(suggestion => (
+            <button
+              key={suggestion}
+              onClick={() => ask(suggestion)}
+              className="font-body text-sm text-primary border border-primary/30 rounded-full px-3 py-1 hover:bg-primary/5 transition-colors"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {(conversation.length > 0 || pending) && (
+        <div className="space-y-5 mb-6 max-h-[32rem] overflow-y-auto pr-1">
+          {conversation.map(({ question, answer }, index) => (
+            <div key={index} className="space-y-2">
+              <p className="font-body text-sm font-semibold text-foreground">{question}</p>
+              <div className={`rounded-xl p-4 ${answer.answered ? "bg-muted/40" : "bg-unclear/5 border border-unclear/20"}`}>
+                {!answer.answered && (
+                  <p className="flex items-center gap-1 font-body text-xs font-medium text-unclear mb-1">
+                    <SearchX className="w-3 h-3" />
+                    Not covered by the policy text
+                  </p>
+                )}
+                <p className="font-body text-sm text-foreground">{answer.answer}</p>
+
+                {answer.citations.map((citation, i) => {
+                  const documentUrl = documentUrls[citation.source?.document ?? 0];
+                  return (
+                    <div key={i} className="mt-3 border-l-2 border-primary/30 pl-3">
+                      <span className="font-body text-sm text-foreground italic">"{citation.quote}"</span>
+                      <span className="font-body text-xs text-muted-foreground ml-2">— {citation.reference}</span>
+                      {documents.length > 1 && citation.source && (
+                        <Badge variant="secondary" className="font-body font-medium ml-2" title={citation.source.name}>
+                          {DOCUMENT_KINDS[citation.source.kind].label}
+                        </Badge>
+                      )}
+                      {citation.status === "approximate" && (
+                        <Badge
+                          variant="outline"
+                          className="font-body font-medium ml-2 border-unclear/40 text-unclear"
+                          title="This quote closely matches the policy text but is not word-for-word."
+                        >
+                          Approximate quote
+                        </Badge>
+                      )}
+                      {documentUrl && citation.page && (
+                        <a
+                          href={`${documentUrl}#page=${citation.page}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-body text-xs text-primary underline hover:text-primary/80 ml-2"
+                        >
+                          View page {citation.page}
+                        </a>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+
+          {pending && (
+            <div className="space-y-2">
+              <p className="font-body text-sm font-semibold text-foreground">{pending}</p>
+              <p className="flex items-center gap-2 font-body text-sm text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Reading your policy...
+              </p>
+            </div>
+          )}
+          <div ref={endRef} />
+        </div>
+      )}
+
+      {error && <p className="font-body text-sm text-destructive mb-3">{error}</p>}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          ask(question);
+        }}
+        className="flex gap-2"
+      >
+        <Input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder={`e.g. ${SUGGESTIONS[insuranceType][0]}`}
+          maxLength={500}
+          disabled={!!pending}
+          className="font-body"
+        />
+        <Button type="submit" disabled={!question.trim() || !!pending} aria-label="Ask">
+          <Send className="w-4 h-4" />
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default PolicyChat;
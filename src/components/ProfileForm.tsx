@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { ChevronDown, Plus, UserRound, X } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  CITY_TIERS,
+  PLANNED_EVENTS,
+  parseProfile,
+  type CityTier,
+  type PlannedEvent,
+  type UserProfile,
+} from "../../supabase/functions/_shared/profile";
+
+interface ProfileFormProps {
+  // Restores the form when returning to the upload step
+  initial?: UserProfile | null;
+  // Called with null while the form is empty or incomplete
+  onChange: (profile: UserProfile | null) => void;
+}
+
+// Ages are kept as typed so a half-entered number isn't reset
+interface MemberDraft {
+  relationship: string;
+  age: string;
+}
+
+const RELATIONSHIPS = ["Self", "Spouse", "Son", "Daughter", "Father", "Mother", "Father-in-law", "Mother-in-law"];
+
+const ProfileForm = ({ initial, onChange }: ProfileFormProps) => {
+  const [open, setOpen] = useState(!!initial);
+  const [members, setMembers] = useState<MemberDraft[]>(() =>
+    initial?.members.length
+      ? initial.members.map(m => ({ relationship: m.relationship, age: String(m.age) }))
+      : [{ relationship: "Self", age: "" }]
+  );
+  const [cityTier, setCityTier] = useState<CityTier | null>(initial?.cityTier ?? null);
+  const [conditions, setConditions] = useState(initial?.conditions.join(", ") ?? "");
+  const [plannedEvents, setPlannedEvents] = useState<PlannedEvent[]>(initial?.plannedEvents ?? []);
+
+  useEffect(() => {
+    onChange(parseProfile({
+      members: members.filter(m => m.age.trim() !== "").map(m => ({ relationship: m.relationship, age: Number(m.age) })),
+      cityTier,
+      conditions: conditions.split(","),
+      plannedEvents,
+    }));
+  }, [members, cityTier, conditions, plannedEvents, onChange]);
+
+  const updateMember = (index: number, change: Partial<MemberDraft>) => {
+    setMembers(current => current.map((m, i) => (i === index ? { ...m, ...change } : m)));
+  };
+
+  const toggleEvent = (event: PlannedEvent, checked: boolean) => {
+    setPlannedEvents(current => (checked ? [...current, event] : current.filter(e => e !== event)));
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="bg-card rounded-2xl shadow-card mt-6">
+      <CollapsibleTrigger className="w-full flex items-center justify-between px-8 py-5 text-left">
+        <span className="flex items-center gap-3">
+          <UserRound className="w-5 h-5 text-primary" />
+          <span>
+            <span className="font-body font-semibold text-foreground block">Personalize for your family</span>
+            <span className="font-body text-sm text-muted-foreground">Optional - tells you which clauses actually affect you</span>
+          </span>
+        </span>
+        <ChevronDown className={`w-5 h-5 text-muted-foreground transition-transform duration-300 ${open ? "rotate-180" : ""}`} />
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="px-8 pb-8 space-y-6 text-left">
+        <div>
+          <Label className="font-body">Who will be insured?</Label>
+          <div className="space-y-2 mt-2">
+            {members.map((member, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Select value={member.relationship} onValueChange={(relationship) => updateMember(index, { relationship })}>
+                  <SelectTrigger className="w-44 font-body">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RELATIONSHIPS.map(relationship => (
+                      <SelectItem key={relationship} value={relationship} className="font-body">
+                        {relationship}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={0}
+                  max={120}
+                  placeholder="Age"
+                  value={member.age}
+                  onChange={(e) => updateMember(index, { age: e.target.value })}
+                  className="w-24 font-body"
+                />
+                {members.length > 1 && (
+                  <button
+                    onClick={() => setMembers(current => current.filter((_, i) => i !== index))}
+                    className="w-6 h-6 rounded-full bg-muted hover:bg-destructive/10 flex items-center justify-center transition-colors"
+                    aria-label="Remove member"
+                  >
+                    <X className="w-4 h-4 text-muted-foreground hover:text-destructive" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => setMembers(current => [...current, { relationship: "Spouse", age: "" }])}
+            className="flex items-center gap-1 font-body text-sm text-primary hover:text-primary/80 mt-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add member
+          </button>
+        </div>
+
+        <div>
+          <Label className="font-body">City</Label>
+          <Select value={cityTier ?? undefined} onValueChange={(tier) => setCityTier(tier as CityTier)}>
+            <SelectTrigger className="mt-2 font-body">
+              <SelectValue placeholder="Where do you live?" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CITY_TIERS) as CityTier[]).map(tier => (
+                <SelectItem key={tier} value={tier} className="font-body">
+                  {CITY_TIERS[tier]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label htmlFor="profile-conditions" className="font-body">Known health conditions</Label>
+          <Input
+            id="profile-conditions"
+            placeholder="e.g. diabetes, hypertension"
+            value={conditions}
+            onChange={(e) => setConditions(e.target.value)}
+            className="mt-2 font-body"
+          />
+        </div>
+
+        <div>
+          <Label className="font-body">Planned in the next few years</Label>
+          <div className="flex flex-wrap gap-4 mt-2">
+            {(Object.keys(PLANNED_EVENTS) as PlannedEvent[]).map(event => (
+              <label key={event} className="flex items-center gap-2 font-body text-sm text-foreground cursor-pointer">
+                <Checkbox
+                  checked={plannedEvents.includes(event)}
+                  onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                />
+                {PLANNED_EVENTS[event]}
+              </label>
+            ))}
+          </div>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default ProfileForm;
@@ -1,26 +1,111 @@
-import { Download, RefreshCw } from "lucide-react";
+import { Calculator, Download, HelpCircle, Languages, Loader2, RefreshCw } from "lucide-react";
+import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import SummaryCard from "./SummaryCard";
+import YourPolicyCard from "./YourPolicyCard";
+import CisCard from "./CisCard";
+import AddOnsPanel from "./AddOnsPanel";
 import FeatureSection from "./FeatureSection";
-import { PolicyAnalysis } from "@/lib/mockData";
+import PolicyChat from "./PolicyChat";
+import CoverageNotice from "./CoverageNotice";
+import { PolicyAnalysis, PolicyFeature } from "@/lib/mockData";
+import type { SourceDocumentInput } from "../../supabase/functions/_shared/documents";
+import { DEFAULT_LANGUAGE, LANGUAGES, type LanguageCode } from "../../supabase/functions/_shared/languages";
 
 interface ResultsSectionProps {
   analysis: PolicyAnalysis;
+  documentUrls?: string[];
+  // Extracted policy text - enables questions about the policy
+  documents?: SourceDocumentInput[];
+  language?: LanguageCode;
+  isTranslating?: boolean;
+  // Omitted when the policy text is no longer available to re-request the report
+  onLanguageChange?: (language: LanguageCode) => void;
   onReset: () => void;
 }
 
-const ResultsSection = ({ analysis, onReset }: ResultsSectionProps) => {
+const ResultsSection = ({
+  analysis,
+  documentUrls = [],
+  documents = [],
+  language = DEFAULT_LANGUAGE,
+  isTranslating = false,
+  onLanguageChange,
+  onReset,
+}: ResultsSectionProps) => {
+  const navigate = useNavigate();
+
   const handleDownloadPDF = () => {
     // TODO: Implement PDF generation
     console.log("Downloading PDF report...");
   };
 
+  // With a profile, features that don't apply to the buyer are grouped separately
+  const applies = (feature: PolicyFeature) => feature.relevance !== "not_applicable";
+  const { great, good, bad, unclear } = analysis.features;
+  const notRelevant = [...great, ...good, ...bad, ...unclear].filter(f => !applies(f));
+  const showSource = (analysis.documents?.length ?? 0) > 1;
+  // Hindi and bilingual policies are quoted in their own words - say which language each quote is in
+  const showQuoteLanguage = !!analysis.documents?.some(d => d.languages?.some(l => l !== "en"));
+  // "page 12, pages 41–58" - the part of a long policy that wasn't analyzed
+  const skippedPages = analysis.skipped?.pages
+    .map(r => (r.from === r.to ? `page ${r.from}` : `pages ${r.from}–${r.to}`))
+    .join(", ");
+
   return (
     <div className="animate-fade-in">
+      {onLanguageChange && (
+        <div className="flex items-center justify-end gap-2 mb-4">
+          {isTranslating ? (
+            <Loader2 className="w-4 h-4 text-muted-foreground animate-spin" />
+          ) : (
+            <Languages className="w-4 h-4 text-muted-foreground" />
+          )}
+          <Select value={language} onValueChange={(value) => onLanguageChange(value as LanguageCode)} disabled={isTranslating}>
+            <SelectTrigger className="w-40 font-body bg-card" aria-label="Report language">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(LANGUAGES) as LanguageCode[]).map(code => (
+                <SelectItem key={code} value={code} className="font-body">
+                  {LANGUAGES[code].nativeName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      {language !== DEFAULT_LANGUAGE && (
+        <p className="font-body text-xs text-muted-foreground text-right mb-4">
+          Translated from English. Policy quotes are shown in the policy's own words.
+        </p>
+      )}
+
+      <CoverageNotice kinds={(analysis.documents || []).map(d => d.kind)} analyzed className="mb-6" />
+
+      {analysis.skipped && (
+        <div className="flex gap-3 bg-unclear/10 rounded-xl p-4 mb-6">
+          <HelpCircle className="w-5 h-5 text-unclear shrink-0 mt-0.5" />
+          <div>
+            <p className="font-body font-medium text-foreground text-sm">Part of this policy wasn't analyzed</p>
+            <p className="font-body text-sm text-muted-foreground">
+              The policy is too long to analyze in full, so{" "}
+              {skippedPages ? `this was left out: ${skippedPages}.` : `about ${Math.round(analysis.skipped.chars / 1000)}k characters were left out.`}{" "}
+              Sections with exclusions and annexures were analyzed first - read the rest yourself before relying on this report.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {analysis.schedule && <YourPolicyCard schedule={analysis.schedule} />}
+
       <SummaryCard
         summary={analysis.summary}
         policyName={analysis.policyName}
         insurer={analysis.insurer}
+        insuranceType={analysis.insuranceType}
+        score={analysis.score}
       />
 
       <div className="bg-card rounded-2xl shadow-card p-6 md:p-8 mb-6">
@@ -30,24 +115,56 @@ const ResultsSection = ({ analysis, onReset }: ResultsSectionProps) => {
 
         <FeatureSection
           type="great"
-          features={analysis.features.great}
+          features={great.filter(applies)}
+          documentUrls={documentUrls}
+          showSource={showSource}
+          showQuoteLanguage={showQuoteLanguage}
           defaultOpen={true}
         />
         <FeatureSection
           type="good"
-          features={analysis.features.good}
+          features={good.filter(applies)}
+          documentUrls={documentUrls}
+          showSource={showSource}
+          showQuoteLanguage={showQuoteLanguage}
         />
         <FeatureSection
           type="bad"
-          features={analysis.features.bad}
+          features={bad.filter(applies)}
+          documentUrls={documentUrls}
+          showSource={showSource}
+          showQuoteLanguage={showQuoteLanguage}
           defaultOpen={true}
         />
         <FeatureSection
           type="unclear"
-          features={analysis.features.unclear}
+          features={unclear.filter(applies)}
+          documentUrls={documentUrls}
+          showSource={showSource}
+          showQuoteLanguage={showQuoteLanguage}
+        />
+        <FeatureSection
+          type="irrelevant"
+          features={notRelevant}
+          documentUrls={documentUrls}
+          showSource={showSource}
+          showQuoteLanguage={showQuoteLanguage}
         />
       </div>
 
+      <AddOnsPanel addOns={analysis.addOns || []} />
+
+      {analysis.cis && <CisCard cis={analysis.cis} />}
+
+      {documents.length > 0 && (
+        <PolicyChat
+          documents={documents}
+          documentUrls={documentUrls}
+          language={language}
+          insuranceType={analysis.insuranceType}
+        />
+      )}
+
       <div className="flex flex-col sm:flex-row gap-4 justify-center">
         <Button
           onClick={handleDownloadPDF}
@@ -57,6 +174,17 @@ const ResultsSection = ({ analysis, onReset }: ResultsSectionProps) => {
           <Download className="w-4 h-4 mr-2" />
           Download PDF Report
         </Button>
+        {analysis.facts && (
+          <Button
+            onClick={() => navigate("/simulator")}
+            variant="outline"
+            size="lg"
+            className="font-body font-semibold"
+          >
+            <Calculator className="w-4 h-4 mr-2" />
+            Simulate a Claim
+          </Button>
+        )}
         <Button
           onClick={onReset}
           variant="outline"
@@ -1,4 +1,8 @@
-import { ShieldCheck, ThumbsUp, AlertTriangle, HelpCircle } from "lucide-react";
+import { ShieldCheck, ThumbsUp, AlertTriangle, HelpCircle, Info } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Progress } from "@/components/ui/progress";
+import { PolicyScore } from "@/lib/mockData";
+import { DEFAULT_INSURANCE_TYPE, INSURANCE_TYPES, type InsuranceType } from "../../supabase/functions/_shared/insuranceTypes";
 
 interface SummaryCardProps {
   summary: {
@@ -9,16 +13,68 @@ interface SummaryCardProps {
   };
   policyName: string;
   insurer: string;
+  insuranceType?: InsuranceType;
+  score?: PolicyScore;
 }
 
-const SummaryCard = ({ summary, policyName, insurer }: SummaryCardProps) => {
+const scoreColor = (total: number) =>
+  total >= 75 ? "text-great border-great" : total >= 50 ? "text-good-foreground border-good" : "text-bad border-bad";
+
+const formatPoints = (points: number) => (Number.isInteger(points) ? String(points) : points.toFixed(1));
+
+const SummaryCard = ({ summary, policyName, insurer, insuranceType = DEFAULT_INSURANCE_TYPE, score }: SummaryCardProps) => {
   return (
     <div className="bg-card rounded-2xl shadow-card p-6 md:p-8 mb-6">
-      <div className="mb-6">
-        <h2 className="font-display text-2xl text-foreground mb-1">
-          {policyName}
-        </h2>
-        <p className="font-body text-muted-foreground">{insurer}</p>
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="font-display text-2xl text-foreground mb-1">
+            {policyName}
+          </h2>
+          <p className="font-body text-muted-foreground">
+            {insurer} · {INSURANCE_TYPES[insuranceType].label} insurance
+          </p>
+        </div>
+
+        {score && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <button
+                className={`shrink-0 w-20 h-20 rounded-full border-4 flex flex-col items-center justify-center hover:bg-muted/40 transition-colors ${scoreColor(score.total)}`}
+                aria-label={`Policy score ${score.total} out of 100 - show breakdown`}
+              >
+                <span className="font-display text-2xl leading-none">{score.total}</span>
+                <span className="font-body text-xs text-muted-foreground flex items-center gap-0.5">
+                  /100 <Info className="w-3 h-3" />
+                </span>
+              </button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80 max-h-96 overflow-y-auto">
+              <p className="font-body font-semibold text-foreground mb-1">Score breakdown</p>
+              <p className="font-body text-xs text-muted-foreground mb-4">
+                Each area is worth a fixed number of points and loses a share of them for its worst finding: a red flag, unclear terms, a merely standard feature, or nothing stated at all.
+              </p>
+              <div className="space-y-4">
+                {score.dimensions.map((dimension) => (
+                  <div key={dimension.id}>
+                    <div className="flex justify-between font-body text-sm mb-1">
+                      <span className="text-foreground">{dimension.label}</span>
+                      <span className="text-muted-foreground">
+                        {formatPoints(dimension.score)} / {dimension.weight}
+                      </span>
+                    </div>
+                    <Progress value={dimension.weight ? (dimension.score / dimension.weight) * 100 : 0} className="h-1.5" />
+                    {dimension.deductions.map((deduction, index) => (
+                      <p key={index} className="font-body text-xs text-muted-foreground mt-1">
+                        <span className="text-bad">−{formatPoints(deduction.points)}</span> {deduction.feature}
+                        <span className="opacity-70"> ({deduction.reason})</span>
+                      </p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </PopoverContent>
+          </Popover>
+        )}
       </div>
 
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
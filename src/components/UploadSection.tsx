@@ -1,32 +1,111 @@
 import { useState, useCallback } from "react";
-import { Upload, FileText, X } from "lucide-react";
+import { Upload, FileText, X, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { extractTextFromPDF, PDFError, type ExtractedDocument } from "@/utils/pdfExtractor";
+import CoverageNotice from "./CoverageNotice";
+import { DOCUMENT_KINDS, type DocumentKind } from "../../supabase/functions/_shared/documents";
+import { classifyDocument, MIN_CONFIDENCE, type DocumentClassification } from "../../supabase/functions/_shared/documentClassifier";
 
 const MAX_FILE_SIZE_MB = 20;
 const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
+// Must not exceed CONFIG.maxDocuments in analyze-policy
+const MAX_DOCUMENTS = 5;
+
+export interface UploadedDocument {
+  file: File;
+  kind: DocumentKind;
+  // Set once the PDF has been read - until then `kind` is guessed from the file name
+  extracted?: ExtractedDocument;
+  classification?: DocumentClassification;
+  // Picked by the user, so classification no longer changes it
+  kindChosen?: boolean;
+}
 
 interface UploadSectionProps {
-  onAnalyze: (file: File) => void;
+  onAnalyze: (documents: UploadedDocument[]) => void;
   isLoading: boolean;
 }
 
+// Best guess from the file name until the text is classified; the first unnamed file is assumed to be the wording
+const guessKind = (fileName: string, existing: UploadedDocument[]): DocumentKind => {
+  const name = fileName.toLowerCase();
+  if (/schedule|certificate/.test(name)) return "schedule";
+  if (/endorse/.test(name)) return "endorsement";
+  if (/\bcis\b|customer.?information/.test(name)) return "cis";
+  if (/prospectus/.test(name)) return "prospectus";
+  if (/brochure|leaflet/.test(name)) return "brochure";
+  if (/wording|policy|terms/.test(name)) return "wording";
+  return existing.some(d => d.kind === "wording") ? "brochure" : "wording";
+};
+
 const UploadSection = ({ onAnalyze, isLoading }: UploadSectionProps) => {
   const [dragActive, setDragActive] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [documents, setDocuments] = useState<UploadedDocument[]>([]);
   const { toast } = useToast();
 
-  const validateFileSize = (file: File): boolean => {
+  const validateFileSize = useCallback((file: File): boolean => {
     if (file.size > MAX_FILE_SIZE_BYTES) {
       toast({
         variant: "destructive",
         title: "File too large",
-        description: `Maximum file size is ${MAX_FILE_SIZE_MB}MB. Your file is ${(file.size / 1024 / 1024).toFixed(2)}MB.`,
+        description: `Maximum file size is ${MAX_FILE_SIZE_MB}MB. ${file.name} is ${(file.size / 1024 / 1024).toFixed(2)}MB.`,
       });
       return false;
     }
     return true;
-  };
+  }, [toast]);
+
+  // Reads a PDF as soon as it is added, so its kind can be detected from the text
+  const readDocument = useCallback(async (file: File) => {
+    try {
+      const extracted = await extractTextFromPDF(file, { requirePolicyKeywords: false });
+      const classification = classifyDocument(extracted.text, file.name);
+      setDocuments(current => current.map(doc => doc.file !== file ? doc : {
+        ...doc,
+        extracted,
+        classification,
+        kind: doc.kindChosen || classification.confidence < MIN_CONFIDENCE ? doc.kind : classification.kind
+      }));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "PDF Error",
+        description: error instanceof PDFError
+          ? `${file.name}: ${error.message}`
+          : `We couldn't read ${file.name}. Please try uploading it again.`,
+      });
+      setDocuments(current => current.filter(doc => doc.file !== file));
+    }
+  }, [toast]);
+
+  const addFiles = useCallback((files: File[]) => {
+    const pdfs = files.filter(file => file.type === "application/pdf");
+    if (pdfs.length < files.length) {
+      toast({
+        variant: "destructive",
+        title: "Invalid file type",
+        description: "Please upload PDF files only.",
+      });
+    }
+
+    const next = [...documents];
+    for (const file of pdfs.filter(validateFileSize)) {
+      if (next.length >= MAX_DOCUMENTS) {
+        toast({
+          variant: "destructive",
+          title: "Too many documents",
+          description: `You can analyze up to ${MAX_DOCUMENTS} documents together.`,
+        });
+        break;
+      }
+      next.push({ file, kind: guessKind(file.name, next) });
+    }
+    const added = next.slice(documents.length);
+    setDocuments(current => [...current, ...added]);
+    added.forEach(({ file }) => readDocument(file));
+  }, [documents, toast, validateFileSize, readDocument]);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -43,41 +122,38 @@ const UploadSection = ({ onAnalyze, isLoading }: UploadSectionProps) => {
     e.stopPropagation();
     setDragActive(false);
 
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const file = e.dataTransfer.files[0];
-      if (file.type === "application/pdf") {
-        if (validateFileSize(file)) {
-          setSelectedFile(file);
-        }
-      } else {
-        toast({
-          variant: "destructive",
-          title: "Invalid file type",
-          description: "Please upload a PDF file.",
-        });
-      }
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      addFiles(Array.from(e.dataTransfer.files));
     }
-  }, [toast]);
+  }, [addFiles]);
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      if (validateFileSize(file)) {
-        setSelectedFile(file);
-      }
+    if (e.target.files && e.target.files.length > 0) {
+      addFiles(Array.from(e.target.files));
     }
-  }, [toast]);
+    // Allow picking the same file again after removing it
+    e.target.value = "";
+  }, [addFiles]);
 
-  const handleRemoveFile = () => {
-    setSelectedFile(null);
+  const handleRemoveFile = (index: number) => {
+    setDocuments(current => current.filter((_, i) => i !== index));
   };
 
+  const handleKindChange = (index: number, kind: DocumentKind) => {
+    setDocuments(current => current.map((doc, i) => (i === index ? { ...doc, kind, kindChosen: true } : doc)));
+  };
+
+  // Analysis waits until every PDF has been read and classified
+  const reading = documents.some(doc => !doc.extracted);
+
   const handleAnalyze = () => {
-    if (selectedFile) {
-      onAnalyze(selectedFile);
+    if (documents.length > 0 && !reading) {
+      onAnalyze(documents);
     }
   };
 
+  const openFilePicker = () => document.getElementById('file-input')?.click();
+
   return (
     <div className="bg-card rounded-2xl shadow-card p-8 md:p-10">
       <div
@@ -86,38 +162,76 @@ const UploadSection = ({ onAnalyze, isLoading }: UploadSectionProps) => {
         onDragLeave={handleDrag}
         onDragOver={handleDrag}
         onDrop={handleDrop}
-        onClick={() => !selectedFile && document.getElementById('file-input')?.click()}
+        onClick={() => documents.length === 0 && openFilePicker()}
       >
         <input
           id="file-input"
           type="file"
           accept=".pdf"
+          multiple
           className="hidden"
           onChange={handleFileInput}
         />
 
-        {selectedFile ? (
-          <div className="flex flex-col items-center gap-4">
-            <div className="w-16 h-16 bg-primary/10 rounded-xl flex items-center justify-center">
-              <FileText className="w-8 h-8 text-primary" />
-            </div>
-            <div className="flex items-center gap-3">
-              <span className="font-body font-medium text-foreground">
-                {selectedFile.name}
-              </span>
+        {documents.length > 0 ? (
+          <div className="flex flex-col gap-3 text-left">
+            {documents.map((doc, index) => (
+              <div
+                key={`${doc.file.name}-${index}`}
+                className="flex flex-wrap items-center gap-3 bg-background/60 rounded-xl p-3"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <div className="w-10 h-10 bg-primary/10 rounded-lg flex items-center justify-center shrink-0">
+                  <FileText className="w-5 h-5 text-primary" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-body font-medium text-foreground truncate">
+                    {doc.file.name}
+                  </p>
+                  <p className="font-body text-xs text-muted-foreground">
+                    {(doc.file.size / 1024 / 1024).toFixed(2)} MB
+                    {!doc.extracted
+                      ? " · Reading..."
+                      : doc.classification && doc.classification.confidence >= MIN_CONFIDENCE
+                        ? ` · Looks like a ${DOCUMENT_KINDS[doc.classification.kind].label} (${Math.round(doc.classification.confidence * 100)}% sure)`
+                        : " · Couldn't tell the document type - please check it"}
+                  </p>
+                </div>
+                <Select value={doc.kind} onValueChange={(kind) => handleKindChange(index, kind as DocumentKind)}>
+                  <SelectTrigger className="w-44 font-body">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DOCUMENT_KINDS) as DocumentKind[]).map(kind => (
+                      <SelectItem key={kind} value={kind} className="font-body">
+                        {DOCUMENT_KINDS[kind].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <button
+                  onClick={() => handleRemoveFile(index)}
+                  className="w-6 h-6 rounded-full bg-muted hover:bg-destructive/10 flex items-center justify-center transition-colors"
+                >
+                  <X className="w-4 h-4 text-muted-foreground hover:text-destructive" />
+                </button>
+              </div>
+            ))}
+
+            {!reading && <CoverageNotice kinds={documents.map(doc => doc.kind)} />}
+
+            {documents.length < MAX_DOCUMENTS && (
               <button
                 onClick={(e) => {
                   e.stopPropagation();
-                  handleRemoveFile();
+                  openFilePicker();
                 }}
-                className="w-6 h-6 rounded-full bg-muted hover:bg-destructive/10 flex items-center justify-center transition-colors"
+                className="flex items-center justify-center gap-2 font-body text-sm text-primary hover:text-primary/80 py-2"
               >
-                <X className="w-4 h-4 text-muted-foreground hover:text-destructive" />
+                <Plus className="w-4 h-4" />
+                Add schedule, brochure or endorsement
               </button>
-            </div>
-            <span className="font-body text-sm text-muted-foreground">
-              {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
-            </span>
+            )}
           </div>
         ) : (
           <>
@@ -125,10 +239,10 @@ const UploadSection = ({ onAnalyze, isLoading }: UploadSectionProps) => {
               <Upload className="w-8 h-8 text-primary" />
             </div>
             <p className="font-body font-medium text-foreground mb-2">
-              Drop your policy PDF here or click to browse
+              Drop your policy PDFs here or click to browse
             </p>
             <p className="font-body text-sm text-muted-foreground">
-              Supports PDF files up to 20MB
+              Policy wording plus optional schedule, brochure and endorsements - PDF files up to 20MB each
             </p>
           </>
         )}
@@ -137,7 +251,7 @@ const UploadSection = ({ onAnalyze, isLoading }: UploadSectionProps) => {
       <div className="mt-6 flex justify-center">
         <Button
           onClick={handleAnalyze}
-          disabled={!selectedFile || isLoading}
+          disabled={documents.length === 0 || reading || isLoading}
           size="lg"
           className="font-body font-semibold px-8"
         >
@@ -146,8 +260,10 @@ const UploadSection = ({ onAnalyze, isLoading }: UploadSectionProps) => {
               <div className="w-5 h-5 border-2 border-primary-foreground/30 border-t-primary-foreground rounded-full animate-spin" />
               Analyzing...
             </span>
+          ) : reading ? (
+            "Reading documents..."
           ) : (
-            "Analyze Policy"
+            documents.length > 1 ? `Analyze ${documents.length} Documents` : "Analyze Policy"
           )}
         </Button>
       </div>
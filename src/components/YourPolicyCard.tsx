@@ -0,0 +1,120 @@
+import { CalendarDays, FileText, IndianRupee, Users } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { PolicySchedule } from "@/lib/mockData";
+import { formatRupees } from "@/lib/utils";
+
+interface YourPolicyCardProps {
+  schedule: PolicySchedule;
+}
+
+const formatDate = (iso: string | null) =>
+  iso ? new Date(`${iso}T00:00:00`).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" }) : "Not stated";
+
+const amountOrDash = (amount: number | null) => (amount !== null ? formatRupees(amount) : "—");
+
+const YourPolicyCard = ({ schedule }: YourPolicyCardProps) => {
+  const { period, members, sumInsured, premium, addOns, nominee } = schedule;
+  const gstParts = [
+    premium.cgst !== null && `CGST ${formatRupees(premium.cgst)}`,
+    premium.sgst !== null && `SGST ${formatRupees(premium.sgst)}`,
+    premium.igst !== null && `IGST ${formatRupees(premium.igst)}`,
+  ].filter(Boolean);
+
+  return (
+    <div className="bg-card rounded-2xl shadow-card p-6 md:p-8 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-6">
+        <h3 className="font-display text-xl text-foreground">Your Policy</h3>
+        {schedule.policyNumber && (
+          <span className="font-body text-sm text-muted-foreground">
+            Policy No. <span className="text-foreground font-medium">{schedule.policyNumber}</span>
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="bg-muted/40 rounded-xl p-4">
+          <div className="flex items-center gap-2 mb-1 text-muted-foreground">
+            <CalendarDays className="w-4 h-4" />
+            <span className="font-body text-sm">Policy period</span>
+          </div>
+          <p className="font-body font-medium text-foreground">
+            {formatDate(period.start)} – {formatDate(period.end)}
+          </p>
+        </div>
+
+        <div className="bg-muted/40 rounded-xl p-4">
+          <div className="flex items-center gap-2 mb-1 text-muted-foreground">
+            <FileText className="w-4 h-4" />
+            <span className="font-body text-sm">
+              Sum insured{sumInsured.basis === "floater" ? " (family floater)" : sumInsured.basis === "individual" ? " (individual)" : ""}
+            </span>
+          </div>
+          <p className="font-body font-medium text-foreground">{amountOrDash(sumInsured.amount)}</p>
+        </div>
+
+        <div className="bg-muted/40 rounded-xl p-4">
+          <div className="flex items-center gap-2 mb-1 text-muted-foreground">
+            <IndianRupee className="w-4 h-4" />
+            <span className="font-body text-sm">Premium</span>
+          </div>
+          <p className="font-body font-medium text-foreground">{amountOrDash(premium.total)}</p>
+          {(premium.net !== null || premium.gst !== null) && (
+            <p className="font-body text-xs text-muted-foreground mt-1">
+              {premium.net !== null && `${formatRupees(premium.net)} + `}
+              GST {amountOrDash(premium.gst)}
+              {gstParts.length > 0 && ` (${gstParts.join(", ")})`}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {members.length > 0 && (
+        <div className="mb-4">
+          <div className="flex items-center gap-2 mb-2 text-muted-foreground">
+            <Users className="w-4 h-4" />
+            <span className="font-body text-sm">Insured members</span>
+          </div>
+          <div className="divide-y divide-border border border-border rounded-xl">
+            {members.map((member, index) => (
+              <div key={index} className="flex flex-wrap items-center justify-between gap-2 px-4 py-3">
+                <span className="font-body text-foreground">
+                  {member.name || "Unnamed"}
+                  {member.relationship && (
+                    <span className="text-muted-foreground"> · {member.relationship}</span>
+                  )}
+                  {member.age !== null && (
+                    <span className="text-muted-foreground"> · {member.age} yrs</span>
+                  )}
+                </span>
+                {member.sumInsured !== null && (
+                  <span className="font-body text-sm text-muted-foreground">{formatRupees(member.sumInsured)}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {addOns.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <span className="font-body text-sm text-muted-foreground">Add-ons:</span>
+          {addOns.map((addOn) => (
+            <Badge key={addOn.name} variant="secondary" className="font-body font-medium">
+              {addOn.name}
+              {addOn.premium !== null && ` · ${formatRupees(addOn.premium)}`}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {nominee && (
+        <p className="font-body text-sm text-muted-foreground">
+          Nominee: <span className="text-foreground">{nominee.name || "Not stated"}</span>
+          {nominee.relationship && ` (${nominee.relationship})`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default YourPolicyCard;
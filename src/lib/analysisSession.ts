@@ -0,0 +1,76 @@
+import { PolicyAnalysis } from "@/lib/mockData";
+import type { PolicyAnswer } from "@/services/policyQuestions";
+import type { SourceDocumentInput } from "../../supabase/functions/_shared/documents";
+import type { UserProfile } from "../../supabase/functions/_shared/profile";
+
+/**
+ * The last analysis, kept for the browser tab so the results survive a visit
+ * to the claim simulator and a page refresh. The extracted policy text, the
+ * profile it was analysed for and the questions asked about it are kept with
+ * it, so questions work without re-uploading; the analysis carries its
+ * English report for language switches. Uploaded PDFs are not kept.
+ */
+
+const STORAGE_KEY = "policy-analyzer:last-analysis";
+const INPUT_KEY = "policy-analyzer:last-input";
+const CONVERSATION_KEY = "policy-analyzer:conversation";
+
+/** What the last analysis was run on */
+export interface AnalysisInput {
+  documents: SourceDocumentInput[];
+  profile: UserProfile | null;
+}
+
+export interface AskedQuestion {
+  question: string;
+  answer: PolicyAnswer;
+}
+
+function save(key: string, value: unknown) {
+  try {
+    sessionStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    // Storage full or disabled - the results still show, they just won't survive navigation
+    console.warn("Could not keep the analysis for this session:", error);
+  }
+}
+
+function load<T>(key: string): T | null {
+  try {
+    const stored = sessionStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveLastAnalysis(analysis: PolicyAnalysis, input: AnalysisInput) {
+  save(STORAGE_KEY, analysis);
+  save(INPUT_KEY, input);
+}
+
+export function loadLastAnalysis(): PolicyAnalysis | null {
+  return load<PolicyAnalysis>(STORAGE_KEY);
+}
+
+export function loadLastInput(): AnalysisInput {
+  return load<AnalysisInput>(INPUT_KEY) ?? { documents: [], profile: null };
+}
+
+export function saveConversation(questions: AskedQuestion[]) {
+  save(CONVERSATION_KEY, questions);
+}
+
+export function loadConversation(): AskedQuestion[] {
+  return load<AskedQuestion[]>(CONVERSATION_KEY) ?? [];
+}
+
+export function clearLastAnalysis() {
+  try {
+    sessionStorage.removeItem(STORAGE_KEY);
+    sessionStorage.removeItem(INPUT_KEY);
+    sessionStorage.removeItem(CONVERSATION_KEY);
+  } catch {
+    // Nothing to clear
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { simulateClaim, type ClaimScenario } from "@/lib/claimSimulator";
+import type { PolicyAnalysis, PolicyFacts } from "@/lib/mockData";
+
+const analysis = {
+  features: { great: [], good: [], bad: [], unclear: [] },
+} as unknown as PolicyAnalysis;
+
+const facts = (overrides: Partial<PolicyFacts> = {}): PolicyFacts => ({
+  waitingPeriods: { pedMonths: null, specificIllnessMonths: null, initialMonths: null },
+  roomRent: { type: null, category: null, capAmountPerDay: null, capPercentOfSI: null, proportionateDeduction: null },
+  coPay: [],
+  restore: { type: null, sameIllnessCovered: null, percentOfSI: null },
+  hospitalization: { preDays: null, postDays: null },
+  cumulativeBonus: { percentPerYear: null, maxPercent: null, reducesOnClaim: null },
+  claims: { deductibleAmount: null, consumablesCovered: true },
+  diseaseSubLimits: [],
+  ...overrides,
+});
+
+const scenario = (overrides: Partial<ClaimScenario> = {}): ClaimScenario => ({
+  sumInsured: 500000,
+  age: 40,
+  roomCategory: "singlePrivate",
+  roomRentPerDay: 5000,
+  days: 2,
+  eligibleRoomRentPerDay: null,
+  procedure: "",
+  charges: { nursing: 0, doctorFees: 0, surgery: 0, investigations: 0, medicines: 0, consumables: 0, implants: 0, other: 0 },
+  ...overrides,
+});
+
+describe("simulateClaim", () => {
+  it("pays the whole bill when no rule applies", () => {
+    const result = simulateClaim(analysis, facts(), scenario());
+    expect(result).toMatchObject({ billTotal: 10000, payout: 10000, outOfPocket: 0, steps: [] });
+  });
+
+  it("deducts proportionately from room-linked charges but not from tests", () => {
+    const result = simulateClaim(
+      analysis,
+      facts({ roomRent: { type: "fixed_cap", category: null, capAmountPerDay: 2500, capPercentOfSI: null, proportionateDeduction: true } }),
+      scenario({ charges: { ...scenario().charges, doctorFees: 20000, investigations: 8000 } })
+    );
+    expect(result.steps.map(s => [s.label, s.deduction])).toEqual([
+      ["Room rent above the limit", 5000],
+      ["Proportionate deduction", 10000],
+    ]);
+    expect(result.payout).toBe(23000);
+  });
+
+  it("applies a sub-limit only when the procedure matches whole words", () => {
+    const subLimits = [
+      { disease: " ", limitAmount: 1000, limitPercentOfSI: null, limitText: "" },
+      { disease: "Cataract", limitAmount: 40000, limitPercentOfSI: null, limitText: "₹40,000 per eye" },
+      { disease: "Knee replacement", limitAmount: 100000, limitPercentOfSI: null, limitText: "" },
+    ];
+    const bill = { ...scenario().charges, surgery: 150000 };
+
+    const cataract = simulateClaim(analysis, facts({ diseaseSubLimits: subLimits }), scenario({ procedure: "cataract surgery", charges: bill }));
+    expect(cataract.steps.map(s => s.label)).toEqual(["Sub-limit for Cataract"]);
+    expect(cataract.payout).toBe(40000);
+
+    const knee = simulateClaim(analysis, facts({ diseaseSubLimits: subLimits }), scenario({ procedure: "knee", charges: bill }));
+    expect(knee.payout).toBe(100000);
+
+    const other = simulateClaim(analysis, facts({ diseaseSubLimits: subLimits }), scenario({ procedure: "knees", charges: bill }));
+    expect(other.steps).toEqual([]);
+  });
+
+  it("applies the deductible, the highest unconditional co-pay and notes conditional ones", () => {
+    const result = simulateClaim(
+      analysis,
+      facts({
+        claims: { deductibleAmount: 2000, consumablesCovered: true },
+        coPay: [
+          { percent: 10, minAge: null, maxAge: null, condition: null },
+          { percent: 20, minAge: 60, maxAge: null, condition: null },
+          { percent: 15, minAge: null, maxAge: null, condition: "treated outside the network" },
+        ],
+      }),
+      scenario()
+    );
+    expect(result.steps.map(s => [s.label, s.deduction])).toEqual([
+      ["Deductible", 2000],
+      ["10% co-pay", 800],
+    ]);
+    expect(result.notes).toContain("A 15% co-pay also applies if: treated outside the network. It isn't included above.");
+  });
+
+  it("treats consumables as non-payable unless the policy covers them", () => {
+    const result = simulateClaim(
+      analysis,
+      facts({ claims: { deductibleAmount: null, consumablesCovered: null } }),
+      scenario({ charges: { ...scenario().charges, consumables: 3000 } })
+    );
+    expect(result.steps[0]).toMatchObject({ label: "Non-payable consumables", deduction: 3000 });
+    expect(result.outOfPocket).toBe(3000);
+  });
+});
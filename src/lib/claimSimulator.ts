@@ -0,0 +1,270 @@
+import { PolicyAnalysis, PolicyFacts, PolicyFeature } from "@/lib/mockData";
+import { formatRupees } from "@/lib/utils";
+
+/**
+ * Claim payout simulator. Applies the typed policy facts to a hypothetical
+ * hospital bill in the order insurers settle claims: non-payable items, room
+ * rent cap, proportionate deduction, sub-limits, deductible, co-pay and the
+ * sum insured. Every step cites the analysed feature it is based on.
+ */
+
+export type ChargeCategory =
+  | "nursing"
+  | "doctorFees"
+  | "surgery"
+  | "investigations"
+  | "medicines"
+  | "consumables"
+  | "implants"
+  | "other";
+
+export const CHARGE_CATEGORIES: Record<ChargeCategory, { label: string; proportionate: boolean }> = {
+  nursing: { label: "Nursing & ICU charges", proportionate: true },
+  doctorFees: { label: "Doctor / surgeon fees", proportionate: true },
+  surgery: { label: "OT & procedure charges", proportionate: true },
+  // IRDAI excludes diagnostics, medicines, consumables and implants from proportionate deduction
+  investigations: { label: "Lab tests & scans", proportionate: false },
+  medicines: { label: "Medicines & drugs", proportionate: false },
+  consumables: { label: "Consumables (gloves, PPE, kits)", proportionate: false },
+  implants: { label: "Implants & devices", proportionate: false },
+  other: { label: "Other charges", proportionate: false },
+};
+
+export type RoomCategory = "generalWard" | "shared" | "singlePrivate" | "singlePrivateAc" | "deluxe" | "suite";
+
+export const ROOM_CATEGORIES: Record<RoomCategory, string> = {
+  generalWard: "General ward",
+  shared: "Shared room",
+  singlePrivate: "Single private room",
+  singlePrivateAc: "Single private AC room",
+  deluxe: "Deluxe room",
+  suite: "Suite",
+};
+
+export interface ClaimScenario {
+  sumInsured: number;
+  age: number;
+  roomCategory: RoomCategory;
+  roomRentPerDay: number;
+  days: number;
+  // Rent of the room the policy allows - only needed for room-category limits
+  eligibleRoomRentPerDay: number | null;
+  procedure: string;
+  charges: Record<ChargeCategory, number>;
+}
+
+export interface ClauseCitation {
+  feature: string;
+  quote: string;
+  reference: string;
+  page?: number;
+}
+
+export interface SimulationStep {
+  label: string;
+  // Amount the insurer won't pay at this step
+  deduction: number;
+  explanation: string;
+  clause: ClauseCitation | null;
+  payableAfter: number;
+}
+
+export interface SimulationResult {
+  billTotal: number;
+  steps: SimulationStep[];
+  payout: number;
+  outOfPocket: number;
+  // Rules that could not be applied (missing facts, conditional co-pay)
+  notes: string[];
+}
+
+const ROOM_RANK: Record<RoomCategory, number> = {
+  generalWard: 0,
+  shared: 1,
+  singlePrivate: 2,
+  singlePrivateAc: 3,
+  deluxe: 4,
+  suite: 5,
+};
+
+const round = (n: number) => Math.round(n);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Whether `phrase` appears in `text` as whole words - "knee" is in "knee replacement", not in "knees" */
+const hasWords = (text: string, phrase: string) => new RegExp(`(?:^|\\W)${escapeRegExp(phrase)}(?:$|\\W)`, "i").test(text);
+
+const allFeatures = (analysis: PolicyAnalysis): PolicyFeature[] => [
+  ...analysis.features.bad,
+  ...analysis.features.unclear,
+  ...analysis.features.good,
+  ...analysis.features.great,
+];
+
+/** The analysed feature behind a rule, matched on its name first, then its quote */
+export function findClause(analysis: PolicyAnalysis, pattern: RegExp): ClauseCitation | null {
+  const features = allFeatures(analysis);
+  const match = features.find(f => pattern.test(f.name)) || features.find(f => pattern.test(f.quote));
+  return match ? { feature: match.name, quote: match.quote, reference: match.reference, page: match.page } : null;
+}
+
+/** "₹5 Lakhs", "₹1 Crore", "₹10,00,000" → rupees, or null */
+export function parseSumInsured(text: string): number | null {
+  const match = /([\d,.]+)\s*(lakhs?|lacs?|l\b|crores?|cr\b)?/i.exec(text || "");
+  if (!match) return null;
+  const value = Number(match[1].replace(/,/g, ""));
+  if (!Number.isFinite(value) || value <= 0) return null;
+  const unit = (match[2] || "").toLowerCase();
+  if (unit.startsWith("l")) return value * 100000;
+  if (unit.startsWith("c")) return value * 10000000;
+  return value;
+}
+
+/** Room category named in a fact like "Single Private AC" */
+function categoryFromText(text: string | null): RoomCategory | null {
+  const lower = (text || "").toLowerCase();
+  if (!lower) return null;
+  if (/suite/.test(lower)) return "suite";
+  if (/deluxe/.test(lower)) return "deluxe";
+  if (/single|private/.test(lower)) return /a\.?c/.test(lower) ? "singlePrivateAc" : "singlePrivate";
+  if (/shar|twin|semi/.test(lower)) return "shared";
+  if (/general|ward/.test(lower)) return "generalWard";
+  return null;
+}
+
+/** Daily room rent the policy pays, or null when there is no limit or it can't be worked out */
+function roomRentLimit(facts: PolicyFacts, scenario: ClaimScenario, notes: string[]): number | null {
+  const { roomRent } = facts;
+  if (roomRent.type === "fixed_cap" && roomRent.capAmountPerDay) return roomRent.capAmountPerDay;
+  if (roomRent.type === "percent_of_si" && roomRent.capPercentOfSI) {
+    return (scenario.sumInsured * roomRent.capPercentOfSI) / 100;
+  }
+  if (roomRent.type === "room_category") {
+    const allowed = categoryFromText(roomRent.category);
+    if (!allowed || ROOM_RANK[scenario.roomCategory] <= ROOM_RANK[allowed]) return null;
+    if (!scenario.eligibleRoomRentPerDay) {
+      notes.push(`Your room is above the ${roomRent.category} the policy allows. Enter that room's rent to see the room rent deduction.`);
+      return null;
+    }
+    return scenario.eligibleRoomRentPerDay;
+  }
+  return null;
+}
+
+export function simulateClaim(analysis: PolicyAnalysis, facts: PolicyFacts, scenario: ClaimScenario): SimulationResult {
+  const steps: SimulationStep[] = [];
+  const notes: string[] = [];
+  const roomTotal = scenario.roomRentPerDay * scenario.days;
+  const chargesTotal = Object.values(scenario.charges).reduce((a, b) => a + b, 0);
+  const billTotal = roomTotal + chargesTotal;
+  let payable = billTotal;
+
+  const deduct = (label: string, amount: number, explanation: string, clause: ClauseCitation | null) => {
+    const deduction = round(Math.min(Math.max(amount, 0), payable));
+    if (deduction <= 0) return;
+    payable -= deduction;
+    steps.push({ label, deduction, explanation, clause, payableAfter: round(payable) });
+  };
+
+  // 1. Non-payable items
+  const consumables = scenario.charges.consumables;
+  if (consumables > 0 && facts.claims?.consumablesCovered !== true) {
+    deduct(
+      "Non-payable consumables",
+      consumables,
+      facts.claims?.consumablesCovered === false
+        ? "The policy excludes consumables such as gloves, PPE kits and syringes."
+        : "The policy doesn't say consumables are covered, so they fall under the standard IRDAI non-payable list.",
+      findClause(analysis, /consumable|non[- ]?(medical|payable)/i)
+    );
+  }
+
+  // 2 and 3. Room rent cap and proportionate deduction
+  const limit = roomRentLimit(facts, scenario, notes);
+  if (limit !== null && scenario.roomRentPerDay > limit) {
+    const roomClause = findClause(analysis, /room rent|room category|room charges/i);
+    deduct(
+      "Room rent above the limit",
+      (scenario.roomRentPerDay - limit) * scenario.days,
+      `The policy pays up to ${formatRupees(round(limit))} per day. Your room costs ${formatRupees(scenario.roomRentPerDay)}, so you pay the difference for ${scenario.days} day${scenario.days === 1 ? "" : "s"}.`,
+      roomClause
+    );
+
+    if (facts.roomRent.proportionateDeduction) {
+      const ratio = limit / scenario.roomRentPerDay;
+      const associated = (Object.keys(CHARGE_CATEGORIES) as ChargeCategory[])
+        .filter(c => CHARGE_CATEGORIES[c].proportionate)
+        .reduce((n, c) => n + scenario.charges[c], 0);
+      deduct(
+        "Proportionate deduction",
+        associated * (1 - ratio),
+        `Because your room costs more than the limit, the insurer pays only ${Math.round(ratio * 100)}% (${formatRupees(round(limit))} ÷ ${formatRupees(scenario.roomRentPerDay)}) of room-linked charges such as nursing, doctor fees and OT (${formatRupees(associated)}).`,
+        findClause(analysis, /proportion/i) || roomClause
+      );
+    }
+  } else if (facts.roomRent.type === null) {
+    notes.push("The room rent terms weren't extracted, so no room rent cap was applied.");
+  }
+
+  // 4. Disease / procedure sub-limit
+  const procedure = scenario.procedure.trim();
+  const subLimit = procedure
+    ? facts.diseaseSubLimits.find(l => {
+        const disease = l.disease.trim();
+        return disease !== "" && (hasWords(disease, procedure) || hasWords(procedure, disease));
+      })
+    : undefined;
+  if (subLimit) {
+    const cap = subLimit.limitAmount ?? (subLimit.limitPercentOfSI !== null ? (scenario.sumInsured * subLimit.limitPercentOfSI) / 100 : null);
+    if (cap !== null && payable > cap) {
+      deduct(
+        `Sub-limit for ${subLimit.disease}`,
+        payable - cap,
+        `The policy limits ${subLimit.disease} to ${subLimit.limitText || formatRupees(round(cap))}.`,
+        findClause(analysis, new RegExp(escapeRegExp(subLimit.disease.trim()), "i")) ||
+          findClause(analysis, /sub[- ]?limit/i)
+      );
+    }
+  }
+
+  // 5. Deductible
+  const deductible = facts.claims?.deductibleAmount;
+  if (deductible) {
+    deduct(
+      "Deductible",
+      deductible,
+      `You pay the first ${formatRupees(deductible)} of the admissible amount yourself.`,
+      findClause(analysis, /deductible/i)
+    );
+  }
+
+  // 6. Co-pay - unconditional rules for this age; the highest applies
+  const applicable = facts.coPay.filter(rule =>
+    (rule.minAge === null || scenario.age >= rule.minAge) && (rule.maxAge === null || scenario.age <= rule.maxAge)
+  );
+  for (const rule of applicable.filter(r => r.condition)) {
+    notes.push(`A ${rule.percent}% co-pay also applies if: ${rule.condition}. It isn't included above.`);
+  }
+  const coPay = applicable.filter(r => !r.condition).sort((a, b) => b.percent - a.percent)[0];
+  if (coPay) {
+    deduct(
+      `${coPay.percent}% co-pay`,
+      (payable * coPay.percent) / 100,
+      `You share ${coPay.percent}% of every admissible claim${coPay.minAge !== null ? ` from age ${coPay.minAge}` : ""}.`,
+      findClause(analysis, /co[- ]?pay/i)
+    );
+  }
+
+  // 7. Sum insured
+  if (payable > scenario.sumInsured) {
+    deduct(
+      "Above sum insured",
+      payable - scenario.sumInsured,
+      `The policy pays at most your sum insured of ${formatRupees(scenario.sumInsured)} per year.`,
+      null
+    );
+  }
+
+  const payout = round(payable);
+  return { billTotal: round(billTotal), steps, payout, outOfPocket: round(billTotal) - payout, notes };
+}
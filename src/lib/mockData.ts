@@ -1,16 +1,223 @@
+import type { DocumentKind, FeatureSource } from '../../supabase/functions/_shared/documents';
+import type { Relevance } from '../../supabase/functions/_shared/profile';
+import type { LanguageCode } from '../../supabase/functions/_shared/languages';
+import type { InsuranceType } from '../../supabase/functions/_shared/insuranceTypes';
+
+export type QuoteStatus = 'verified' | 'approximate' | 'not_found';
+
+export interface QuoteVerification {
+  status: QuoteStatus;
+  score: number;
+  start?: number;
+  end?: number;
+}
+
 export interface PolicyFeature {
   name: string;
   quote: string;
   reference: string;
   explanation: string;
+  verification?: QuoteVerification;
+  // Page the quote was found on - only set when the quote was located
+  page?: number;
+  // Uploaded document the finding came from
+  source?: FeatureSource;
+  // Red flags only - names of add-ons that remove this flag
+  removableBy?: string[];
+  // Only when analyzed with a profile
+  relevance?: Relevance;
+  relevanceReason?: string;
+  // Language the quote is printed in - Hindi and bilingual wordings are quoted as-is
+  quoteLanguage?: LanguageCode;
+}
+
+export type AddOnVerdict = 'recommended' | 'optional' | 'not_needed';
+
+// Optional cover or rider, evaluated apart from the base policy
+export interface PolicyAddOn {
+  name: string;
+  price: string | null;
+  premium: number | null;
+  quote: string;
+  reference: string;
+  explanation: string;
+  verdict: AddOnVerdict;
+  // Names of the red flags this add-on removes
+  neutralises: string[];
+  // Listed on the uploaded policy schedule
+  selected: boolean;
+}
+
+export interface AnalyzedDocument {
+  kind: DocumentKind;
+  name: string;
+  // Languages detected in the text, most used first
+  languages?: LanguageCode[];
+  // Kind the text reads as, 0-1 confidence - `kind` is what the user uploaded it as
+  detected?: { kind: DocumentKind; confidence: number };
+}
+
+export type RoomRentType = 'at_actuals' | 'room_category' | 'fixed_cap' | 'percent_of_si';
+export type RestoreType = 'none' | 'once' | 'multiple' | 'unlimited';
+
+export interface CoPayRule {
+  percent: number;
+  minAge: number | null;
+  maxAge: number | null;
+  condition: string | null;
+}
+
+export interface DiseaseSubLimit {
+  disease: string;
+  limitAmount: number | null;
+  limitPercentOfSI: number | null;
+  limitText: string;
+}
+
+// Typed terms from the extract_policy_facts tool - null means not stated
+export interface PolicyFacts {
+  waitingPeriods: {
+    pedMonths: number | null;
+    specificIllnessMonths: number | null;
+    initialMonths: number | null;
+  };
+  roomRent: {
+    type: RoomRentType | null;
+    category: string | null;
+    capAmountPerDay: number | null;
+    capPercentOfSI: number | null;
+    proportionateDeduction: boolean | null;
+  };
+  coPay: CoPayRule[];
+  restore: {
+    type: RestoreType | null;
+    sameIllnessCovered: boolean | null;
+    percentOfSI: number | null;
+  };
+  hospitalization: {
+    preDays: number | null;
+    postDays: number | null;
+  };
+  cumulativeBonus: {
+    percentPerYear: number | null;
+    maxPercent: number | null;
+    reducesOnClaim: boolean | null;
+  };
+  claims: {
+    deductibleAmount: number | null;
+    consumablesCovered: boolean | null;
+  };
+  diseaseSubLimits: DiseaseSubLimit[];
+}
+
+export interface InsuredMember {
+  name: string | null;
+  relationship: string | null;
+  age: number | null;
+  sumInsured: number | null;
+}
+
+export interface ScheduleAddOn {
+  name: string;
+  sumInsured: number | null;
+  premium: number | null;
+}
+
+// From an uploaded policy schedule - amounts in rupees, dates as yyyy-mm-dd
+export interface PolicySchedule {
+  policyNumber: string | null;
+  period: {
+    start: string | null;
+    end: string | null;
+  };
+  members: InsuredMember[];
+  sumInsured: {
+    basis: 'individual' | 'floater' | null;
+    amount: number | null;
+  };
+  premium: {
+    net: number | null;
+    cgst: number | null;
+    sgst: number | null;
+    igst: number | null;
+    gst: number | null;
+    total: number | null;
+  };
+  addOns: ScheduleAddOn[];
+  nominee: {
+    name: string | null;
+    relationship: string | null;
+  } | null;
+}
+
+export type PayoutBasis = 'indemnity' | 'benefit';
+
+// Parsed from the IRDAI Customer Information Sheet table - row text as printed, durations in months
+export interface CustomerInformationSheet {
+  // Index into PolicyAnalysis.documents
+  document: number;
+  coverType: { basis: PayoutBasis | null; text: string } | null;
+  covered: string[];
+  exclusions: string[];
+  waitingPeriods: {
+    initialMonths: number | null;
+    pedMonths: number | null;
+    specificIllnessMonths: number | null;
+    text: string;
+  } | null;
+  payoutBasis: { basis: PayoutBasis | null; text: string } | null;
+  costSharing: {
+    coPayPercent: number | null;
+    coPayCondition: string | null;
+    deductibleAmount: number | null;
+    text: string;
+  } | null;
+  renewal: {
+    conditions: string | null;
+    benefits: string | null;
+    lifelong: boolean | null;
+    bonusPercentPerYear: number | null;
+    bonusMaxPercent: number | null;
+  };
+  grievances: {
+    emails: string[];
+    phones: string[];
+    websites: string[];
+    text: string;
+  } | null;
+}
+
+export interface ScoreDeduction {
+  points: number;
+  // Name of the feature that cost these points, or the area's label when the policy says nothing about it
+  feature: string;
+  bucket: 'greatFeatures' | 'goodFeatures' | 'redFlags' | 'needsClarification' | null;
+  reason: string;
+}
+
+export interface ScoreDimension {
+  id: string;
+  label: string;
+  weight: number;
+  score: number;
+  deductions: ScoreDeduction[];
+}
+
+// 0-100, weights from the rulebook - dimension scores add up to the total
+export interface PolicyScore {
+  total: number;
+  dimensions: ScoreDimension[];
 }
 
 export interface PolicyAnalysis {
   policyName: string;
   insurer: string;
+  // Life: sum assured, motor: IDV
   sumInsured: string;
   policyType: string;
   documentType: string;
+  // Rulebook the policy was graded by - absent on results kept from before other types were supported, which are health
+  insuranceType?: InsuranceType;
   summary: {
     great: number;
     good: number;
@@ -23,7 +230,27 @@ export interface PolicyAnalysis {
     bad: PolicyFeature[];
     unclear: PolicyFeature[];
   };
+  addOns: PolicyAddOn[];
+  // Absent on results cached before scoring existed
+  score?: PolicyScore;
+  // Absent when fact extraction failed
+  facts?: PolicyFacts;
+  // Only when a policy schedule was uploaded and could be read
+  schedule?: PolicySchedule;
+  // Only when the policy was too long to analyze in full - the pages left out
+  skipped?: {
+    chars: number;
+    pages: { from: number; to: number }[];
+  };
+  // Only when a Customer Information Sheet was found in the uploaded documents
+  cis?: CustomerInformationSheet;
+  // Uploaded documents, in upload order - FeatureSource.document indexes this
+  documents?: AnalyzedDocument[];
   disclaimer: string;
+  // Language of the names and explanations; quotes are always the policy's own words
+  language?: LanguageCode;
+  // The server's English report - sent back to translate it without analyzing again
+  englishReport?: Record<string, unknown>;
 }
 
 export const mockAnalysisData: PolicyAnalysis = {
@@ -32,6 +259,7 @@ export const mockAnalysisData: PolicyAnalysis = {
   sumInsured: "₹10,00,000",
   policyType: "Individual",
   documentType: "Policy Wording",
+  addOns: [],
   disclaimer: "This analysis is for informational purposes only. Please read the full policy document and consult with the insurer for complete details.",
   summary: {
     great: 5,
@@ -0,0 +1,235 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, Calculator, FileText, Info } from "lucide-react";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { loadLastAnalysis } from "@/lib/analysisSession";
+import { formatRupees } from "@/lib/utils";
+import {
+  CHARGE_CATEGORIES,
+  ROOM_CATEGORIES,
+  parseSumInsured,
+  simulateClaim,
+  type ChargeCategory,
+  type ClaimScenario,
+  type RoomCategory,
+} from "@/lib/claimSimulator";
+
+const DEFAULT_CHARGES: Record<ChargeCategory, number> = {
+  nursing: 15000,
+  doctorFees: 40000,
+  surgery: 60000,
+  investigations: 15000,
+  medicines: 25000,
+  consumables: 8000,
+  implants: 0,
+  other: 5000,
+};
+
+const NumberField = ({ id, label, value, onChange }: { id: string; label: string; value: number; onChange: (value: number) => void }) => (
+  <div>
+    <Label htmlFor={id} className="font-body text-sm">{label}</Label>
+    <Input
+      id={id}
+      type="number"
+      min={0}
+      value={Number.isFinite(value) ? value : ""}
+      onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+      className="mt-1 font-body"
+    />
+  </div>
+);
+
+const ClaimSimulator = () => {
+  // The analysis shown on the results page, kept for this tab
+  const [analysis] = useState(loadLastAnalysis);
+  const facts = analysis?.facts;
+
+  const [scenario, setScenario] = useState<ClaimScenario>(() => ({
+    sumInsured: analysis?.schedule?.sumInsured.amount ?? parseSumInsured(analysis?.sumInsured || "") ?? 500000,
+    age: analysis?.schedule?.members[0]?.age ?? 35,
+    roomCategory: "singlePrivateAc",
+    roomRentPerDay: 8000,
+    days: 4,
+    eligibleRoomRentPerDay: null,
+    procedure: "",
+    charges: DEFAULT_CHARGES,
+  }));
+
+  const result = useMemo(
+    () => (analysis && facts ? simulateClaim(analysis, facts, scenario) : null),
+    [analysis, facts, scenario]
+  );
+
+  const update = (change: Partial<ClaimScenario>) => setScenario(current => ({ ...current, ...change }));
+  const updateCharge = (category: ChargeCategory, amount: number) =>
+    setScenario(current => ({ ...current, charges: { ...current.charges, [category]: amount } }));
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-1 hero-gradient">
+        <div className="container mx-auto px-4 py-12 max-w-5xl">
+          <Link to="/" className="inline-flex items-center gap-2 font-body text-sm text-primary hover:text-primary/80 mb-6">
+            <ArrowLeft className="w-4 h-4" />
+            Back to analysis
+          </Link>
+
+          <h1 className="font-display text-3xl md:text-4xl text-foreground mb-2">Claim Simulator</h1>
+          <p className="font-body text-muted-foreground mb-8">
+            See what your policy would pay for a hospital bill, and why.
+          </p>
+
+          {!analysis || !facts || !result ? (
+            <div className="bg-card rounded-2xl shadow-card p-8 text-center">
+              <FileText className="w-10 h-10 text-muted-foreground mx-auto mb-4" />
+              <p className="font-body text-foreground mb-2">
+                {analysis ? "We couldn't extract the policy terms needed to simulate a claim." : "Analyze a policy first."}
+              </p>
+              <Link to="/" className="font-body text-primary underline hover:text-primary/80">
+                Go to the policy analyzer
+              </Link>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="bg-card rounded-2xl shadow-card p-6 md:p-8 space-y-6">
+                <h2 className="font-display text-xl text-foreground">Hospital bill</h2>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <NumberField id="sum-insured" label="Sum insured (₹)" value={scenario.sumInsured} onChange={(sumInsured) => update({ sumInsured })} />
+                  <NumberField id="age" label="Patient age" value={scenario.age} onChange={(age) => update({ age })} />
+                </div>
+
+                <div>
+                  <Label className="font-body text-sm">Room category</Label>
+                  <Select value={scenario.roomCategory} onValueChange={(roomCategory) => update({ roomCategory: roomCategory as RoomCategory })}>
+                    <SelectTrigger className="mt-1 font-body">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ROOM_CATEGORIES) as RoomCategory[]).map(category => (
+                        <SelectItem key={category} value={category} className="font-body">
+                          {ROOM_CATEGORIES[category]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <NumberField id="room-rent" label="Room rent per day (₹)" value={scenario.roomRentPerDay} onChange={(roomRentPerDay) => update({ roomRentPerDay })} />
+                  <NumberField id="days" label="Days in hospital" value={scenario.days} onChange={(days) => update({ days })} />
+                </div>
+
+                {facts.roomRent.type === "room_category" && (
+                  <NumberField
+                    id="eligible-rent"
+                    label={`Rent of a ${facts.roomRent.category || "eligible"} room per day (₹)`}
+                    value={scenario.eligibleRoomRentPerDay ?? 0}
+                    onChange={(rent) => update({ eligibleRoomRentPerDay: rent || null })}
+                  />
+                )}
+
+                <div>
+                  <Label htmlFor="procedure" className="font-body text-sm">Procedure or illness</Label>
+                  <Input
+                    id="procedure"
+                    placeholder={facts.diseaseSubLimits[0] ? `e.g. ${facts.diseaseSubLimits[0].disease}` : "e.g. cataract"}
+                    value={scenario.procedure}
+                    onChange={(e) => update({ procedure: e.target.value })}
+                    className="mt-1 font-body"
+                  />
+                </div>
+
+                <div>
+                  <p className="font-body text-sm font-medium text-foreground mb-2">Other charges (₹)</p>
+                  <div className="grid grid-cols-2 gap-4">
+                    {(Object.keys(CHARGE_CATEGORIES) as ChargeCategory[]).map(category => (
+                      <NumberField
+                        key={category}
+                        id={`charge-${category}`}
+                        label={CHARGE_CATEGORIES[category].label}
+                        value={scenario.charges[category]}
+                        onChange={(amount) => updateCharge(category, amount)}
+                      />
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <div className="bg-card rounded-2xl shadow-card p-6 md:p-8">
+                <div className="flex items-center gap-2 mb-6">
+                  <Calculator className="w-5 h-5 text-primary" />
+                  <h2 className="font-display text-xl text-foreground">Settlement</h2>
+                </div>
+
+                <div className="grid grid-cols-3 gap-3 mb-6 text-center">
+                  <div className="bg-muted/40 rounded-xl p-3">
+                    <p className="font-body text-xs text-muted-foreground">Total bill</p>
+                    <p className="font-display text-lg text-foreground">{formatRupees(result.billTotal)}</p>
+                  </div>
+                  <div className="bg-great/10 rounded-xl p-3">
+                    <p className="font-body text-xs text-muted-foreground">Insurer pays</p>
+                    <p className="font-display text-lg text-great">{formatRupees(result.payout)}</p>
+                  </div>
+                  <div className="bg-bad/10 rounded-xl p-3">
+                    <p className="font-body text-xs text-muted-foreground">You pay</p>
+                    <p className="font-display text-lg text-bad">{formatRupees(result.outOfPocket)}</p>
+                  </div>
+                </div>
+
+                {result.steps.length === 0 ? (
+                  <p className="font-body text-sm text-muted-foreground">No deductions - the full bill is payable.</p>
+                ) : (
+                  <ol className="space-y-4">
+                    {result.steps.map((step, index) => (
+                      <li key={index} className="border-l-2 border-bad/40 pl-4">
+                        <div className="flex justify-between gap-2 font-body">
+                          <span className="font-medium text-foreground">{index + 1}. {step.label}</span>
+                          <span className="text-bad whitespace-nowrap">−{formatRupees(step.deduction)}</span>
+                        </div>
+                        <p className="font-body text-sm text-muted-foreground mt-1">{step.explanation}</p>
+                        {step.clause && (
+                          <p className="font-body text-xs text-muted-foreground mt-1">
+                            {step.clause.quote && <span className="italic">"{step.clause.quote}" </span>}
+                            — {step.clause.reference || step.clause.feature}
+                          </p>
+                        )}
+                        <p className="font-body text-xs text-muted-foreground mt-1">
+                          Payable so far: {formatRupees(step.payableAfter)}
+                        </p>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+
+                {result.notes.length > 0 && (
+                  <div className="mt-6 space-y-2">
+                    {result.notes.map((note, index) => (
+                      <p key={index} className="flex gap-2 font-body text-xs text-muted-foreground">
+                        <Info className="w-4 h-4 shrink-0" />
+                        {note}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                <p className="font-body text-xs text-muted-foreground mt-6">
+                  An estimate from the extracted policy terms. Actual settlement depends on the hospital's tariff and the insurer's assessment.
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default ClaimSimulator;
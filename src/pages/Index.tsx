@@ -1,36 +1,88 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import Header from "@/components/Header";
 import HeroSection from "@/components/HeroSection";
-import UploadSection from "@/components/UploadSection";
+import UploadSection, { type UploadedDocument } from "@/components/UploadSection";
+import ProfileForm from "@/components/ProfileForm";
 import LoadingState from "@/components/LoadingState";
 import ResultsSection from "@/components/ResultsSection";
 import Footer from "@/components/Footer";
 import { PolicyAnalysis } from "@/lib/mockData";
-import { extractTextFromPDF, PDFError } from "@/utils/pdfExtractor";
-import { analyzePolicyWithAI, PolicyAnalysisError, InvalidDocumentError } from "@/services/policyAnalyzer";
+import { assertPolicyDocument, extractTextFromPDF, PDFError } from "@/utils/pdfExtractor";
+import { analyzePolicyWithAI, translateAnalysis, PolicyAnalysisError, InvalidDocumentError, QuotaExceededError, AnalysisProgress } from "@/services/policyAnalyzer";
 import { useToast } from "@/hooks/use-toast";
+import { saveLastAnalysis, loadLastAnalysis, loadLastInput, saveConversation, clearLastAnalysis, type AnalysisInput } from "@/lib/analysisSession";
+import type { SourceDocumentInput } from "../../supabase/functions/_shared/documents";
+import type { UserProfile } from "../../supabase/functions/_shared/profile";
+import { DEFAULT_LANGUAGE, LANGUAGES, type LanguageCode } from "../../supabase/functions/_shared/languages";
 
 type AppState = "upload" | "extracting" | "analyzing" | "results";
 
+const formatWait = (seconds: number) => {
+  if (seconds < 60) return "less than a minute";
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} minute${seconds > 60 ? "s" : ""}`;
+  const hours = Math.ceil(seconds / 3600);
+  return `${hours} hour${hours > 1 ? "s" : ""}`;
+};
+
 const Index = () => {
-  const [appState, setAppState] = useState<AppState>("upload");
-  const [analysisResult, setAnalysisResult] = useState<PolicyAnalysis | null>(null);
+  // Coming back from the claim simulator restores the last results
+  const [analysisResult, setAnalysisResult] = useState<PolicyAnalysis | null>(loadLastAnalysis);
+  const [appState, setAppState] = useState<AppState>(analysisResult ? "results" : "upload");
+  const [documentUrls, setDocumentUrls] = useState<string[]>([]);
+  // Documents and profile behind the results - reused for questions
+  const [analysisInput, setAnalysisInput] = useState<AnalysisInput>(loadLastInput);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  // New analyses are written in the language last chosen on the results page
+  const [language, setLanguage] = useState<LanguageCode>(analysisResult?.language ?? DEFAULT_LANGUAGE);
+  const [isTranslating, setIsTranslating] = useState(false);
   const { toast } = useToast();
 
-  const handleAnalyze = async (file: File) => {
+  // Translation is best-effort - the server falls back to the English report
+  const showResult = (result: PolicyAnalysis, input: AnalysisInput, requested: LanguageCode) => {
+    const received = result.language ?? DEFAULT_LANGUAGE;
+    if (received !== requested) {
+      toast({
+        title: "Translation Unavailable",
+        description: `We couldn't translate the report into ${LANGUAGES[requested].label} right now, so it is shown in English.`,
+      });
+    }
+    setLanguage(received);
+    setAnalysisResult(result);
+    setAnalysisInput(input);
+    saveLastAnalysis(result, input);
+  };
+
+  // Object URLs of the uploaded PDFs in upload order, used to link page references
+  useEffect(() => {
+    return () => {
+      documentUrls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [documentUrls]);
+
+  const handleAnalyze = async (uploads: UploadedDocument[]) => {
     setAppState("extracting");
+    setProgress(null);
 
     try {
-      // Extract text from PDF
-      const extractedText = await extractTextFromPDF(file);
+      // PDFs are read on upload; only the wording has to read like a policy
+      const documents: SourceDocumentInput[] = [];
+      for (const { file, kind, extracted } of uploads) {
+        const text = (extracted ?? await extractTextFromPDF(file, { requirePolicyKeywords: false })).text;
+        if (kind === "wording") assertPolicyDocument(text);
+        documents.push({ kind, name: file.name, text });
+      }
 
       // Move to analyzing state
       setAppState("analyzing");
 
       // Call the AI analysis edge function
       try {
-        const result = await analyzePolicyWithAI(extractedText);
-        setAnalysisResult(result);
+        const result = await analyzePolicyWithAI(documents, { onProgress: setProgress, profile, language });
+        showResult(result, { documents, profile }, language);
+        // A new policy starts a new conversation
+        saveConversation([]);
+        setDocumentUrls(uploads.map(({ file }) => URL.createObjectURL(file)));
         setAppState("results");
       } catch (analysisError) {
         if (analysisError instanceof InvalidDocumentError) {
@@ -39,10 +91,17 @@ const Index = () => {
             title: "Invalid Document",
             description: analysisError.message,
           });
+        } else if (analysisError instanceof QuotaExceededError) {
+          toast({
+            title: "Analysis Limit Reached",
+            description: analysisError.retryAfterSeconds
+              ? `You've run a lot of analyses recently. You can analyze another policy in ${formatWait(analysisError.retryAfterSeconds)}.`
+              : analysisError.message,
+          });
         } else if (analysisError instanceof PolicyAnalysisError) {
           toast({
             variant: "destructive",
-            title: "Analysis Error",
+            title: analysisError.retryable ? "Temporarily Unavailable" : "Analysis Error",
             description: analysisError.message,
           });
         } else {
@@ -75,9 +134,30 @@ const Index = () => {
     }
   };
 
+  // Translates the English report the results came with - the policy is not analyzed again
+  const handleLanguageChange = async (next: LanguageCode) => {
+    if (next === language || isTranslating || !analysisResult) return;
+    setIsTranslating(true);
+    try {
+      const result = await translateAnalysis(analysisResult, next);
+      showResult(result, analysisInput, next);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Couldn't Change Language",
+        description: error instanceof PolicyAnalysisError ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
   const handleReset = () => {
     setAppState("upload");
     setAnalysisResult(null);
+    clearLastAnalysis();
+    setAnalysisInput({ documents: [], profile: null });
+    setDocumentUrls([]);
   };
 
   const isLoading = appState === "extracting" || appState === "analyzing";
@@ -89,19 +169,30 @@ const Index = () => {
       <main className="flex-1">
         <HeroSection>
           {appState === "upload" && (
-            <UploadSection
-              onAnalyze={handleAnalyze}
-              isLoading={false}
-            />
+            <>
+              <UploadSection
+                onAnalyze={handleAnalyze}
+                isLoading={false}
+              />
+              <ProfileForm initial={profile} onChange={setProfile} />
+            </>
           )}
           
           {isLoading && (
-            <LoadingState stage={appState === "extracting" ? "extracting" : "analyzing"} />
+            <LoadingState
+              stage={appState === "extracting" ? "extracting" : "analyzing"}
+              progress={progress}
+            />
           )}
           
           {appState === "results" && analysisResult && (
             <ResultsSection
               analysis={analysisResult}
+              documentUrls={documentUrls}
+              documents={analysisInput.documents}
+              language={language}
+              isTranslating={isTranslating}
+              onLanguageChange={analysisResult.englishReport ? handleLanguageChange : undefined}
               onReset={handleReset}
             />
           )}
@@ -1,14 +1,21 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
-import { PolicyFeature, PolicyAnalysis } from '@/lib/mockData';
+import { PolicyFeature, PolicyAnalysis, PolicyAddOn, PolicyFacts, PolicySchedule, PolicyScore, ScoreDeduction, CustomerInformationSheet, PayoutBasis } from '@/lib/mockData';
+import { ERROR_CODES, isErrorCode, type ErrorCode } from '../../supabase/functions/_shared/errorCodes';
+import { DOCUMENT_KINDS, isDocumentKind, type DocumentKind, type SourceDocumentInput } from '../../supabase/functions/_shared/documents';
+import { RELEVANCE_LEVELS, type UserProfile } from '../../supabase/functions/_shared/profile';
+import { DEFAULT_LANGUAGE, isLanguageCode, type LanguageCode } from '../../supabase/functions/_shared/languages';
+import { DEFAULT_INSURANCE_TYPE, isInsuranceType } from '../../supabase/functions/_shared/insuranceTypes';
 
 // Re-export types for consumers
-export type { PolicyFeature, PolicyAnalysis as AnalysisResult };
+export type { PolicyFeature, PolicyAddOn, PolicyFacts, PolicySchedule, PolicyScore, ErrorCode, SourceDocumentInput, UserProfile, LanguageCode, PolicyAnalysis as AnalysisResult };
 
 export class PolicyAnalysisError extends Error {
   constructor(
     message: string, 
     public statusCode?: number,
-    public errorType?: string
+    public code: ErrorCode = 'INTERNAL_ERROR',
+    public retryable: boolean = ERROR_CODES[code].retryable
   ) {
     super(message);
     this.name = 'PolicyAnalysisError';
@@ -16,52 +23,485 @@ export class PolicyAnalysisError extends Error {
 }
 
 export class InvalidDocumentError extends PolicyAnalysisError {
-  constructor(message: string, public detectedType?: string) {
-    super(message, 400, 'invalid_document');
+  constructor(message: string, public detectedType?: string, code: ErrorCode = 'UNSUPPORTED_POLICY') {
+    super(message, ERROR_CODES[code].status, code);
     this.name = 'InvalidDocumentError';
   }
 }
 
-export async function analyzePolicyWithAI(policyText: string): Promise<PolicyAnalysis> {
-  console.log(`Sending policy text for analysis (${policyText.length} characters)`);
+// Rate limits, overload and timeouts upstream - worth retrying
+export class ServiceUnavailableError extends PolicyAnalysisError {
+  constructor(message: string, code: ErrorCode) {
+    super(message, ERROR_CODES[code].status, code);
+    this.name = 'ServiceUnavailableError';
+  }
+}
 
-  const { data, error } = await supabase.functions.invoke('analyze-policy', {
-    body: { policyText }
-  });
+// Too many analyses from this user or network - retryAfterSeconds says when to come back
+export class QuotaExceededError extends PolicyAnalysisError {
+  constructor(message: string, public retryAfterSeconds?: number) {
+    super(message, ERROR_CODES.QUOTA_EXCEEDED.status, 'QUOTA_EXCEEDED');
+    this.name = 'QuotaExceededError';
+  }
+}
 
-  if (error) {
-    console.error('Edge function error:', error);
-    throw new PolicyAnalysisError(error.message || 'Failed to analyze policy');
+export class MalformedResultError extends PolicyAnalysisError {
+  constructor(message: string) {
+    super(message, ERROR_CODES.MALFORMED_MODEL_OUTPUT.status, 'MALFORMED_MODEL_OUTPUT');
+    this.name = 'MalformedResultError';
   }
+}
 
-  if (data?.error) {
-    console.error('Analysis error:', data.error, data.message);
-    
-    if (data.error === 'invalid_document') {
-      throw new InvalidDocumentError(
-        data.message || 'This does not appear to be a health insurance policy.',
-        data.detectedType
+export class ServiceConfigError extends PolicyAnalysisError {
+  constructor(message: string) {
+    super(message, ERROR_CODES.CONFIG_ERROR.status, 'CONFIG_ERROR');
+    this.name = 'ServiceConfigError';
+  }
+}
+
+/** Maps an analyze-policy error body ({ error: code, message }) to an error class */
+export function toAnalysisError(
+  body: { error?: unknown; message?: unknown; detectedType?: string; retryAfterSeconds?: unknown } | null
+): PolicyAnalysisError {
+  const code: ErrorCode = isErrorCode(body?.error) ? body.error : 'INTERNAL_ERROR';
+  const message = typeof body?.message === 'string' && body.message ? body.message : ERROR_CODES[code].userMessage;
+
+  switch (code) {
+    case 'NO_POLICY_TEXT':
+    case 'EMPTY_DOCUMENT':
+    case 'DOCUMENT_TOO_SHORT':
+    case 'UNSUPPORTED_POLICY':
+      return new InvalidDocumentError(message, body?.detectedType, code);
+    case 'QUOTA_EXCEEDED':
+      return new QuotaExceededError(
+        message,
+        typeof body?.retryAfterSeconds === 'number' ? body.retryAfterSeconds : undefined
       );
+    case 'UPSTREAM_RATE_LIMITED':
+    case 'UPSTREAM_UNAVAILABLE':
+    case 'UPSTREAM_TIMEOUT':
+      return new ServiceUnavailableError(message, code);
+    case 'MALFORMED_MODEL_OUTPUT':
+      return new MalformedResultError(message);
+    case 'CONFIG_ERROR':
+      return new ServiceConfigError(message);
+    default:
+      return new PolicyAnalysisError(message, ERROR_CODES[code].status, code);
+  }
+}
+
+// Stages streamed by analyze-policy in SSE mode, in order
+export type AnalysisStage = 'validated' | 'model_call_started' | 'categories_parsed' | 'post_processing_done';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  // Preliminary categories from the model, before rules and quote checks
+  preview?: PolicyAnalysis['features'];
+}
+
+export interface AnalyzeOptions {
+  // Skip the server-side result cache and force a fresh model run
+  bypassCache?: boolean;
+  // Run the extra self-review pass against the checklist (one more model call)
+  review?: boolean;
+  // People to be insured - features get a relevance level and tailored explanations
+  profile?: UserProfile | null;
+  // Language of names and explanations (default English); quotes stay verbatim.
+  // The analysis runs in English and is then translated - see translateAnalysis.
+  language?: LanguageCode;
+  // When set, the analysis is streamed and progress reported as it happens
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+const transformFeature = (f: any): PolicyFeature => ({
+  name: f.name || '',
+  quote: f.policyStates || f.quote || '',
+  reference: f.reference || '',
+  explanation: f.explanation || '',
+  verification: f.verification,
+  page: typeof f.page === 'number' ? f.page : undefined,
+  source: f.source && isDocumentKind(f.source.kind) ? f.source : undefined,
+  removableBy: Array.isArray(f.removableBy) ? f.removableBy : undefined,
+  relevance: RELEVANCE_LEVELS.includes(f.relevance) ? f.relevance : undefined,
+  relevanceReason: typeof f.relevanceReason === 'string' ? f.relevanceReason : undefined,
+  quoteLanguage: isLanguageCode(f.quoteLanguage) ? f.quoteLanguage : undefined
+});
+
+const ADD_ON_VERDICTS: PolicyAddOn['verdict'][] = ['recommended', 'optional', 'not_needed'];
+
+function parseSSEEvent(block: string): { event: string; data: unknown } | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+  }
+  if (dataLines.length === 0) return null;
+  return { event, data: JSON.parse(dataLines.join('\n')) };
+}
+
+// Error body of a failed analysis, sent as JSON or as the stream's error event
+interface AnalysisErrorBody {
+  error: string;
+  message?: string;
+  detectedType?: string;
+  retryAfterSeconds?: number;
+}
+
+// Result body as the server sends it - fields are checked as they are transformed
+interface RawAnalysis {
+  error?: undefined;
+  policyName?: string;
+  insurer?: string;
+  sumInsured?: string;
+  policyType?: string;
+  insuranceType?: unknown;
+  summary?: { great?: number; good?: number; redFlags?: number; unclear?: number };
+  greatFeatures?: unknown[];
+  goodFeatures?: unknown[];
+  redFlags?: unknown[];
+  needsClarification?: unknown[];
+  addOns?: unknown;
+  score?: unknown;
+  facts?: unknown;
+  schedule?: unknown;
+  cis?: unknown;
+  skipped?: unknown;
+  documents?: unknown;
+  disclaimer?: string;
+  language?: unknown;
+  _meta?: { cacheHit?: boolean };
+}
+
+type AnalysisResponse = RawAnalysis | AnalysisErrorBody;
+
+const isErrorBody = (data: AnalysisResponse | null): data is AnalysisErrorBody => !!data?.error;
+
+/**
+ * Calls analyze-policy in SSE mode. Resolves with the final result payload
+ * (or the error payload, which the caller handles like a JSON error body).
+ */
+async function streamAnalysis(
+  body: Record<string, unknown>,
+  onProgress: (progress: AnalysisProgress) => void
+): Promise<AnalysisResponse> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const apiKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-policy`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'apikey': apiKey,
+      'Authorization': `Bearer ${session?.access_token || apiKey}`
+    },
+    body: JSON.stringify({ ...body, stream: true })
+  });
+
+  // Validation failures come back as plain JSON before the stream starts
+  if (!response.headers.get('content-type')?.includes('text/event-stream')) {
+    const data = await response.json().catch(() => null);
+    if (!data) throw new PolicyAnalysisError(ERROR_CODES.INTERNAL_ERROR.userMessage, response.status);
+    return data;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const parsed = parseSSEEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+      if (!parsed) continue;
+
+      if (parsed.event === 'result' || parsed.event === 'error') {
+        reader.cancel().catch(() => {});
+        return parsed.data as AnalysisResponse;
+      }
+
+      if (parsed.event === 'stage') {
+        const stage = parsed.data as { stage: AnalysisStage; [key: string]: unknown };
+        onProgress({
+          stage: stage.stage,
+          preview: stage.stage === 'categories_parsed'
+            ? {
+                great: ((stage.greatFeatures as unknown[]) || []).map(transformFeature),
+                good: ((stage.goodFeatures as unknown[]) || []).map(transformFeature),
+                bad: ((stage.redFlags as unknown[]) || []).map(transformFeature),
+                unclear: ((stage.needsClarification as unknown[]) || []).map(transformFeature)
+              }
+            : undefined
+        });
+      }
+    }
+  }
+
+  throw new PolicyAnalysisError('Analysis stream ended unexpectedly');
+}
+
+/** Calls analyze-policy without streaming and returns its body, result or coded error */
+async function invokeAnalysis(body: Record<string, unknown>): Promise<AnalysisResponse> {
+  const response = await supabase.functions.invoke('analyze-policy', { body });
+
+  if (response.error) {
+    console.error('Edge function error:', response.error);
+    // Non-2xx responses carry a coded error body - read it from the raw response
+    if (response.error instanceof FunctionsHttpError) {
+      const body = await response.error.context.json().catch(() => null);
+      throw toAnalysisError(body);
     }
-    
-    throw new PolicyAnalysisError(data.error);
+    throw new ServiceUnavailableError(ERROR_CODES.UPSTREAM_UNAVAILABLE.userMessage, 'UPSTREAM_UNAVAILABLE');
   }
+  return response.data;
+}
+
+/**
+ * Analyzes one policy. Pass the extracted text of a single PDF, or a labelled
+ * set of documents (wording, schedule, brochure, endorsements) analyzed together.
+ */
+export async function analyzePolicyWithAI(
+  input: string | SourceDocumentInput[],
+  options: AnalyzeOptions = {}
+): Promise<PolicyAnalysis> {
+  const documents = typeof input === 'string' ? undefined : input;
+  const chars = documents ? documents.reduce((n, d) => n + d.text.length, 0) : (input as string).length;
+  console.log(`Sending ${documents ? `${documents.length} document(s)` : 'policy text'} for analysis (${chars} characters)`);
 
-  console.log('Analysis received:', data.policyName);
-  
-  const transformFeature = (f: any): PolicyFeature => ({
-    name: f.name || '',
-    quote: f.policyStates || f.quote || '',
-    reference: f.reference || '',
-    explanation: f.explanation || ''
+  const body = {
+    ...(documents ? { documents } : { policyText: input }),
+    bypassCache: options.bypassCache || undefined,
+    review: options.review || undefined,
+    profile: options.profile || undefined
+  };
+  const data = options.onProgress ? await streamAnalysis(body, options.onProgress) : await invokeAnalysis(body);
+
+  if (isErrorBody(data)) {
+    console.error('Analysis error:', data.error, data.message);
+    throw toAnalysisError(data);
+  }
+
+  console.log('Analysis received:', data.policyName, data._meta?.cacheHit ? '(cached)' : '');
+  const analysis = transformAnalysis(data, documents);
+  if (!options.language || options.language === DEFAULT_LANGUAGE) return analysis;
+
+  // Translation is best-effort - the English report still shows if it fails
+  return await translateAnalysis(analysis, options.language).catch((error) => {
+    console.error('Translation failed:', error);
+    return analysis;
   });
+}
+
+/**
+ * The same analysis in another language. Only the English report is sent, so
+ * nothing is extracted again and no analysis quota is used; English needs no
+ * request at all. If translation fails the English report comes back - compare
+ * `language` with the one requested.
+ */
+export async function translateAnalysis(analysis: PolicyAnalysis, language: LanguageCode): Promise<PolicyAnalysis> {
+  const english = analysis.englishReport;
+  if (!english) throw new PolicyAnalysisError(ERROR_CODES.INVALID_REPORT.userMessage, ERROR_CODES.INVALID_REPORT.status, 'INVALID_REPORT');
+  if (language === DEFAULT_LANGUAGE) return transformAnalysis(english as RawAnalysis);
+
+  const data = await invokeAnalysis({ translate: english, language });
+  if (isErrorBody(data)) {
+    console.error('Translation error:', data.error, data.message);
+    throw toAnalysisError(data);
+  }
+  return transformAnalysis(data, undefined, english);
+}
+
+/**
+ * Converts a report as the server sends it into a PolicyAnalysis. `english`
+ * is the report it was translated from; an English report is its own.
+ */
+function transformAnalysis(data: RawAnalysis, documents?: SourceDocumentInput[], english?: Record<string, unknown>): PolicyAnalysis {
+  const num = (v: unknown): number | null => (typeof v === 'number' && Number.isFinite(v) ? v : null);
+  const bool = (v: unknown): boolean | null => (typeof v === 'boolean' ? v : null);
+  const str = (v: unknown): string | null => (typeof v === 'string' && v ? v : null);
+  const obj = (v: unknown): Record<string, unknown> => (v && typeof v === 'object' ? v as Record<string, unknown> : {});
+  const list = (v: unknown): Record<string, unknown>[] => (Array.isArray(v) ? v.map(obj) : []);
+
+  const transformFacts = (raw: unknown): PolicyFacts | undefined => {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const f = obj(raw);
+    const waiting = obj(f.waitingPeriods);
+    const roomRent = obj(f.roomRent);
+    const restore = obj(f.restore);
+    const hospitalization = obj(f.hospitalization);
+    const bonus = obj(f.cumulativeBonus);
+    const claims = obj(f.claims);
+
+    return {
+      waitingPeriods: {
+        pedMonths: num(waiting.pedMonths),
+        specificIllnessMonths: num(waiting.specificIllnessMonths),
+        initialMonths: num(waiting.initialMonths)
+      },
+      roomRent: {
+        type: str(roomRent.type) as PolicyFacts['roomRent']['type'],
+        category: str(roomRent.category),
+        capAmountPerDay: num(roomRent.capAmountPerDay),
+        capPercentOfSI: num(roomRent.capPercentOfSI),
+        proportionateDeduction: bool(roomRent.proportionateDeduction)
+      },
+      coPay: list(f.coPay).filter(c => num(c.percent) !== null).map(c => ({
+        percent: num(c.percent),
+        minAge: num(c.minAge),
+        maxAge: num(c.maxAge),
+        condition: str(c.condition)
+      })),
+      restore: {
+        type: str(restore.type) as PolicyFacts['restore']['type'],
+        sameIllnessCovered: bool(restore.sameIllnessCovered),
+        percentOfSI: num(restore.percentOfSI)
+      },
+      hospitalization: {
+        preDays: num(hospitalization.preDays),
+        postDays: num(hospitalization.postDays)
+      },
+      cumulativeBonus: {
+        percentPerYear: num(bonus.percentPerYear),
+        maxPercent: num(bonus.maxPercent),
+        reducesOnClaim: bool(bonus.reducesOnClaim)
+      },
+      claims: {
+        deductibleAmount: num(claims.deductibleAmount),
+        consumablesCovered: bool(claims.consumablesCovered)
+      },
+      diseaseSubLimits: list(f.diseaseSubLimits).filter(l => str(l.disease)).map(l => ({
+        disease: str(l.disease),
+        limitAmount: num(l.limitAmount),
+        limitPercentOfSI: num(l.limitPercentOfSI),
+        limitText: str(l.limitText) || ''
+      }))
+    };
+  };
+
+  const basis = (v: unknown): PayoutBasis | null => (v === 'indemnity' || v === 'benefit' ? v : null);
+  const strings = (v: unknown): string[] => (Array.isArray(v) ? v.filter((x): x is string => typeof x === 'string' && !!x) : []);
+
+  const transformCis = (raw: unknown): CustomerInformationSheet | undefined => {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const c = obj(raw);
+    const row = (v: unknown) => (v && typeof v === 'object' ? obj(v) : null);
+    const coverType = row(c.coverType);
+    const payoutBasis = row(c.payoutBasis);
+    const waiting = row(c.waitingPeriods);
+    const costSharing = row(c.costSharing);
+    const renewal = obj(c.renewal);
+    const grievances = row(c.grievances);
+
+    return {
+      document: num(c.document) ?? 0,
+      coverType: coverType && { basis: basis(coverType.basis), text: str(coverType.text) || '' },
+      covered: strings(c.covered),
+      exclusions: strings(c.exclusions),
+      waitingPeriods: waiting && {
+        initialMonths: num(waiting.initialMonths),
+        pedMonths: num(waiting.pedMonths),
+        specificIllnessMonths: num(waiting.specificIllnessMonths),
+        text: str(waiting.text) || ''
+      },
+      payoutBasis: payoutBasis && { basis: basis(payoutBasis.basis), text: str(payoutBasis.text) || '' },
+      costSharing: costSharing && {
+        coPayPercent: num(costSharing.coPayPercent),
+        coPayCondition: str(costSharing.coPayCondition),
+        deductibleAmount: num(costSharing.deductibleAmount),
+        text: str(costSharing.text) || ''
+      },
+      renewal: {
+        conditions: str(renewal.conditions),
+        benefits: str(renewal.benefits),
+        lifelong: bool(renewal.lifelong),
+        bonusPercentPerYear: num(renewal.bonusPercentPerYear),
+        bonusMaxPercent: num(renewal.bonusMaxPercent)
+      },
+      grievances: grievances && {
+        emails: strings(grievances.emails),
+        phones: strings(grievances.phones),
+        websites: strings(grievances.websites),
+        text: str(grievances.text) || ''
+      }
+    };
+  };
+
+  const transformSchedule = (raw: unknown): PolicySchedule | undefined => {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const s = obj(raw);
+    const period = obj(s.period);
+    const sumInsured = obj(s.sumInsured);
+    const premium = obj(s.premium);
+    const nominee = s.nominee ? obj(s.nominee) : null;
+
+    return {
+      policyNumber: str(s.policyNumber),
+      period: { start: str(period.start), end: str(period.end) },
+      members: list(s.members).map(m => ({
+        name: str(m.name),
+        relationship: str(m.relationship),
+        age: num(m.age),
+        sumInsured: num(m.sumInsured)
+      })),
+      sumInsured: {
+        basis: sumInsured.basis === 'individual' || sumInsured.basis === 'floater' ? sumInsured.basis : null,
+        amount: num(sumInsured.amount)
+      },
+      premium: {
+        net: num(premium.net),
+        cgst: num(premium.cgst),
+        sgst: num(premium.sgst),
+        igst: num(premium.igst),
+        gst: num(premium.gst),
+        total: num(premium.total)
+      },
+      addOns: list(s.addOns).filter(a => str(a.name)).map(a => ({
+        name: str(a.name),
+        sumInsured: num(a.sumInsured),
+        premium: num(a.premium)
+      })),
+      nominee: nominee ? { name: str(nominee.name), relationship: str(nominee.relationship) } : null
+    };
+  };
+
+  const transformScore = (raw: unknown): PolicyScore | undefined => {
+    const s = obj(raw);
+    const total = num(s.total);
+    if (total === null) return undefined;
+    return {
+      total,
+      dimensions: list(s.dimensions).map(d => ({
+        id: str(d.id) || '',
+        label: str(d.label) || '',
+        weight: num(d.weight) ?? 0,
+        score: num(d.score) ?? 0,
+        deductions: list(d.deductions).map(x => ({
+          points: num(x.points) ?? 0,
+          feature: str(x.feature) || '',
+          bucket: (x.bucket ?? null) as ScoreDeduction['bucket'],
+          reason: str(x.reason) || ''
+        }))
+      }))
+    };
+  };
+
+  // The server's kinds include those it detected for documents sent without one
+  const analyzedKinds = list(data.documents).map(d => d.kind).filter(isDocumentKind);
+  const kinds = analyzedKinds.length > 0 ? analyzedKinds : (documents || []).map(d => d.kind);
 
   const result: PolicyAnalysis = {
     policyName: data.policyName || 'Unknown Policy',
     insurer: data.insurer || 'Unknown',
     sumInsured: data.sumInsured || 'Not specified',
     policyType: data.policyType || 'Not specified',
-    documentType: 'Policy Wording',
+    documentType: [...new Set(kinds.map(kind => DOCUMENT_KINDS[kind].label))].join(' + ') || DOCUMENT_KINDS.wording.label,
+    insuranceType: isInsuranceType(data.insuranceType) ? data.insuranceType : DEFAULT_INSURANCE_TYPE,
     summary: {
       great: data.summary?.great || 0,
       good: data.summary?.good || 0,
@@ -74,7 +514,44 @@ export async function analyzePolicyWithAI(policyText: string): Promise<PolicyAna
       bad: (data.redFlags || []).map(transformFeature),
       unclear: (data.needsClarification || []).map(transformFeature)
     },
-    disclaimer: data.disclaimer || 'This analysis is for informational purposes only.'
+    addOns: list(data.addOns).filter(a => str(a.name)).map(a => ({
+      name: str(a.name),
+      price: str(a.price),
+      premium: num(a.premium),
+      quote: str(a.policyStates) || '',
+      reference: str(a.reference) || '',
+      explanation: str(a.explanation) || '',
+      verdict: ADD_ON_VERDICTS.find(v => v === a.verdict) || 'optional',
+      neutralises: Array.isArray(a.neutralises) ? a.neutralises.filter((n): n is string => typeof n === 'string') : [],
+      selected: a.selected === true
+    })),
+    score: transformScore(data.score),
+    facts: transformFacts(data.facts),
+    schedule: transformSchedule(data.schedule),
+    cis: transformCis(data.cis),
+    skipped: data.skipped && typeof data.skipped === 'object'
+      ? {
+          chars: num(obj(data.skipped).chars) ?? 0,
+          pages: list(obj(data.skipped).pages)
+            .filter(r => num(r.from) !== null && num(r.to) !== null)
+            .map(r => ({ from: num(r.from)!, to: num(r.to)! }))
+        }
+      : undefined,
+    documents: list(data.documents)
+      .filter(d => isDocumentKind(d.kind))
+      .map(d => {
+        const detected = obj(d.detected);
+        return {
+          kind: d.kind as DocumentKind,
+          name: str(d.name) || '',
+          languages: Array.isArray(d.languages) ? d.languages.filter(isLanguageCode) : undefined,
+          detected: isDocumentKind(detected.kind) ? { kind: detected.kind, confidence: num(detected.confidence) ?? 0 } : undefined
+        };
+      }),
+    disclaimer: data.disclaimer || 'This analysis is for informational purposes only.',
+    // English when translation failed - compare with the requested language
+    language: isLanguageCode(data.language) ? data.language : DEFAULT_LANGUAGE,
+    englishReport: english ?? (!isLanguageCode(data.language) || data.language === DEFAULT_LANGUAGE ? { ...data } : undefined)
   };
 
   return result;
@@ -0,0 +1,74 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { ERROR_CODES } from '../../supabase/functions/_shared/errorCodes';
+import { isDocumentKind, type FeatureSource, type SourceDocumentInput } from '../../supabase/functions/_shared/documents';
+import { DEFAULT_LANGUAGE, type LanguageCode } from '../../supabase/functions/_shared/languages';
+import { ServiceUnavailableError, toAnalysisError } from '@/services/policyAnalyzer';
+
+export interface AnswerCitation {
+  quote: string;
+  reference: string;
+  // Every returned quote was located in the policy; 'approximate' means a close match
+  status: 'verified' | 'approximate';
+  page?: number;
+  source?: FeatureSource;
+}
+
+export interface PolicyAnswer {
+  // false when the policy text doesn't answer the question - `answer` then says so
+  answered: boolean;
+  answer: string;
+  citations: AnswerCitation[];
+}
+
+export interface ConversationTurn {
+  question: string;
+  answer: string;
+}
+
+const transformCitation = (c: Record<string, unknown>): AnswerCitation => {
+  const source = c.source as FeatureSource | undefined;
+  return {
+    quote: typeof c.quote === 'string' ? c.quote : '',
+    reference: typeof c.reference === 'string' ? c.reference : '',
+    status: c.status === 'verified' ? 'verified' : 'approximate',
+    page: typeof c.page === 'number' ? c.page : undefined,
+    source: source && isDocumentKind(source.kind) ? source : undefined
+  };
+};
+
+/**
+ * Asks a question about the uploaded policy. Earlier turns are sent so
+ * follow-ups like "and for my parents?" make sense; answers only ever come
+ * from the policy text and cite it.
+ */
+export async function askPolicyQuestion(
+  documents: SourceDocumentInput[],
+  question: string,
+  history: ConversationTurn[] = [],
+  language: LanguageCode = DEFAULT_LANGUAGE
+): Promise<PolicyAnswer> {
+  const response = await supabase.functions.invoke('ask-policy', {
+    body: { documents, question, history, language: language !== DEFAULT_LANGUAGE ? language : undefined }
+  });
+
+  if (response.error) {
+    console.error('Edge function error:', response.error);
+    if (response.error instanceof FunctionsHttpError) {
+      const body = await response.error.context.json().catch(() => null);
+      throw toAnalysisError(body);
+    }
+    throw new ServiceUnavailableError(ERROR_CODES.UPSTREAM_UNAVAILABLE.userMessage, 'UPSTREAM_UNAVAILABLE');
+  }
+
+  const data = response.data;
+  if (data?.error) {
+    throw toAnalysisError(data);
+  }
+
+  return {
+    answered: data?.answered === true,
+    answer: typeof data?.answer === 'string' ? data.answer : '',
+    citations: Array.isArray(data?.citations) ? data.citations.map(transformCitation) : []
+  };
+}
@@ -1,4 +1,6 @@
 import * as pdfjsLib from 'pdfjs-dist';
+import { detectLanguages, policyTermsFor } from '../../supabase/functions/_shared/textLanguage';
+import { detectInsuranceType } from '../../supabase/functions/_shared/insuranceTypes';
 
 // Set worker source using Vite-compatible import.meta.url approach
 pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
@@ -6,77 +8,23 @@ pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
   import.meta.url
 ).toString();
 
-export type PDFExtractionError = 'PASSWORD_PROTECTED' | 'SCANNED_PDF' | 'CORRUPTED' | 'NOT_A_POLICY' | 'UNKNOWN';
+// Must match PAGE_MARKER_PATTERN in supabase/functions/analyze-policy/pages.ts
+export const pageMarker = (pageNumber: number) => `[Page ${pageNumber}]`;
+
+export interface ExtractedDocument {
+  // Full text with a page marker before each page, sent to the edge function
+  text: string;
+  // Plain text of each page, index 0 = page 1
+  pages: string[];
+}
 
-// Keywords that indicate an insurance policy document
-const POLICY_KEYWORDS = {
-  // General insurance terms
-  general: [
-    'insurance', 'policy', 'coverage', 'premium', 'insured', 'beneficiary',
-    'claim', 'deductible', 'exclusion', 'sum insured', 'policyholder',
-    'indemnity', 'underwriter', 'endorsement', 'waiting period', 'co-pay',
-    'policy schedule', 'terms and conditions', 'policy document', 'insurer',
-    'risk cover', 'policy period', 'renewal', 'lapse', 'grace period'
-  ],
-  // Health insurance specific
-  health: [
-    'health insurance', 'mediclaim', 'hospitalization', 'pre-existing disease',
-    'cashless', 'network hospital', 'room rent', 'icu', 'daycare procedure',
-    'sub-limit', 'no claim bonus', 'restoration benefit', 'maternity',
-    'critical illness', 'health cover', 'medical expenses', 'ambulance',
-    'domiciliary', 'ayush', 'opd', 'pre-hospitalization', 'post-hospitalization'
-  ],
-  // Life insurance specific
-  life: [
-    'life insurance', 'term plan', 'term life', 'whole life', 'endowment',
-    'maturity benefit', 'death benefit', 'survival benefit', 'nominee',
-    'life assured', 'life cover', 'mortality', 'ulip', 'surrender value',
-    'paid-up value', 'revival', 'rider', 'accidental death', 'terminal illness'
-  ],
-  // Auto/Motor insurance specific
-  auto: [
-    'motor insurance', 'vehicle insurance', 'car insurance', 'auto insurance',
-    'third party', 'own damage', 'comprehensive cover', 'idv', 'insured vehicle',
-    'ncb', 'zero depreciation', 'roadside assistance', 'engine protect',
-    'personal accident', 'passenger cover', 'theft', 'total loss', 'bumper to bumper'
-  ],
-  // Home insurance specific
-  home: [
-    'home insurance', 'property insurance', 'house insurance', 'dwelling',
-    'building insurance', 'contents insurance', 'fire insurance', 'burglary',
-    'natural calamity', 'earthquake', 'flood damage', 'structure cover',
-    'household goods', 'valuable items', 'liability cover', 'tenant', 'landlord'
-  ]
-};
+export type PDFExtractionError = 'PASSWORD_PROTECTED' | 'SCANNED_PDF' | 'CORRUPTED' | 'NOT_A_POLICY' | 'UNKNOWN';
 
+// Needs general insurance vocabulary AND the terms of one supported insurance type.
+// Hindi and bilingual wordings count their own general and health terms too.
 function isPolicyDocument(text: string): boolean {
-  const lowerText = text.toLowerCase();
-  let totalMatches = 0;
-  let categoryMatches: Record<string, number> = {};
-  
-  // Check all categories
-  for (const [category, keywords] of Object.entries(POLICY_KEYWORDS)) {
-    categoryMatches[category] = 0;
-    for (const keyword of keywords) {
-      if (lowerText.includes(keyword)) {
-        totalMatches++;
-        categoryMatches[category]++;
-      }
-    }
-  }
-  
-  // Must have at least 3 general insurance terms
-  const hasGeneralTerms = categoryMatches['general'] >= 3;
-  
-  // Must have at least 2 matches from any specific insurance type
-  const hasSpecificType = 
-    categoryMatches['health'] >= 2 ||
-    categoryMatches['life'] >= 2 ||
-    categoryMatches['auto'] >= 2 ||
-    categoryMatches['home'] >= 2;
-  
-  // Require both general terms AND specific type keywords
-  return hasGeneralTerms && hasSpecificType;
+  const match = detectInsuranceType(text, policyTermsFor(detectLanguages(text).languages));
+  return match.general >= 3 && match.type !== null;
 }
 
 export class PDFError extends Error {
@@ -89,7 +37,22 @@ export class PDFError extends Error {
   }
 }
 
-export async function extractTextFromPDF(file: File): Promise<string> {
+/** Throws NOT_A_POLICY unless the text reads like an insurance policy */
+export function assertPolicyDocument(text: string): void {
+  if (!isPolicyDocument(text)) {
+    throw new PDFError(
+      'NOT_A_POLICY',
+      'This doesn\'t appear to be an insurance policy document. Please upload a valid insurance policy PDF.'
+    );
+  }
+}
+
+export interface ExtractOptions {
+  // Brochures and schedules are too short or generic for the policy keyword check
+  requirePolicyKeywords?: boolean;
+}
+
+export async function extractTextFromPDF(file: File, { requirePolicyKeywords = true }: ExtractOptions = {}): Promise<ExtractedDocument> {
   try {
     const arrayBuffer = await file.arrayBuffer();
     
@@ -117,17 +80,21 @@ export async function extractTextFromPDF(file: File): Promise<string> {
       );
     }
     
-    let fullText = '';
+    const pages: string[] = [];
     
     for (let i = 1; i <= pdf.numPages; i++) {
       const page = await pdf.getPage(i);
       const textContent = await page.getTextContent();
+      // NFC so Devanagari vowel signs match what the model quotes
       const pageText = textContent.items
         .map((item: any) => item.str)
-        .join(' ');
-      fullText += pageText + '\n\n';
+        .join(' ')
+        .normalize('NFC');
+      pages.push(pageText.trim());
     }
     
+    const fullText = pages.join('\n\n');
+    
     // Check if PDF is scanned/image-based (very little text extracted)
     if (fullText.trim().length < 100) {
       throw new PDFError(
@@ -137,14 +104,14 @@ export async function extractTextFromPDF(file: File): Promise<string> {
     }
     
     // Check if the document is actually an insurance policy
-    if (!isPolicyDocument(fullText)) {
-      throw new PDFError(
-        'NOT_A_POLICY',
-        'This doesn\'t appear to be an insurance policy document. Please upload a valid insurance policy PDF.'
-      );
+    if (requirePolicyKeywords) {
+      assertPolicyDocument(fullText);
     }
     
-    return fullText.trim();
+    return {
+      text: pages.map((pageText, i) => `${pageMarker(i + 1)}\n${pageText}`).join('\n\n'),
+      pages
+    };
   } catch (error) {
     if (error instanceof PDFError) {
       throw error;
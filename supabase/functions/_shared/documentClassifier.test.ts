@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { classifyDocument, MIN_CONFIDENCE } from "./documentClassifier.ts";
+
+describe("classifyDocument", () => {
+  it("recognises a wording by its title and clauses", () => {
+    const text = `[Page 1]\nACME HEALTH POLICY WORDING\nPreamble\nStandard Definitions ... Specific Definitions ...
+Permanent Exclusions Code-Excl01 ... Moratorium Period ... Free Look Period ... Grievance Redressal ... Ombudsman`;
+    const { kind, confidence } = classifyDocument(text);
+    expect(kind).toBe("wording");
+    expect(confidence).toBeGreaterThanOrEqual(MIN_CONFIDENCE);
+  });
+
+  it("recognises a short schedule", () => {
+    const text = `Policy Schedule cum Certificate
+Policy Number: 1234/5678  Period of Insurance: 01/04/2026 to 31/03/2027
+Proposer Name: A Sharma  Insured Members: Self, Spouse  Date of Birth: 01/01/1985
+Nominee Name: B Sharma  Premium Paid: 18,450  GSTIN: 27AAACA1234A1Z5`;
+    const { kind, confidence } = classifyDocument(text, "schedule.pdf");
+    expect(kind).toBe("schedule");
+    expect(confidence).toBeGreaterThanOrEqual(MIN_CONFIDENCE);
+  });
+
+  it("recognises a Customer Information Sheet", () => {
+    const text = `CUSTOMER INFORMATION SHEET
+Description is illustrative and not exhaustive
+1 Title of the Policy  2 Type of Policy  3 What am I covered for  4 What are the major exclusions
+5 Waiting period  6 Payout basis  7 Cost sharing  8 Renewal Conditions  9 Renewal Benefits
+10 Cancellation  11 Claims  12 Policy Servicing  13 Grievances/Complaints  14 Insured's Rights  15 Insured's Obligations`;
+    expect(classifyDocument(text).kind).toBe("cis");
+  });
+
+  it("uses the file name as a hint", () => {
+    const text = "Why choose Acme Health? Key benefits at a glance. Call us on our toll free number.";
+    expect(classifyDocument(text, "acme-brochure.pdf").kind).toBe("brochure");
+  });
+
+  it("is not confident without evidence", () => {
+    expect(classifyDocument("Page intentionally left blank").confidence).toBeLessThan(MIN_CONFIDENCE);
+  });
+});
@@ -0,0 +1,134 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ DOCUMENT CLASSIFIER - Shared by the edge functions and src/                ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// Labels an extracted document with its kind (DOCUMENT_KINDS) from its text.
+// A title phrase ("Customer Information Sheet", "Policy Schedule") near the
+// start of the text is the strongest signal; the same phrase further in is
+// usually a cross-reference, so it counts for less. Clause vocabulary and the
+// length of the text decide the rest. The upload flow uses the label to
+// pre-select each document's kind, and analyze-policy uses it for documents
+// sent without one. Plain TypeScript, no runtime imports.
+
+import { DOCUMENT_KINDS, type DocumentKind } from "./documents.ts";
+import { countTerms } from "./textLanguage.ts";
+
+interface KindSignals {
+  // Phrases that name the document - usually in its title
+  titles: string[];
+  // Vocabulary typical of the document's body
+  terms: string[];
+  // File names of this kind
+  fileName?: RegExp;
+}
+
+const SIGNALS: Record<DocumentKind, KindSignals> = {
+  wording: {
+    titles: ['policy wording', 'policy wordings', 'terms and conditions', 'preamble', 'operative clause'],
+    terms: [
+      'standard definitions', 'specific definitions', 'permanent exclusions', 'code- excl', 'code-excl',
+      'general terms and clauses', 'moratorium period', 'free look period', 'grievance redressal',
+      'ombudsman', 'claim procedure', 'arbitration', 'disclosure of information', 'territorial limits',
+      'annexure', 'the company shall', 'subject to the terms'
+    ],
+    fileName: /wording|terms|conditions/
+  },
+  schedule: {
+    titles: ['policy schedule', 'schedule of insurance', 'certificate of insurance', 'schedule cum certificate', 'policy certificate'],
+    terms: [
+      'policy number', 'policy no', 'period of insurance', 'insured members', 'insured persons details',
+      'date of birth', 'nominee name', 'premium paid', 'gstin', 'proposer name', 'intermediary code',
+      'agent code', 'relationship with proposer', 'date of issue', 'customer id', 'chassis no', 'engine no'
+    ],
+    fileName: /schedule|certificate/
+  },
+  endorsement: {
+    titles: ['endorsement schedule', 'endorsement no', 'endorsement number', 'endorsement certificate'],
+    terms: [
+      'it is hereby declared and agreed', 'it is hereby noted and agreed', 'effective date of endorsement',
+      'subject otherwise to', 'amended to read', 'additional premium', 'refund of premium', 'endorsement'
+    ],
+    fileName: /endorse/
+  },
+  cis: {
+    titles: ['customer information sheet', 'description is illustrative and not exhaustive'],
+    terms: [
+      'what am i covered for', 'what are the major exclusions', 'title of the policy', 'payout basis',
+      'cost sharing', 'renewal conditions', 'renewal benefits', 'policy servicing', "insured's rights",
+      "insured's obligations", 'refer to policy clause', 'policy clause number', 'grievances/complaints'
+    ],
+    fileName: /\bcis\b|customer.?information/
+  },
+  prospectus: {
+    titles: ['prospectus'],
+    terms: [
+      'premium chart', 'premium table', 'premium rates', 'entry age', 'eligibility', 'plan options',
+      'for more details on risk factors', 'tax benefit', 'section 80d', 'key features', 'illustration'
+    ],
+    fileName: /prospectus/
+  },
+  brochure: {
+    titles: ['sales brochure', 'brochure', 'leaflet'],
+    terms: [
+      'why choose', 'key benefits', 'at a glance', 'toll free', 'call us', 'visit our website', 'whatsapp',
+      'sms', 'tax benefit', 'section 80d', 'for more details on risk factors', 'key features', 'trade logo'
+    ],
+    fileName: /brochure|leaflet|flyer/
+  }
+};
+
+// Points per signal
+const TITLE_AT_START = 4;
+const TITLE_ELSEWHERE = 1;
+const TERM = 1;
+const FILE_NAME = 2;
+// Characters searched for a title, after page markers are removed
+const START_CHARS = 1500;
+// Wordings run to dozens of pages; schedules and endorsements to one or two
+const LONG_CHARS = 40000;
+const SHORT_CHARS = 8000;
+// A top score this high is fully confident if no other kind scores
+const CONFIDENT_SCORE = 8;
+// Below this confidence the label is only a guess
+export const MIN_CONFIDENCE = 0.5;
+
+export interface DocumentClassification {
+  kind: DocumentKind;
+  // 0-1: share of the evidence pointing at `kind`, lower when there is little evidence
+  confidence: number;
+  scores: Record<DocumentKind, number>;
+}
+
+/**
+ * Classifies a document by its text and, when given, its file name. Text with
+ * no evidence for any kind is labelled a wording with confidence 0.
+ */
+export function classifyDocument(text: string, fileName = ''): DocumentClassification {
+  const lower = (text || '').replace(/\[(?:Page|Document) [^\]\n]*\]/g, ' ').replace(/\s+/g, ' ').toLowerCase();
+  const start = lower.substring(0, START_CHARS);
+  const name = fileName.toLowerCase();
+  const kinds = Object.keys(DOCUMENT_KINDS) as DocumentKind[];
+
+  const scores = Object.fromEntries(kinds.map(kind => {
+    const { titles, terms, fileName: pattern } = SIGNALS[kind];
+    const atStart = countTerms(start, titles);
+    const score = atStart * TITLE_AT_START
+      + (countTerms(lower, titles) - atStart) * TITLE_ELSEWHERE
+      + countTerms(lower, terms) * TERM
+      + (pattern && pattern.test(name) ? FILE_NAME : 0);
+    return [kind, score];
+  })) as Record<DocumentKind, number>;
+  if (lower.length >= LONG_CHARS) scores.wording += 3;
+  if (lower.length <= SHORT_CHARS) {
+    scores.schedule += 1;
+    scores.endorsement += 1;
+  }
+
+  const ranked = [...kinds].sort((a, b) => scores[b] - scores[a]);
+  const [best, second] = ranked;
+  if (scores[best] === 0) return { kind: 'wording', confidence: 0, scores };
+
+  const share = scores[best] / (scores[best] + scores[second]);
+  const confidence = share * Math.min(1, scores[best] / CONFIDENT_SCORE);
+  return { kind: best, confidence: Math.round(confidence * 100) / 100, scores };
+}
@@ -0,0 +1,79 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ DOCUMENT KINDS - Shared by the edge functions and src/                     ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// Insurers split one policy across several PDFs. Each uploaded document is
+// labelled with a kind; `precedence` decides which document wins when typed
+// facts disagree (endorsements amend the wording, the schedule is specific to
+// the insured, the brochure is marketing). Only the wording holds the full
+// terms - every other kind has a `gap`, shown when it is uploaded without one.
+// Plain TypeScript, no runtime imports.
+
+export interface DocumentKindInfo {
+  label: string;
+  precedence: number;
+  // What the document leaves out when no policy wording is uploaded with it
+  gap?: string;
+}
+
+export const DOCUMENT_KINDS = {
+  wording: { label: "Policy Wording", precedence: 4 },
+  schedule: {
+    label: "Policy Schedule",
+    precedence: 5,
+    gap: "lists who and what is insured, but not what the policy covers or excludes"
+  },
+  endorsement: {
+    label: "Endorsement",
+    precedence: 6,
+    gap: "only changes part of the policy"
+  },
+  cis: {
+    label: "Customer Information Sheet",
+    precedence: 3,
+    gap: "summarises the key terms in a few pages and leaves out most of the detail"
+  },
+  prospectus: {
+    label: "Prospectus",
+    precedence: 2,
+    gap: "describes the benefits but not every condition and exclusion"
+  },
+  brochure: {
+    label: "Brochure",
+    precedence: 1,
+    gap: "is marketing material and leaves out most conditions and exclusions"
+  }
+} satisfies Record<string, DocumentKindInfo>;
+
+export type DocumentKind = keyof typeof DOCUMENT_KINDS;
+
+/** One uploaded document as sent to analyze-policy */
+export interface SourceDocumentInput {
+  kind: DocumentKind;
+  name: string;
+  text: string;
+}
+
+/** Which uploaded document a finding came from; `document` indexes the request's documents */
+export interface FeatureSource {
+  document: number;
+  kind: DocumentKind;
+  name: string;
+}
+
+export function isDocumentKind(value: unknown): value is DocumentKind {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DOCUMENT_KINDS, value);
+}
+
+export interface DocumentCoverage {
+  // A policy wording was uploaded
+  complete: boolean;
+  // Kind to upload for a fuller analysis, null when complete
+  missing: DocumentKind | null;
+}
+
+/** Whether a set of uploaded documents holds the full policy terms */
+export function documentCoverage(kinds: DocumentKind[]): DocumentCoverage {
+  const complete = kinds.includes('wording');
+  return { complete, missing: complete ? null : 'wording' };
+}
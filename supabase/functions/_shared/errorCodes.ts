@@ -0,0 +1,102 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ ERROR CODES - Shared by the edge functions and src/services                ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// Plain TypeScript with no runtime imports so both Deno and Vite can load it.
+// Error responses have the shape ErrorBody; the code decides the HTTP status,
+// the message shown to the user and whether retrying can help.
+
+export interface ErrorCodeInfo {
+  status: number;
+  retryable: boolean;
+  userMessage: string;
+}
+
+export const ERROR_CODES = {
+  NO_POLICY_TEXT: {
+    status: 400,
+    retryable: false,
+    userMessage: "No policy text was received. Please upload your policy again."
+  },
+  DOCUMENT_TOO_SHORT: {
+    status: 400,
+    retryable: false,
+    userMessage: "Document too short. Please upload the complete policy wording."
+  },
+  EMPTY_DOCUMENT: {
+    status: 400,
+    retryable: false,
+    userMessage: "One of your documents has no readable text. Remove it or upload a text-based PDF, then try again."
+  },
+  UNSUPPORTED_POLICY: {
+    status: 400,
+    retryable: false,
+    userMessage: "This doesn't appear to be a health, life, motor or home insurance policy."
+  },
+  NO_QUESTION: {
+    status: 400,
+    retryable: false,
+    userMessage: "Please type a question about your policy."
+  },
+  INVALID_REPORT: {
+    status: 400,
+    retryable: false,
+    userMessage: "This report can't be translated. Please analyze your policy again."
+  },
+  QUOTA_EXCEEDED: {
+    status: 429,
+    retryable: true,
+    userMessage: "You've reached the analysis limit for now. Please try again later."
+  },
+  UPSTREAM_RATE_LIMITED: {
+    status: 503,
+    retryable: true,
+    userMessage: "Our analysis service is busy right now. Please try again in a minute."
+  },
+  UPSTREAM_UNAVAILABLE: {
+    status: 503,
+    retryable: true,
+    userMessage: "Our analysis service is temporarily unavailable. Please try again shortly."
+  },
+  UPSTREAM_TIMEOUT: {
+    status: 504,
+    retryable: true,
+    userMessage: "Analysis timed out. Please try again."
+  },
+  MALFORMED_MODEL_OUTPUT: {
+    status: 502,
+    retryable: true,
+    userMessage: "We couldn't read the analysis result. Please try again."
+  },
+  CONFIG_ERROR: {
+    status: 500,
+    retryable: false,
+    userMessage: "The analysis service is not configured correctly. Please contact support."
+  },
+  INTERNAL_ERROR: {
+    status: 500,
+    retryable: true,
+    userMessage: "Analysis failed. Please try again."
+  }
+} satisfies Record<string, ErrorCodeInfo>;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+export interface ErrorBody {
+  error: ErrorCode;
+  message: string;
+  retryable: boolean;
+  // Set for QUOTA_EXCEEDED; mirrors the Retry-After header
+  retryAfterSeconds?: number;
+}
+
+export function isErrorCode(value: unknown): value is ErrorCode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ERROR_CODES, value);
+}
+
+export function errorBody(code: ErrorCode, retryAfterMs?: number): ErrorBody {
+  const info = ERROR_CODES[code];
+  const body: ErrorBody = { error: code, message: info.userMessage, retryable: info.retryable };
+  if (retryAfterMs !== undefined) body.retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  return body;
+}
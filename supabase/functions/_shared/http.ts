@@ -0,0 +1,28 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ HTTP - CORS headers and JSON responses shared by the edge functions        ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// analyze-policy and ask-policy are called from the same browser origin and
+// answer errors in the same ErrorBody shape, so both build their responses
+// here. Retry-After is exposed so the client can read it on rate limits.
+
+import { errorBody, ERROR_CODES, type ErrorCode } from "./errorCodes.ts";
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'retry-after',
+};
+
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json', ...headers } }
+  );
+}
+
+export function errorResponse(code: ErrorCode, retryAfterMs?: number): Response {
+  const body = errorBody(code, retryAfterMs);
+  const headers: Record<string, string> = body.retryAfterSeconds ? { 'Retry-After': String(body.retryAfterSeconds) } : {};
+  return jsonResponse(body, ERROR_CODES[code].status, headers);
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { detectInsuranceType } from "./insuranceTypes.ts";
+import { policyTermsFor } from "./textLanguage.ts";
+
+describe("detectInsuranceType", () => {
+  it.each([
+    ["health", "This health insurance policy covers hospitalisation, ICU charges and room rent at network hospitals on a cashless basis."],
+    ["life", "This term plan pays the sum assured as a death benefit to the nominee. The life assured may surrender the policy for its surrender value."],
+    ["motor", "Own damage cover for the insured vehicle up to the IDV. NCB of 20% applies at renewal; zero depreciation add-on available."],
+    ["home", "This home insurance policy covers the dwelling against earthquake and flood, and household goods against burglary."]
+  ])("routes a %s policy", (type, text) => {
+    expect(detectInsuranceType(text).type).toBe(type);
+  });
+
+  it("does not count terms inside longer words", () => {
+    // "particular" and "individual" once counted as icu and idv
+    const text = "In particular, individual claims under this motor insurance policy for own damage are settled within 30 days.";
+    const match = detectInsuranceType(text);
+    expect(match.scores).toMatchObject({ health: 0, motor: 2 });
+    expect(match.type).toBe("motor");
+  });
+
+  it("needs at least two terms of a type", () => {
+    expect(detectInsuranceType("Premium receipt for your insurance policy. Claim within 30 days.")).toMatchObject({ type: null, general: 4 });
+  });
+
+  it("counts Hindi health terms when given", () => {
+    const text = "स्वास्थ्य बीमा पॉलिसी: अस्पताल में भर्ती और आईसीयू का खर्च";
+    expect(detectInsuranceType(text).type).toBeNull();
+    expect(detectInsuranceType(text, policyTermsFor(["hi"])).type).toBe("health");
+  });
+});
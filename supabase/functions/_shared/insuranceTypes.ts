@@ -0,0 +1,108 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ INSURANCE TYPES - Shared by the edge functions and src/                    ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// analyze-policy has a rulebook per insurance type. The type is detected from
+// the vocabulary of the policy text: the type with the most of its own terms
+// wins, ties go to the type listed first. The upload check in
+// src/utils/pdfExtractor.ts and the edge function's validation use the same
+// lists, so a document the browser accepts is routed the same way on the
+// server. Plain TypeScript, no runtime imports.
+
+import { countTerms, type PolicyTerms } from "./textLanguage.ts";
+
+export interface InsuranceTypeInfo {
+  label: string;
+  // Terms only this type of policy uses
+  terms: string[];
+}
+
+export const INSURANCE_TYPES = {
+  health: {
+    label: "Health",
+    terms: [
+      'health insurance', 'mediclaim', 'hospitalization', 'hospitalisation', 'pre-existing disease',
+      'cashless', 'network hospital', 'room rent', 'icu', 'daycare procedure', 'day care',
+      'sub-limit', 'restoration benefit', 'maternity', 'waiting period', 'co-pay',
+      'critical illness', 'health cover', 'medical expenses', 'ambulance',
+      'domiciliary', 'ayush', 'opd', 'pre-hospitalization', 'post-hospitalization'
+    ]
+  },
+  life: {
+    label: "Life",
+    terms: [
+      'life insurance', 'term plan', 'term life', 'term insurance', 'whole life', 'endowment',
+      'maturity benefit', 'death benefit', 'survival benefit', 'life assured', 'life cover',
+      'sum assured', 'mortality', 'ulip', 'surrender value', 'paid-up value', 'revival',
+      'suicide', 'accidental death', 'terminal illness', 'claim settlement ratio'
+    ]
+  },
+  motor: {
+    label: "Motor",
+    terms: [
+      'motor insurance', 'vehicle insurance', 'car insurance', 'auto insurance', 'two wheeler',
+      'third party', 'own damage', 'comprehensive cover', 'idv', 'insured declared value',
+      'insured vehicle', 'ncb', 'zero depreciation', 'roadside assistance', 'engine protect',
+      'passenger cover', 'total loss', 'bumper to bumper', 'registration number', 'compulsory deductible'
+    ]
+  },
+  home: {
+    label: "Home",
+    terms: [
+      'home insurance', 'property insurance', 'house insurance', 'householder', 'dwelling',
+      'building insurance', 'contents insurance', 'fire insurance', 'burglary', 'bharat griha raksha',
+      'natural calamity', 'earthquake', 'flood', 'structure cover', 'household goods',
+      'valuable items', 'reinstatement value', 'market value', 'tenant', 'landlord'
+    ]
+  }
+} satisfies Record<string, InsuranceTypeInfo>;
+
+export type InsuranceType = keyof typeof INSURANCE_TYPES;
+
+// Results cached before other types were supported are health analyses
+export const DEFAULT_INSURANCE_TYPE: InsuranceType = 'health';
+
+// Insurance vocabulary any policy uses
+export const GENERAL_POLICY_TERMS = [
+  'insurance', 'policy', 'coverage', 'premium', 'insured', 'beneficiary', 'nominee',
+  'claim', 'deductible', 'exclusion', 'sum insured', 'policyholder', 'irdai',
+  'indemnity', 'underwriter', 'endorsement', 'rider', 'add-on',
+  'policy schedule', 'terms and conditions', 'policy document', 'insurer',
+  'risk cover', 'policy period', 'renewal', 'lapse', 'grace period'
+];
+
+// A type needs at least this many of its own terms to be detected
+const MIN_TYPE_TERMS = 2;
+
+export interface InsuranceTypeMatch {
+  // null when no type has MIN_TYPE_TERMS of its terms
+  type: InsuranceType | null;
+  // Number of GENERAL_POLICY_TERMS found
+  general: number;
+  scores: Record<InsuranceType, number>;
+}
+
+export function isInsuranceType(value: unknown): value is InsuranceType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(INSURANCE_TYPES, value);
+}
+
+/**
+ * Detects the insurance type of a policy text. `localTerms` are the Hindi or
+ * Marathi terms for the languages the text is written in (policyTermsFor in
+ * textLanguage.ts) - they only exist for health policies so far.
+ */
+export function detectInsuranceType(text: string, localTerms: PolicyTerms = { general: [], health: [] }): InsuranceTypeMatch {
+  const lower = (text || '').toLowerCase();
+  const types = Object.keys(INSURANCE_TYPES) as InsuranceType[];
+  const scores = Object.fromEntries(
+    types.map(type => [type, countTerms(lower, INSURANCE_TYPES[type].terms)])
+  ) as Record<InsuranceType, number>;
+  scores.health += countTerms(lower, localTerms.health);
+
+  const best = types.reduce((a, b) => (scores[b] > scores[a] ? b : a));
+  return {
+    type: scores[best] >= MIN_TYPE_TERMS ? best : null,
+    general: countTerms(lower, GENERAL_POLICY_TERMS) + countTerms(lower, localTerms.general),
+    scores
+  };
+}
@@ -0,0 +1,35 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ REPORT LANGUAGES - Shared by analyze-policy and src/                       ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// Languages the report can be written in. Analysis always runs in English so
+// the rule engine, scoring and add-on matching see English feature names; the
+// finished report is then translated. Policy quotes stay verbatim in English.
+// Plain TypeScript, no runtime imports.
+
+export interface LanguageInfo {
+  // English name, used in prompts
+  label: string;
+  // Name in the language itself, shown in the language picker
+  nativeName: string;
+}
+
+export const LANGUAGES = {
+  en: { label: "English", nativeName: "English" },
+  hi: { label: "Hindi", nativeName: "हिन्दी" },
+  bn: { label: "Bengali", nativeName: "বাংলা" },
+  mr: { label: "Marathi", nativeName: "मराठी" },
+  ta: { label: "Tamil", nativeName: "தமிழ்" },
+  te: { label: "Telugu", nativeName: "తెలుగు" },
+  gu: { label: "Gujarati", nativeName: "ગુજરાતી" },
+  kn: { label: "Kannada", nativeName: "ಕನ್ನಡ" },
+  ml: { label: "Malayalam", nativeName: "മലയാളം" }
+} satisfies Record<string, LanguageInfo>;
+
+export type LanguageCode = keyof typeof LANGUAGES;
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGES, value);
+}
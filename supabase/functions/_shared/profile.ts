@@ -0,0 +1,86 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ BUYER PROFILE - Shared by the edge functions and src/                      ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// An optional description of the people to be insured. analyze-policy uses it
+// to rate how relevant each feature is to them; it never changes which bucket
+// a feature is in. Plain TypeScript, no runtime imports.
+
+export const CITY_TIERS = {
+  tier1: "Metro / Tier 1 (e.g. Mumbai, Delhi, Bengaluru)",
+  tier2: "Tier 2 (e.g. Jaipur, Lucknow, Kochi)",
+  tier3: "Tier 3 / smaller town"
+} as const;
+
+export const PLANNED_EVENTS = {
+  maternity: "Pregnancy / maternity",
+  surgery: "Planned surgery",
+  travelAbroad: "Treatment or travel abroad"
+} as const;
+
+export type CityTier = keyof typeof CITY_TIERS;
+export type PlannedEvent = keyof typeof PLANNED_EVENTS;
+
+export interface ProfileMember {
+  relationship: string;
+  age: number;
+}
+
+export interface UserProfile {
+  members: ProfileMember[];
+  cityTier: CityTier | null;
+  // Known pre-existing conditions, free text (e.g. "diabetes")
+  conditions: string[];
+  plannedEvents: PlannedEvent[];
+}
+
+/** How much a feature matters to the profile - not_applicable features are listed separately */
+export type Relevance = 'high' | 'medium' | 'low' | 'not_applicable';
+
+export const RELEVANCE_LEVELS: Relevance[] = ['high', 'medium', 'low', 'not_applicable'];
+
+const MAX_MEMBERS = 8;
+const MAX_CONDITIONS = 10;
+
+const clean = (value: unknown, max: number) =>
+  typeof value === 'string' ? value.replace(/[\r\n]+/g, ' ').trim().slice(0, max) : '';
+
+/**
+ * Validates a profile from a request body. Unknown values are dropped; a
+ * profile with no members, city, conditions or events is treated as absent.
+ */
+export function parseProfile(value: unknown): UserProfile | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+
+  const members = (Array.isArray(raw.members) ? raw.members : [])
+    .filter((m): m is Record<string, unknown> => !!m && typeof m === 'object')
+    .filter(m => typeof m.age === 'number' && Number.isFinite(m.age) && m.age >= 0 && m.age <= 120)
+    .slice(0, MAX_MEMBERS)
+    .map(m => ({ relationship: clean(m.relationship, 30) || 'Member', age: Math.floor(m.age as number) }));
+
+  const cityTier = typeof raw.cityTier === 'string' && raw.cityTier in CITY_TIERS ? raw.cityTier as CityTier : null;
+  const conditions = (Array.isArray(raw.conditions) ? raw.conditions : [])
+    .map(c => clean(c, 60))
+    .filter(Boolean)
+    .slice(0, MAX_CONDITIONS);
+  const plannedEvents = (Array.isArray(raw.plannedEvents) ? raw.plannedEvents : [])
+    .filter((e): e is PlannedEvent => typeof e === 'string' && e in PLANNED_EVENTS);
+
+  if (members.length === 0 && !cityTier && conditions.length === 0 && plannedEvents.length === 0) return null;
+  return { members, cityTier, conditions, plannedEvents: [...new Set(plannedEvents)] };
+}
+
+/** One line per fact, used in prompts and as a stable cache key input */
+export function describeProfile(profile: UserProfile): string {
+  const lines: string[] = [];
+  if (profile.members.length > 0) {
+    lines.push(`Members to insure: ${profile.members.map(m => `${m.relationship} (${m.age})`).join(', ')}`);
+  }
+  if (profile.cityTier) lines.push(`City: ${CITY_TIERS[profile.cityTier]}`);
+  lines.push(`Known pre-existing conditions: ${profile.conditions.length > 0 ? profile.conditions.join(', ') : 'none stated'}`);
+  if (profile.plannedEvents.length > 0) {
+    lines.push(`Planned in the next few years: ${profile.plannedEvents.map(e => PLANNED_EVENTS[e]).join(', ')}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { countTerms, detectLanguages, policyTermsFor } from "./textLanguage.ts";
+
+describe("countTerms", () => {
+  it("counts terms found as whole words", () => {
+    expect(countTerms("icu charges and room rent are covered", ["icu", "room rent", "ayush"])).toBe(2);
+  });
+
+  it.each([
+    ["icu", "in particular, the insurer shall pay"],
+    ["ncb", "the abcncb code"],
+    ["idv", "individual members"],
+    ["opd", "topdown review"],
+    ["बीमा", "बीमाकर्ता द्वारा"]
+  ])("does not find %j inside %j", (term, text) => {
+    expect(countTerms(text, [term])).toBe(0);
+  });
+
+  it("allows an English plural and punctuation or digits around a term", () => {
+    expect(countTerms("permanent exclusions apply (code-excl01); icu.", ["exclusion", "code-excl", "icu"])).toBe(3);
+  });
+
+  it("finds Devanagari terms between spaces and danda", () => {
+    expect(countTerms("यह स्वास्थ्य बीमा पॉलिसी है। आईसीयू का खर्च", ["स्वास्थ्य बीमा", "पॉलिसी", "आईसीयू"])).toBe(3);
+  });
+});
+
+describe("detectLanguages", () => {
+  it("treats English and text without letters as English", () => {
+    expect(detectLanguages("Room rent is capped at 1% of sum insured")).toEqual({ primary: "en", languages: ["en"], bilingual: false });
+    expect(detectLanguages("[Page 1]\n12345 ...")).toEqual({ primary: "en", languages: ["en"], bilingual: false });
+  });
+
+  it("tells Hindi from Marathi by their function words", () => {
+    expect(detectLanguages("यह पॉलिसी अस्पताल में भर्ती का खर्च देती है और कमरे का किराया भी है").primary).toBe("hi");
+    expect(detectLanguages("ही पॉलिसी रुग्णालयात दाखल खर्च देते आणि खोलीचे भाडे नाही आहे").primary).toBe("mr");
+  });
+
+  it("reports a bilingual wording", () => {
+    const text = "Room rent is covered at actuals. कमरे का किराया वास्तविक खर्च पर देय है और कोई सीमा नहीं है।";
+    expect(detectLanguages(text)).toMatchObject({ languages: expect.arrayContaining(["en", "hi"]), bilingual: true });
+  });
+});
+
+describe("policyTermsFor", () => {
+  it("merges the terms of languages that have them", () => {
+    const terms = policyTermsFor(["en", "hi", "ta"]);
+    expect(terms.general).toContain("बीमा");
+    expect(terms.health).toContain("आईसीयू");
+    expect(policyTermsFor(["en"])).toEqual({ general: [], health: [] });
+  });
+});
@@ -0,0 +1,122 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ TEXT LANGUAGE - Script detection and policy terms for Indian languages     ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// Some insurers issue Hindi or bilingual (Hindi + English) wordings. Languages
+// are detected from the Unicode script of the letters; Devanagari is split
+// into Hindi and Marathi by their most common function words. The document
+// checks in src/utils/pdfExtractor.ts and analyze-policy add the policy terms
+// of every detected language to the English ones. Only Hindi and Marathi have
+// term sets so far - other scripts are detected but validated on any English
+// terms the document contains. Plain TypeScript, no runtime imports.
+
+import type { LanguageCode } from "./languages.ts";
+
+export interface DetectedLanguages {
+  // Language with the most letters
+  primary: LanguageCode;
+  // Every language with at least MIN_SHARE of the letters, most letters first
+  languages: LanguageCode[];
+  bilingual: boolean;
+}
+
+export interface PolicyTerms {
+  // Insurance vocabulary any policy uses
+  general: string[];
+  // Terms specific to health insurance
+  health: string[];
+}
+
+const MIN_SHARE = 0.15;
+const SAMPLE_CHARS = 20000;
+
+const SCRIPTS: { language: LanguageCode; pattern: RegExp }[] = [
+  { language: 'en', pattern: /[A-Za-z]/g },
+  { language: 'hi', pattern: /[\u0900-\u097F]/g },
+  { language: 'bn', pattern: /[\u0980-\u09FF]/g },
+  { language: 'gu', pattern: /[\u0A80-\u0AFF]/g },
+  { language: 'ta', pattern: /[\u0B80-\u0BFF]/g },
+  { language: 'te', pattern: /[\u0C00-\u0C7F]/g },
+  { language: 'kn', pattern: /[\u0C80-\u0CFF]/g },
+  { language: 'ml', pattern: /[\u0D00-\u0D7F]/g }
+];
+
+// Frequent words that only one of the two Devanagari languages uses
+const MARATHI_WORDS = /(?:^|\s)(?:आहे|आहेत|आणि|नाही|किंवा|यांच्या|असेल)(?=\s|[.,।]|$)/g;
+const HINDI_WORDS = /(?:^|\s)(?:है|हैं|और|नहीं|या|के लिए|होगा)(?=\s|[.,।]|$)/g;
+
+export const POLICY_TERMS: Partial<Record<LanguageCode, PolicyTerms>> = {
+  hi: {
+    general: [
+      'बीमा', 'पॉलिसी', 'प्रीमियम', 'बीमित', 'दावा', 'बीमा राशि', 'बीमाकर्ता', 'पॉलिसीधारक',
+      'अपवर्जन', 'नवीकरण', 'प्रतीक्षा अवधि', 'अनुग्रह अवधि', 'पॉलिसी अवधि', 'नियम और शर्तें', 'नामिती'
+    ],
+    health: [
+      'स्वास्थ्य बीमा', 'अस्पताल में भर्ती', 'कैशलेस', 'नेटवर्क अस्पताल', 'कमरे का किराया',
+      'पहले से मौजूद', 'सह-भुगतान', 'आईसीयू', 'डे केयर', 'एम्बुलेंस', 'मातृत्व', 'गंभीर बीमारी',
+      'चिकित्सा व्यय', 'आयुष', 'आईआरडीएआई'
+    ]
+  },
+  mr: {
+    general: [
+      'विमा', 'पॉलिसी', 'हप्ता', 'विमाधारक', 'दावा', 'विमा रक्कम', 'विमा कंपनी', 'नूतनीकरण',
+      'प्रतीक्षा कालावधी', 'पॉलिसी कालावधी', 'अटी व शर्ती', 'नामनिर्देशित'
+    ],
+    health: [
+      'आरोग्य विमा', 'रुग्णालयात दाखल', 'कॅशलेस', 'नेटवर्क रुग्णालय', 'खोलीचे भाडे',
+      'आयसीयू', 'रुग्णवाहिका', 'प्रसूती', 'गंभीर आजार', 'वैद्यकीय खर्च', 'आयुष'
+    ]
+  }
+};
+
+function devanagariLanguage(text: string): LanguageCode {
+  const marathi = text.match(MARATHI_WORDS)?.length ?? 0;
+  const hindi = text.match(HINDI_WORDS)?.length ?? 0;
+  return marathi > hindi ? 'mr' : 'hi';
+}
+
+/** Languages of a text by letter count. Text without letters is treated as English. */
+export function detectLanguages(text: string): DetectedLanguages {
+  const sample = (text || '').substring(0, SAMPLE_CHARS).replace(/\[(?:Page|Document) [^\]\n]*\]/g, ' ');
+  const counts = SCRIPTS
+    .map(({ language, pattern }) => ({ language, count: sample.match(pattern)?.length ?? 0 }))
+    .map(c => (c.language === 'hi' && c.count > 0 ? { ...c, language: devanagariLanguage(sample) } : c));
+  const total = counts.reduce((n, c) => n + c.count, 0);
+  if (total === 0) return { primary: 'en', languages: ['en'], bilingual: false };
+
+  const languages = counts
+    .filter(c => c.count / total >= MIN_SHARE)
+    .sort((a, b) => b.count - a.count)
+    .map(c => c.language);
+  const primary = languages[0] ?? counts.sort((a, b) => b.count - a.count)[0].language;
+  return { primary, languages: languages.length > 0 ? languages : [primary], bilingual: languages.length > 1 };
+}
+
+/** Policy terms of every non-English language detected, merged */
+export function policyTermsFor(languages: LanguageCode[]): PolicyTerms {
+  const sets = languages.map(l => POLICY_TERMS[l]).filter((t): t is PolicyTerms => !!t);
+  return {
+    general: sets.flatMap(t => t.general),
+    health: sets.flatMap(t => t.health)
+  };
+}
+
+const TERM_PATTERNS = new Map<string, RegExp>();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// A term may not continue into a letter or combining mark on either side, so
+// "icu" is not found in "particular"; an English plural "s" is allowed
+function termPattern(term: string): RegExp {
+  let pattern = TERM_PATTERNS.get(term);
+  if (!pattern) {
+    pattern = new RegExp(`(?<![\\p{L}\\p{M}])${escapeRegExp(term)}s?(?![\\p{L}\\p{M}])`, 'u');
+    TERM_PATTERNS.set(term, pattern);
+  }
+  return pattern;
+}
+
+/** How many of `terms` (lowercase) appear in `lower` as whole words - callers lowercase the text once */
+export function countTerms(lower: string, terms: string[]): number {
+  return terms.filter(term => termPattern(term).test(lower)).length;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { linkAddOns, mergeAddOns, separateAddOns, type AddOnFeature, type RemovableFeature } from "./addons.ts";
+
+const flag = (name: string, policyStates: string): RemovableFeature => ({ name, policyStates, explanation: "" });
+const addOn = (name: string, extra: Partial<AddOnFeature> = {}): AddOnFeature => ({ name, explanation: "", ...extra });
+
+describe("separateAddOns", () => {
+  it("moves add-ons out of the great and good buckets but leaves red flags", () => {
+    const result = {
+      greatFeatures: [flag("Consumables Add-on", "Covers gloves"), flag("No room rent cap", "At actuals")],
+      goodFeatures: [flag("Critical Illness Rider", "Lump sum")],
+      redFlags: [flag("Rider exclusions", "Riders exclude PED")],
+      addOns: [addOn("critical illness rider")]
+    };
+    expect(separateAddOns(result)).toEqual(["Consumables Add-on", "Critical Illness Rider"]);
+    expect(result.greatFeatures.map(f => f.name)).toEqual(["No room rent cap"]);
+    expect(result.redFlags).toHaveLength(1);
+    expect(result.addOns.map(a => a.name)).toEqual(["critical illness rider", "Consumables Add-on"]);
+  });
+});
+
+describe("linkAddOns", () => {
+  it("links add-ons to the red flags their rule removes", () => {
+    const result = {
+      redFlags: [flag("Room rent capped", "1% of SI per day with proportionate deduction"), flag("Co-pay", "20% co-payment")],
+      addOns: [addOn("Room Rent Waiver"), addOn("Co-pay Waiver", { verdict: "not_needed" })]
+    };
+    expect(linkAddOns(result)).toEqual({ detected: 2, linked: 2 });
+    expect(result.addOns[0]).toMatchObject({ neutralises: ["Room rent capped"], verdict: "recommended" });
+    expect(result.addOns[1].verdict).toBe("not_needed");
+    expect(result.redFlags[1].removableBy).toEqual(["Co-pay Waiver"]);
+  });
+
+  it("matches aliases as whole words", () => {
+    const result = {
+      redFlags: [flag("PED waiting", "Pre-existing diseases after 48 months")],
+      addOns: [addOn("Protected Bonus"), addOn("PED Waiting Buyback"), addOn("Presetting benefit")]
+    };
+    linkAddOns(result);
+    expect(result.addOns.map(a => [a.name, a.neutralises])).toEqual([
+      ["Protected Bonus", []],
+      ["PED Waiting Buyback", ["PED waiting"]],
+      ["Presetting benefit", []]
+    ]);
+  });
+
+  it("keeps the model's own links and clears stale ones", () => {
+    const result = {
+      redFlags: [{ ...flag("Maternity excluded", "Not covered"), removableBy: ["Old add-on"] }],
+      addOns: [addOn("Maternity Cover", { neutralises: ["maternity excluded"] })]
+    };
+    linkAddOns(result);
+    expect(result.redFlags[0].removableBy).toEqual(["Maternity Cover"]);
+  });
+
+  it("marks add-ons named on the schedule as selected", () => {
+    const result = { addOns: [addOn("Room Rent Waiver"), addOn("Care Shield"), addOn("OPD Cover")] };
+    linkAddOns(result, ["Room Rent Waiver Add-on", "Healthcare Shield", "opd"]);
+    expect(result.addOns.map(a => a.selected)).toEqual([true, false, true]);
+  });
+});
+
+describe("mergeAddOns", () => {
+  it("keeps the first description of each add-on", () => {
+    const merged = mergeAddOns([[addOn("Room Rent Waiver", { price: "₹500" })], undefined, [addOn("room-rent waiver"), addOn("OPD Cover")]]);
+    expect(merged.map(a => [a.name, a.price])).toEqual([["Room Rent Waiver", "₹500"], ["OPD Cover", undefined]]);
+  });
+});
@@ -0,0 +1,129 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ ADD-ONS - Optional covers evaluated apart from the base policy             ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// A room rent cap is still a red flag of the base policy even if a waiver can
+// be bought. Add-ons are reported in their own list and linked to the red
+// flags they remove, using the rulebook's add-ons plus the names the model gave.
+// Add-ons the model still put in a feature bucket are moved out first.
+
+import { RULEBOOK, type AddOnRule } from "./rulebook.ts";
+import type { AnalysisFeature, Bucket } from "./rules.ts";
+
+export type AddOnVerdict = 'recommended' | 'optional' | 'not_needed';
+
+export interface AddOnFeature {
+  name: string;
+  // Price as written (e.g. "₹1,200 + GST") and in rupees when it is a plain amount
+  price?: string | null;
+  premium?: number | null;
+  policyStates?: string;
+  reference?: string;
+  explanation: string;
+  verdict?: AddOnVerdict;
+  // Names of redFlags in the same result that this add-on removes
+  neutralises?: string[];
+  // Listed on the uploaded policy schedule
+  selected?: boolean;
+}
+
+export type RemovableFeature = AnalysisFeature & { removableBy?: string[] };
+
+type AddOnResult = Partial<Record<Bucket, RemovableFeature[]>> & { addOns?: AddOnFeature[] };
+
+const VERDICTS: AddOnVerdict[] = ['recommended', 'optional', 'not_needed'];
+const ADD_ON_NAME = /\b(add[- ]?ons?|riders?|optional (covers?|benefits?))\b/i;
+
+const normalize = (text: string) => (text || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/** Whether `phrase` appears in `text` as whole words - "ped" is in "PED Waiting Buyback", not in "Protected Bonus" */
+const hasWords = (text: string, phrase: string) => ` ${normalize(text)} `.includes(` ${normalize(phrase)} `);
+
+function ruleFor(addOn: AddOnFeature, rules: AddOnRule[]): AddOnRule | undefined {
+  return rules.find(rule => rule.aliases.some(alias => hasWords(addOn.name, alias)));
+}
+
+/**
+ * Moves features named like add-ons ("Consumables Add-on", "Critical Illness
+ * Rider") out of the great/good buckets into `addOns`. Red flags stay - they
+ * describe the base policy. Returns the names that were moved.
+ */
+export function separateAddOns(result: AddOnResult): string[] {
+  const addOns = result.addOns || [];
+  const known = new Set(addOns.map(a => normalize(a.name)));
+  const moved: string[] = [];
+
+  for (const bucket of ['greatFeatures', 'goodFeatures'] as const) {
+    result[bucket] = (result[bucket] || []).filter(feature => {
+      if (!ADD_ON_NAME.test(feature.name)) return true;
+      if (!known.has(normalize(feature.name))) {
+        addOns.push({ ...feature, price: null, premium: null });
+        known.add(normalize(feature.name));
+      }
+      moved.push(feature.name);
+      return false;
+    });
+  }
+
+  result.addOns = addOns;
+  if (moved.length > 0) {
+    console.log(`Moved ${moved.length} add-on(s) out of the feature buckets: ${moved.join(', ')}`);
+  }
+  return moved;
+}
+
+/**
+ * Links every add-on to the red flags it removes and marks the red flags with
+ * `removableBy`. Add-ons listed on the schedule are marked `selected`.
+ * Must run after the red flags are final (rules, review, conflicts).
+ */
+export function linkAddOns(
+  result: AddOnResult,
+  scheduledAddOns: string[] = [],
+  rules: AddOnRule[] = RULEBOOK.addOns
+): { detected: number; linked: number } {
+  const redFlags = result.redFlags || [];
+  const addOns = (result.addOns || []).filter(a => a && typeof a.name === 'string' && a.name.trim());
+  const scheduled = scheduledAddOns.filter(name => normalize(name));
+
+  for (const flag of redFlags) delete flag.removableBy;
+
+  for (const addOn of addOns) {
+    const rule = ruleFor(addOn, rules);
+    const named = new Set((Array.isArray(addOn.neutralises) ? addOn.neutralises : []).map(normalize));
+    const removes = redFlags.filter(flag => {
+      if (named.has(normalize(flag.name))) return true;
+      const text = `${flag.name} ${flag.policyStates}`.toLowerCase();
+      return !!rule && rule.neutralises.some(keyword => text.includes(keyword));
+    });
+
+    addOn.neutralises = removes.map(flag => flag.name);
+    for (const flag of removes) {
+      flag.removableBy = [...(flag.removableBy || []), addOn.name];
+    }
+
+    // The model's verdict stands; without one, removing a red flag makes it worth a look
+    if (!addOn.verdict || !VERDICTS.includes(addOn.verdict)) {
+      addOn.verdict = removes.length > 0 ? 'recommended' : 'optional';
+    }
+
+    // The schedule may print a longer or shorter name ("Room Rent Waiver" vs "Room Rent Waiver Add-on")
+    addOn.selected = scheduled.some(name => hasWords(name, addOn.name) || hasWords(addOn.name, name));
+  }
+
+  result.addOns = addOns;
+  return { detected: addOns.length, linked: addOns.filter(a => a.neutralises!.length > 0).length };
+}
+
+/** Chunk results - the first chunk describing an add-on wins */
+export function mergeAddOns(parts: (AddOnFeature[] | undefined)[]): AddOnFeature[] {
+  const merged: AddOnFeature[] = [];
+  const seen = new Set<string>();
+  for (const addOn of parts.flatMap(p => p || [])) {
+    const key = normalize(addOn?.name);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    merged.push(addOn);
+  }
+  return merged;
+}
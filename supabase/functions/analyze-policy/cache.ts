@@ -0,0 +1,90 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ RESULT CACHE - Content-hash lookup in public.analysis_cache                ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// Many users upload the same insurer PDF. Results are keyed by a hash of the
+// normalized policy text together with CONFIG.version, the model and a hash of
+// the prompts/tool schemas, so any change to the analysis invalidates old
+// entries. Cache failures are logged and never fail the request.
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const TABLE = 'analysis_cache';
+
+export interface CacheKeyParts {
+  policyText: string;
+  version: string;
+  model: string;
+  promptHash: string;
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Collapses whitespace differences introduced by different PDF extractions */
+export function normalizePolicyText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+export async function buildCacheKey({ policyText, version, model, promptHash }: CacheKeyParts): Promise<string> {
+  const textHash = await sha256Hex(normalizePolicyText(policyText));
+  return await sha256Hex(`${textHash}|${version}|${model}|${promptHash}`);
+}
+
+/** Service-role client (also used for quotas), or null when not configured */
+export function createServiceClient(): SupabaseClient | null {
+  const url = Deno.env.get('SUPABASE_URL');
+  const key = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!url || !key) {
+    console.warn('Result cache and quotas disabled: SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY not set');
+    return null;
+  }
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+export async function getCachedAnalysis(client: SupabaseClient, cacheKey: string): Promise<Record<string, unknown> | null> {
+  try {
+    const { data, error } = await client
+      .from(TABLE)
+      .select('result, hit_count')
+      .eq('cache_key', cacheKey)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const { error: updateError } = await client
+      .from(TABLE)
+      .update({ hit_count: (data.hit_count || 0) + 1, last_hit_at: new Date().toISOString() })
+      .eq('cache_key', cacheKey);
+    if (updateError) console.warn(`Cache hit count update failed: ${updateError.message}`);
+
+    return data.result as Record<string, unknown>;
+  } catch (err) {
+    console.error(`Cache lookup failed: ${(err as Error).message}`);
+    return null;
+  }
+}
+
+export async function storeAnalysis(
+  client: SupabaseClient,
+  cacheKey: string,
+  parts: Omit<CacheKeyParts, 'policyText'>,
+  result: Record<string, unknown>
+): Promise<void> {
+  try {
+    const { error } = await client.from(TABLE).upsert({
+      cache_key: cacheKey,
+      version: parts.version,
+      model: parts.model,
+      prompt_hash: parts.promptHash,
+      result,
+      created_at: new Date().toISOString()
+    });
+    if (error) throw error;
+  } catch (err) {
+    console.error(`Cache store failed: ${(err as Error).message}`);
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { describeSkipped, mergeChunkAnalyses, selectChunks, splitIntoChunks, type DocumentChunk } from "./chunking.ts";
+
+const page = (n: number, body: string) => `[Page ${n}]\n${body}`;
+
+describe("splitIntoChunks", () => {
+  it("returns short text as one chunk", () => {
+    expect(splitIntoChunks("Short policy.", 100)).toEqual([{ index: 0, start: 0, end: 13, text: "Short policy." }]);
+  });
+
+  it("covers the whole text without gaps or overlap", () => {
+    const text = Array.from({ length: 40 }, (_, i) => `Clause ${i} applies to every claim. `).join("");
+    const chunks = splitIntoChunks(text, 300);
+    expect(chunks.map(c => c.text).join("")).toBe(text);
+    chunks.forEach((c, i) => {
+      expect(c.text.length).toBeLessThanOrEqual(300);
+      expect(c.start).toBe(i === 0 ? 0 : chunks[i - 1].end);
+    });
+  });
+
+  it("prefers cutting at a section heading over a sentence end", () => {
+    const text = `${"Cover applies. ".repeat(12)}SECTION C Exclusions apply. ${"More text here. ".repeat(8)}`;
+    const chunks = splitIntoChunks(text, 250);
+    expect(chunks[1].text.startsWith("SECTION C")).toBe(true);
+  });
+
+  it("cuts between uploaded documents first", () => {
+    const text = `[Document 1: Policy Wording - a.pdf]\n${"Wording text. ".repeat(10)}[Document 2: Brochure - b.pdf]\n${"Brochure text. ".repeat(10)}`;
+    const chunks = splitIntoChunks(text, 200);
+    expect(chunks[1].text.startsWith("[Document 2")).toBe(true);
+  });
+});
+
+describe("selectChunks", () => {
+  const chunk = (index: number, text: string): DocumentChunk => ({ index, start: index * 10, end: index * 10 + 10, text });
+
+  it("keeps every chunk under the cap", () => {
+    const chunks = [chunk(0, "a"), chunk(1, "b")];
+    expect(selectChunks(chunks, 4)).toBe(chunks);
+  });
+
+  it("keeps the first chunk and exclusion or annexure chunks over the middle", () => {
+    const chunks = [
+      chunk(0, "Policy name"),
+      chunk(1, "Definitions"),
+      chunk(2, "Benefits"),
+      chunk(3, "Claims"),
+      chunk(4, "SECTION E Exclusions"),
+      chunk(5, "Annexure I list of procedures")
+    ];
+    expect(selectChunks(chunks, 4).map(c => c.index)).toEqual([0, 1, 4, 5]);
+  });
+});
+
+describe("describeSkipped", () => {
+  it("reports the pages of chunks that were not analyzed", () => {
+    const text = [page(1, "One."), page(2, "Two."), page(3, "Three."), page(4, "Four.")].join("\n\n");
+    const cut = text.indexOf("[Page 3]");
+    const chunks: DocumentChunk[] = [
+      { index: 0, start: 0, end: cut, text: text.slice(0, cut) },
+      { index: 1, start: cut, end: text.length, text: text.slice(cut) }
+    ];
+    expect(describeSkipped(text, chunks, [chunks[0]])).toEqual({ chars: text.length - cut, pages: [{ from: 3, to: 4 }] });
+    expect(describeSkipped(text, chunks, chunks)).toBeNull();
+  });
+});
+
+describe("mergeChunkAnalyses", () => {
+  const feature = (name: string) => ({ name, policyStates: "", reference: "", explanation: "" });
+
+  it("de-duplicates features by name across chunks and buckets", () => {
+    const merged = mergeChunkAnalyses([
+      { policyName: "Not specified", redFlags: [feature("Room Rent Cap")] },
+      { policyName: "Acme Health", needsClarification: [feature("room rent cap!")] }
+    ]);
+    expect(merged.policyName).toBe("Acme Health");
+    expect(merged.redFlags.map(f => f.name)).toEqual(["Room Rent Cap"]);
+    expect(merged.needsClarification).toEqual([]);
+  });
+
+  it("keeps features named only in Hindi", () => {
+    const merged = mergeChunkAnalyses([
+      { redFlags: [feature("कमरे का किराया सीमा")] },
+      { redFlags: [feature("सह-भुगतान"), feature("कमरे का किराया सीमा")] }
+    ]);
+    expect(merged.redFlags.map(f => f.name)).toEqual(["कमरे का किराया सीमा", "सह-भुगतान"]);
+  });
+});
@@ -0,0 +1,221 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ CHUNKING - Section-aware split + merge for long policy documents           ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// Exclusions and annexures sit at the end of most wordings, so truncating long
+// documents loses exactly the clauses we care about. Long documents are split
+// at section boundaries, analyzed per chunk and the findings merged back into
+// a single submit_policy_analysis result. When there are more chunks than can
+// be analyzed, chunks with exclusions or annexures are kept over the middle of
+// the document, and the pages left out are reported with the result.
+
+import type { AnalysisFeature, Bucket } from "./rules.ts";
+import { DOCUMENT_MARKER_PATTERN } from "./documents.ts";
+import { mergeAddOns, type AddOnFeature } from "./addons.ts";
+import { buildPageIndex, pageAt } from "./pages.ts";
+
+export interface DocumentChunk {
+  index: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ChunkSummary {
+  index: number;
+  start: number;
+  end: number;
+  chars: number;
+  analyzed: boolean;
+}
+
+/** Text left out of the analysis because the document had too many chunks */
+export interface SkippedText {
+  chars: number;
+  // Page ranges of the skipped chunks - empty when the text has no page markers
+  pages: { from: number; to: number }[];
+}
+
+export interface ChunkAnalysis {
+  policyName?: string;
+  insurer?: string;
+  sumInsured?: string;
+  policyType?: string;
+  greatFeatures?: AnalysisFeature[];
+  goodFeatures?: AnalysisFeature[];
+  redFlags?: AnalysisFeature[];
+  needsClarification?: AnalysisFeature[];
+  addOns?: AddOnFeature[];
+}
+
+// Headings like "SECTION C", "Annexure I", "4.2 Room Rent" or an all-caps title
+const HEADING_PATTERNS = [
+  /(?:^|\s)(?=(?:SECTION|Section|PART|Part|CHAPTER|Chapter|ANNEXURE|Annexure|APPENDIX|Appendix|EXCLUSIONS|Exclusions|DEFINITIONS|Definitions)\b)/g,
+  /(?:^|\s)(?=\d{1,2}(?:\.\d{1,2})+\s+[A-Z])/g,
+  /(?:^|\s)(?=[A-Z][A-Z &\-,/]{8,}\s)/g,
+  // Hindi wordings: "खंड 4" (section), "भाग 2" (part), "अध्याय 1" (chapter), "अनुलग्नक 1" (annexure)
+  /(?:^|\s)(?=(?:खंड|भाग|अध्याय|अनुलग्नक)\s*[\d०-९])/g
+];
+
+// Chunks holding these sections are analyzed before the rest of the middle of a document
+const PRIORITY_SECTION_PATTERN = /(?:^|\s)(?:EXCLUSIONS?|Exclusions?|ANNEXURE|Annexure|अपवर्जन|अनुलग्नक)\b/;
+
+// Break priorities - higher wins when choosing where to end a chunk
+const BREAK_DOCUMENT = 4;
+const BREAK_HEADING = 3;
+const BREAK_PARAGRAPH = 2;
+const BREAK_SENTENCE = 1;
+
+function collectBreaks(text: string): Map<number, number> {
+  const breaks = new Map<number, number>();
+  const add = (pos: number, priority: number) => {
+    if (pos <= 0 || pos >= text.length) return;
+    if ((breaks.get(pos) ?? 0) < priority) breaks.set(pos, priority);
+  };
+
+  for (const m of text.matchAll(DOCUMENT_MARKER_PATTERN)) add(m.index!, BREAK_DOCUMENT);
+  for (const pattern of HEADING_PATTERNS) {
+    for (const m of text.matchAll(pattern)) add(m.index! + m[0].length, BREAK_HEADING);
+  }
+  for (const m of text.matchAll(/\n\s*\n/g)) add(m.index! + m[0].length, BREAK_PARAGRAPH);
+  for (const m of text.matchAll(/[.;:]\s+(?=[A-Z(])/g)) add(m.index! + m[0].length, BREAK_SENTENCE);
+  // Devanagari sentences end with a danda
+  for (const m of text.matchAll(/।\s+/g)) add(m.index! + m[0].length, BREAK_SENTENCE);
+
+  return breaks;
+}
+
+/**
+ * Splits text into roughly equal chunks of at most `maxChars`, preferring to
+ * cut between uploaded documents, then at section headings, then paragraph
+ * breaks, then sentence ends.
+ */
+export function splitIntoChunks(text: string, maxChars: number): DocumentChunk[] {
+  if (text.length <= maxChars) {
+    return [{ index: 0, start: 0, end: text.length, text }];
+  }
+
+  const breaks = collectBreaks(text);
+  const target = Math.ceil(text.length / Math.ceil(text.length / maxChars));
+  const chunks: DocumentChunk[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    if (text.length - start <= maxChars) {
+      chunks.push({ index: chunks.length, start, end: text.length, text: text.slice(start) });
+      break;
+    }
+
+    // Look for the best break between half the target size and the hard limit,
+    // preferring higher priority and then the position closest to the target.
+    const min = start + Math.floor(target / 2);
+    const max = start + maxChars;
+    const ideal = start + target;
+    let end = max;
+    let bestPriority = 0;
+    let bestDistance = Infinity;
+
+    for (const [pos, priority] of breaks) {
+      if (pos < min || pos > max) continue;
+      const distance = Math.abs(pos - ideal);
+      if (priority > bestPriority || (priority === bestPriority && distance < bestDistance)) {
+        end = pos;
+        bestPriority = priority;
+        bestDistance = distance;
+      }
+    }
+
+    chunks.push({ index: chunks.length, start, end, text: text.slice(start, end) });
+    start = end;
+  }
+
+  return chunks;
+}
+
+/**
+ * Picks at most `max` chunks to analyze: the first (it names the policy), then
+ * chunks with exclusions or annexures, then the rest in document order.
+ * Returned in document order.
+ */
+export function selectChunks(chunks: DocumentChunk[], max: number): DocumentChunk[] {
+  if (chunks.length <= max) return chunks;
+  const [first, ...rest] = chunks;
+  const ordered = [
+    first,
+    ...rest.filter(c => PRIORITY_SECTION_PATTERN.test(c.text)),
+    ...rest.filter(c => !PRIORITY_SECTION_PATTERN.test(c.text))
+  ];
+  return ordered.slice(0, max).sort((a, b) => a.index - b.index);
+}
+
+/** Size and pages of the chunks that were not analyzed, or null when none were skipped */
+export function describeSkipped(text: string, chunks: DocumentChunk[], analyzed: DocumentChunk[]): SkippedText | null {
+  const skipped = chunks.filter(c => !analyzed.includes(c));
+  if (skipped.length === 0) return null;
+  const index = buildPageIndex(text);
+  const pages = skipped
+    .map(c => ({ from: pageAt(index, c.start), to: pageAt(index, Math.max(c.start, c.end - 1)) }))
+    .filter((r): r is { from: number; to: number } => r.from !== null && r.to !== null);
+  return { chars: skipped.reduce((n, c) => n + c.text.length, 0), pages };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Merge
+// ─────────────────────────────────────────────────────────────────────────────
+
+const BUCKETS: Bucket[] = ['greatFeatures', 'goodFeatures', 'redFlags', 'needsClarification'];
+
+// Letters of any script, with their vowel signs, so Hindi names keep a key
+function normalizeKey(value: string): string {
+  return (value || '').toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ').trim();
+}
+
+function isKnown(value?: string): boolean {
+  return !!value && !/^(unknown|not specified|n\/a)$/i.test(value.trim());
+}
+
+/**
+ * Merges per-chunk results into one analysis. Header fields come from the
+ * first chunk that states them; features are de-duplicated by name across all
+ * buckets, keeping the first occurrence (the rule engine re-buckets later).
+ */
+export function mergeChunkAnalyses(parts: ChunkAnalysis[]): Required<ChunkAnalysis> {
+  const pick = (field: 'policyName' | 'insurer' | 'sumInsured' | 'policyType') =>
+    parts.map(p => p[field]).find(isKnown) || parts[0]?.[field] || '';
+
+  const merged: Required<ChunkAnalysis> = {
+    policyName: pick('policyName'),
+    insurer: pick('insurer'),
+    sumInsured: pick('sumInsured'),
+    policyType: pick('policyType'),
+    greatFeatures: [],
+    goodFeatures: [],
+    redFlags: [],
+    needsClarification: [],
+    addOns: mergeAddOns(parts.map(p => p.addOns))
+  };
+
+  const seen = new Set<string>();
+  for (const part of parts) {
+    for (const bucket of BUCKETS) {
+      for (const feature of part[bucket] || []) {
+        const key = normalizeKey(feature.name);
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+        merged[bucket].push(feature);
+      }
+    }
+  }
+
+  return merged;
+}
+
+export function summarizeChunks(chunks: DocumentChunk[], analyzed: DocumentChunk[]): ChunkSummary[] {
+  return chunks.map(c => ({
+    index: c.index,
+    start: c.start,
+    end: c.end,
+    chars: c.end - c.start,
+    analyzed: analyzed.includes(c)
+  }));
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { cisFacts, findCisConflicts, parseCis, parseCostSharing, parseWaitingPeriods } from "./cis.ts";
+import { emptyFacts } from "./facts.ts";
+import type { SourceDocumentInput } from "../_shared/documents.ts";
+
+const CIS = `CUSTOMER INFORMATION SHEET
+Description is illustrative and not exhaustive
+1 Name of the Insurance Company: Acme General Insurance Ltd
+2 Product Name: Acme Health Plus
+3 Type of Policy / Cover: Indemnity based family floater
+4 Sum Insured: Rs. 5,00,000
+5 What am I covered for: • In-patient hospitalisation • Day care procedures • Ambulance cover
+6 What are the major exclusions in the policy: • Cosmetic surgery • Self-inflicted injury
+7 Waiting period: Initial waiting period of 30 days. Pre-existing diseases covered after 36 months. Specified illnesses after 24 months.
+8 Payout basis: Indemnity
+9 Cost sharing: Co-payment of 10% on all claims. Deductible of Rs. 25,000 per year.
+10 Renewal Conditions: Lifelong renewal
+11 Renewal Benefits: Cumulative bonus of 10% per claim-free year up to a maximum of 100%
+12 Cancellation: Refund on a short period scale
+13 Claims: Cashless at network hospitals
+14 Policy Servicing / Grievances / Complaints: Call 1800 123 4567 or write to care@acme.example.com
+15 Insured's Rights: Free look period of 30 days
+16 Insured's Obligations: Disclose all material facts`;
+
+const WORDING = "ACME HEALTH PLUS POLICY WORDING\nSection A In-patient hospitalisation is covered up to the sum insured.";
+
+const doc = (kind: SourceDocumentInput["kind"], text: string, name = `${kind}.pdf`): SourceDocumentInput => ({ kind, name, text });
+
+describe("parseCis", () => {
+  it("reads the numbered rows into typed fields", () => {
+    const cis = parseCis([doc("cis", CIS)])!;
+    expect(cis.rowsFound).toBe(16);
+    expect(cis.coverType?.basis).toBe("indemnity");
+    expect(cis.covered).toEqual(["In-patient hospitalisation", "Day care procedures", "Ambulance cover"]);
+    expect(cis.exclusions).toEqual(["Cosmetic surgery", "Self-inflicted injury"]);
+    expect(cis.waitingPeriods).toMatchObject({ initialMonths: 1, pedMonths: 36, specificIllnessMonths: 24 });
+    expect(cis.costSharing).toMatchObject({ coPayPercent: 10, coPayCondition: null, deductibleAmount: 25000 });
+    expect(cis.renewal).toMatchObject({ lifelong: true, bonusPercentPerYear: 10, bonusMaxPercent: 100 });
+    expect(cis.grievances).toMatchObject({ emails: ["care@acme.example.com"], phones: ["1800 123 4567"] });
+  });
+
+  it("keeps an age-bound co-payment as conditional", () => {
+    const text = CIS.replace("Co-payment of 10% on all claims.", "Co-payment of 20% for insured aged above 60 years.");
+    expect(parseCis([doc("cis", text)])!.costSharing).toMatchObject({ coPayPercent: 20, coPayCondition: expect.stringContaining("aged above 60") });
+  });
+
+  it("finds a sheet appended to the wording and reports where it sits", () => {
+    const text = `${WORDING}\n\n${CIS}`;
+    const cis = parseCis([doc("brochure", "Why choose Acme?"), doc("wording", text)])!;
+    expect(cis.document).toBe(1);
+    expect(cis.span).toEqual({ start: text.indexOf("CUSTOMER INFORMATION SHEET"), end: text.length });
+  });
+
+  it("ignores a mention of the CIS without its table", () => {
+    expect(parseCis([doc("wording", `${WORDING}\nRefer to the Customer Information Sheet for a summary.`)])).toBeNull();
+  });
+});
+
+describe("parseWaitingPeriods", () => {
+  it("converts days, months and years to months", () => {
+    const text = "Initial waiting period of 30 days. Pre-existing diseases: 3 years. Specified illnesses: 24 months.";
+    expect(parseWaitingPeriods(text)).toMatchObject({ initialMonths: 1, pedMonths: 36, specificIllnessMonths: 24 });
+  });
+
+  it("rounds short day counts up to a month", () => {
+    expect(parseWaitingPeriods("First 15 days from inception").initialMonths).toBe(1);
+  });
+
+  it("leaves out periods the row doesn't name", () => {
+    expect(parseWaitingPeriods("PED covered after 48 months")).toMatchObject({ initialMonths: null, pedMonths: 48, specificIllnessMonths: null });
+  });
+});
+
+describe("parseCostSharing", () => {
+  it("reads a flat co-payment and a deductible in Rs.", () => {
+    expect(parseCostSharing("Co-payment of 10% on all claims. Deductible of Rs. 25,000 per policy year.")).toMatchObject({
+      coPayPercent: 10,
+      coPayCondition: null,
+      deductibleAmount: 25000
+    });
+  });
+
+  it("keeps the sentence of a conditional co-payment", () => {
+    const costSharing = parseCostSharing("20% co-pay applies if treated outside your zone. No deductible.");
+    expect(costSharing).toMatchObject({ coPayPercent: 20, coPayCondition: "20% co-pay applies if treated outside your zone.", deductibleAmount: null });
+  });
+
+  it("reads a Nil co-payment as 0%", () => {
+    expect(parseCostSharing("Co-payment: Nil. Deductible: Not applicable").coPayPercent).toBe(0);
+    expect(parseCostSharing("No co-pay on any claim").coPayPercent).toBe(0);
+  });
+
+  it("finds nothing in a row without figures", () => {
+    expect(parseCostSharing("Please refer to the policy wording")).toMatchObject({ coPayPercent: null, deductibleAmount: null });
+  });
+});
+
+describe("findCisConflicts", () => {
+  const documents = [doc("wording", `${WORDING}\n\n${CIS}`)];
+  const cis = parseCis(documents)!;
+
+  it("flags values the policy states differently", () => {
+    const facts = emptyFacts();
+    facts.waitingPeriods.pedMonths = 48;
+    facts.coPay = [{ percent: 10, minAge: null, maxAge: null, condition: null }];
+    const conflicts = findCisConflicts(cis, facts, documents);
+    expect(conflicts.map(c => c.name)).toEqual(["Customer Information Sheet and policy differ on pre-existing disease waiting period"]);
+    expect(conflicts[0].source).toEqual({ document: 0, kind: "wording", name: "wording.pdf" });
+  });
+
+  it("finds nothing to compare against its own values", () => {
+    expect(findCisConflicts(cis, cisFacts(cis), documents)).toEqual([]);
+    expect(findCisConflicts(cis, emptyFacts(), documents)).toEqual([]);
+  });
+});
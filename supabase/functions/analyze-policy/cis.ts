@@ -0,0 +1,317 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ CIS - Customer Information Sheet parser and cross-check                    ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// Every Indian health policy ships with an IRDAI Customer Information Sheet: a
+// numbered table of fixed rows ("5 What are the major exclusions in the
+// policy", "8 Cost sharing", ...). The rows are found by their serial number
+// and title, in the order IRDAI prescribes, and read into typed fields without
+// a model call. The typed values fill gaps in the extracted facts, and values
+// the CIS states differently from the facts become needsClarification items.
+
+import { DOCUMENT_KINDS, type SourceDocumentInput } from "../_shared/documents.ts";
+import { emptyFacts, type PolicyFacts } from "./facts.ts";
+import type { SourcedFeature } from "./documents.ts";
+
+export type PayoutBasis = 'indemnity' | 'benefit';
+
+export interface CisWaitingPeriods {
+  initialMonths: number | null;
+  pedMonths: number | null;
+  specificIllnessMonths: number | null;
+  text: string;
+}
+
+export interface CisCostSharing {
+  // 0 when the CIS says there is no co-payment
+  coPayPercent: number | null;
+  // The co-payment only applies to some insured or claims (by age, zone, ...) - stated here
+  coPayCondition: string | null;
+  deductibleAmount: number | null;
+  text: string;
+}
+
+export interface CisRenewal {
+  conditions: string | null;
+  benefits: string | null;
+  lifelong: boolean | null;
+  bonusPercentPerYear: number | null;
+  bonusMaxPercent: number | null;
+}
+
+export interface CisGrievances {
+  emails: string[];
+  phones: string[];
+  websites: string[];
+  text: string;
+}
+
+export interface CustomerInformationSheet {
+  // Index of the uploaded document the CIS was found in
+  document: number;
+  // Characters of that document's text the table takes up, from its title to the end of the last row
+  span: { start: number; end: number };
+  coverType: { basis: PayoutBasis | null; text: string } | null;
+  covered: string[];
+  exclusions: string[];
+  waitingPeriods: CisWaitingPeriods | null;
+  payoutBasis: { basis: PayoutBasis | null; text: string } | null;
+  costSharing: CisCostSharing | null;
+  renewal: CisRenewal;
+  grievances: CisGrievances | null;
+  // Table rows recognised, out of CIS_ROWS.length
+  rowsFound: number;
+}
+
+type CisField = 'coverType' | 'covered' | 'exclusions' | 'waitingPeriods' | 'payoutBasis'
+  | 'costSharing' | 'renewalConditions' | 'renewalBenefits' | 'grievances';
+
+// Rows in IRDAI order. Rows without a field are only read to end the row before.
+const CIS_ROWS: { field?: CisField; title: string }[] = [
+  { title: 'name of (?:the )?(?:insurance )?(?:company|insurer)' },
+  { title: '(?:name of (?:the )?)?(?:product|policy) name|name of (?:the )?(?:product|policy)' },
+  { field: 'coverType', title: 'type of (?:policy|cover|insurance)(?:\\s*/\\s*(?:policy|cover|insurance))?' },
+  { title: 'sum insured' },
+  { field: 'covered', title: 'what am i covered for|policy coverages?|scope of cover' },
+  { field: 'exclusions', title: 'what are the major exclusions(?: in the policy)?|(?:major |policy )?exclusions' },
+  { field: 'waitingPeriods', title: 'waiting periods?' },
+  { field: 'payoutBasis', title: '(?:payout|payment) basis|basis of payout' },
+  { field: 'costSharing', title: 'cost sharing' },
+  { field: 'renewalConditions', title: 'renewal conditions?' },
+  { field: 'renewalBenefits', title: 'renewal benefits?' },
+  { title: 'cancellation' },
+  { title: 'claims?(?: procedure)?' },
+  { field: 'grievances', title: '(?:policy servicing\\s*/\\s*)?grievances?(?:\\s*/\\s*complaints?)?|policy servicing|grievance redressal' },
+  { title: "insured'?s rights" },
+  { title: "insured'?s obligations" }
+];
+
+const CIS_TITLE = /customer information sheet/i;
+// A CIS runs to a few pages; rows further apart than this are a different table
+const MAX_ROW_CHARS = 6000;
+const MAX_CIS_CHARS = 40000;
+// Fewer rows than this is a mention of the CIS, not the sheet itself
+const MIN_ROWS = 4;
+const MAX_ITEM_CHARS = 300;
+
+const clean = (text: string) => text.replace(/\[Page \d+\]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/** Row title preceded by its serial number, e.g. "7 Waiting period" or "7. Waiting period" */
+const rowPattern = (title: string) => new RegExp(`(?:^|\\s)\\d{1,2}[.)]?\\s+(?:${title})\\b\\s*:?`, 'i');
+
+function basisOf(text: string): PayoutBasis | null {
+  const lower = text.toLowerCase();
+  if (lower.includes('indemnity')) return 'indemnity';
+  if (/\bbenefit\b/.test(lower)) return 'benefit';
+  return null;
+}
+
+/** Bulleted, numbered or semicolon-separated items of a row */
+function splitItems(text: string): string[] {
+  return text
+    .split(/\s*(?:[•●▪■]|;|\s(?:[a-z]|[ivx]{1,4}|\d{1,2})[.)]\s)\s*/i)
+    .map(item => item.replace(/^(?:[a-z]|[ivx]{1,4}|\d{1,2})[.)]\s+/i, '').replace(/^[-–,.:\s]+|[-–,\s]+$/g, ''))
+    .filter(item => item.length >= 3)
+    .map(item => item.substring(0, MAX_ITEM_CHARS));
+}
+
+/** A duration in months - 30 days is 1 month, as in the facts tool */
+function toMonths(amount: number, unit: string): number {
+  if (/^day/i.test(unit)) return Math.max(1, Math.round(amount / 30));
+  if (/^year/i.test(unit)) return amount * 12;
+  return amount;
+}
+
+const DURATION = /(\d{1,3})\s*(days?|months?|years?)/i;
+// Searched for after each kind's keyword
+const DURATION_REACH = 150;
+
+const WAITING_KEYWORDS: { key: keyof Omit<CisWaitingPeriods, 'text'>; pattern: RegExp }[] = [
+  { key: 'pedMonths', pattern: /pre-?\s?existing|\bped\b/i },
+  { key: 'specificIllnessMonths', pattern: /specific|specified|named|listed/i },
+  { key: 'initialMonths', pattern: /initial|first\s+\d+\s+days|inception|commencement/i }
+];
+
+/** Initial, PED and specific illness waiting periods named in the row, in months */
+export function parseWaitingPeriods(text: string): CisWaitingPeriods {
+  const periods: CisWaitingPeriods = { initialMonths: null, pedMonths: null, specificIllnessMonths: null, text };
+  for (const { key, pattern } of WAITING_KEYWORDS) {
+    const keyword = pattern.exec(text);
+    const duration = keyword && DURATION.exec(text.substring(keyword.index, keyword.index + DURATION_REACH));
+    if (duration) periods[key] = toMonths(Number(duration[1]), duration[2]);
+  }
+  return periods;
+}
+
+const amountIn = (text: string) => {
+  const match = /(?:rs\.?|inr|₹)\s*([\d,]+(?:\.\d+)?)/i.exec(text);
+  return match ? Number(match[1].replace(/,/g, '')) : null;
+};
+
+// Words that limit a co-payment to some insured or claims
+const CONDITIONAL = /\b(?:if|above|aged?|zone|city|when|only|opt(?:ed|s)?|voluntary)\b/i;
+
+/** Co-payment and deductible from the cost sharing row; "Nil" co-pay reads as 0% */
+export function parseCostSharing(text: string): CisCostSharing {
+  const lower = text.toLowerCase();
+  const coPay = /co-?\s?pay(?:ment)?[^.%]{0,80}?(\d{1,2})\s*%|(\d{1,2})\s*%\s*(?:of [^.]{0,40})?co-?\s?pay/.exec(lower);
+  const coPaySentence = coPay ? text.substring(coPay.index).split(/(?<=\.)\s/)[0] : '';
+  const noCoPay = /no co-?\s?pay|co-?\s?pay(?:ment)?\s*[:-]?\s*(?:nil|none|not applicable)/.test(lower);
+  // Stops at the sentence end, except for the dot of "Rs."
+  const deductible = /deductible[^.]{0,80}?(?:rs\.?|inr|₹)\s*[\d,]+/.exec(lower);
+  return {
+    coPayPercent: coPay ? Number(coPay[1] ?? coPay[2]) : noCoPay ? 0 : null,
+    coPayCondition: CONDITIONAL.test(coPaySentence) ? coPaySentence : null,
+    deductibleAmount: deductible ? amountIn(deductible[0]) : null,
+    text
+  };
+}
+
+function parseRenewal(conditions: string | null, benefits: string | null): CisRenewal {
+  const lower = (benefits || '').toLowerCase();
+  const perYear = /(\d{1,3})\s*%[^.]{0,60}?(?:cumulative|no claim) bonus|(?:cumulative|no claim) bonus[^.%]{0,60}?(\d{1,3})\s*%/.exec(lower);
+  const max = /(?:maximum|max\.?|up to|upto)(?: of)?\s*(\d{1,3})\s*%/.exec(lower);
+  return {
+    conditions,
+    benefits,
+    lifelong: conditions ? /life\s?-?long|lifetime/i.test(conditions) : null,
+    bonusPercentPerYear: perYear ? Number(perYear[1] ?? perYear[2]) : null,
+    bonusMaxPercent: max ? Number(max[1]) : null
+  };
+}
+
+function parseGrievances(text: string): CisGrievances {
+  const unique = (values: string[]) => [...new Set(values.map(v => v.replace(/[.,;]+$/, '')))];
+  return {
+    emails: unique(text.match(/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g) || []),
+    phones: unique(text.match(/\b(?:1800|1860)[\s-]?\d{3}[\s-]?\d{3,4}\b|\+?91[\s-]?\d{10}\b|\b0\d{2,4}[\s-]\d{6,8}\b/g) || []),
+    websites: unique((text.match(/\b(?:https?:\/\/)?(?:www\.)[\w-]+(?:\.[\w-]+)+(?:\/[\w./-]*)?/gi) || []).map(w => w.toLowerCase())),
+    text
+  };
+}
+
+/** Text of each recognised row, keyed by field, or null when the text holds no CIS table */
+function findRows(text: string): { rows: Partial<Record<CisField, string>>; found: number; span: { start: number; end: number } } | null {
+  const start = text.search(CIS_TITLE);
+  if (start < 0) return null;
+  const region = text.substring(start, start + MAX_CIS_CHARS);
+
+  // Rows are searched in order, each within reach of the last one found
+  const matches: { field?: CisField; start: number; end: number }[] = [];
+  let cursor = 0;
+  for (const row of CIS_ROWS) {
+    const window = region.substring(cursor, cursor + MAX_ROW_CHARS);
+    const match = rowPattern(row.title).exec(window);
+    if (!match) continue;
+    matches.push({ field: row.field, start: cursor + match.index, end: cursor + match.index + match[0].length });
+    cursor += match.index + match[0].length;
+  }
+  if (matches.length < MIN_ROWS) return null;
+
+  const rows: Partial<Record<CisField, string>> = {};
+  let end = 0;
+  matches.forEach((match, i) => {
+    end = i + 1 < matches.length ? matches[i + 1].start : Math.min(region.length, match.end + MAX_ROW_CHARS);
+    const body = clean(region.substring(match.end, end));
+    if (match.field && body) rows[match.field] = body;
+  });
+  return { rows, found: matches.length, span: { start, end: start + end } };
+}
+
+/**
+ * Finds and parses the CIS among the uploaded documents - a document uploaded
+ * as a CIS first, then any document with the sheet appended. Null when none
+ * holds a CIS table.
+ */
+export function parseCis(documents: SourceDocumentInput[]): CustomerInformationSheet | null {
+  const order = documents
+    .map((doc, document) => ({ doc, document }))
+    .sort((a, b) => Number(b.doc.kind === 'cis') - Number(a.doc.kind === 'cis'));
+
+  for (const { doc, document } of order) {
+    const found = findRows(doc.text);
+    if (!found) continue;
+    const { rows } = found;
+    return {
+      document,
+      span: found.span,
+      coverType: rows.coverType ? { basis: basisOf(rows.coverType), text: rows.coverType } : null,
+      covered: rows.covered ? splitItems(rows.covered) : [],
+      exclusions: rows.exclusions ? splitItems(rows.exclusions) : [],
+      waitingPeriods: rows.waitingPeriods ? parseWaitingPeriods(rows.waitingPeriods) : null,
+      payoutBasis: rows.payoutBasis ? { basis: basisOf(rows.payoutBasis), text: rows.payoutBasis } : null,
+      costSharing: rows.costSharing ? parseCostSharing(rows.costSharing) : null,
+      renewal: parseRenewal(rows.renewalConditions ?? null, rows.renewalBenefits ?? null),
+      grievances: rows.grievances ? parseGrievances(rows.grievances) : null,
+      rowsFound: found.found
+    };
+  }
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cross-check
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** The CIS values as facts, for filling gaps with mergeFacts */
+export function cisFacts(cis: CustomerInformationSheet): PolicyFacts {
+  const facts = emptyFacts();
+  if (cis.waitingPeriods) {
+    facts.waitingPeriods = {
+      initialMonths: cis.waitingPeriods.initialMonths,
+      pedMonths: cis.waitingPeriods.pedMonths,
+      specificIllnessMonths: cis.waitingPeriods.specificIllnessMonths
+    };
+  }
+  facts.claims.deductibleAmount = cis.costSharing?.deductibleAmount ?? null;
+  facts.cumulativeBonus.percentPerYear = cis.renewal.bonusPercentPerYear;
+  facts.cumulativeBonus.maxPercent = cis.renewal.bonusMaxPercent;
+  if (cis.costSharing?.coPayPercent) {
+    facts.coPay = [{ percent: cis.costSharing.coPayPercent, minAge: null, maxAge: null, condition: cis.costSharing.coPayCondition }];
+  }
+  return facts;
+}
+
+interface CisCheck {
+  label: string;
+  unit: string;
+  cis: number | null;
+  facts: number | null;
+  // CIS row the value was read from
+  row: string;
+}
+
+const formatAmount = (value: number, unit: string) => (unit === '₹' ? `₹${value}` : `${value}${unit}`);
+
+/**
+ * One needsClarification item per value the CIS states differently from the
+ * facts extracted from the policy. Facts must be the ones extracted before
+ * cisFacts filled their gaps, or every CIS value agrees with itself.
+ */
+export function findCisConflicts(cis: CustomerInformationSheet, facts: PolicyFacts, documents: SourceDocumentInput[]): SourcedFeature[] {
+  const waiting = cis.waitingPeriods;
+  const costSharing = cis.costSharing;
+  // Only co-pays that apply to everyone are compared
+  const flatCoPay = facts.coPay.filter(r => r.minAge === null && r.maxAge === null && !r.condition);
+  const checks: CisCheck[] = [
+    { label: 'pre-existing disease waiting period', unit: ' months', cis: waiting?.pedMonths ?? null, facts: facts.waitingPeriods.pedMonths, row: waiting?.text ?? '' },
+    { label: 'specific illness waiting period', unit: ' months', cis: waiting?.specificIllnessMonths ?? null, facts: facts.waitingPeriods.specificIllnessMonths, row: waiting?.text ?? '' },
+    { label: 'initial waiting period', unit: ' months', cis: waiting?.initialMonths ?? null, facts: facts.waitingPeriods.initialMonths, row: waiting?.text ?? '' },
+    { label: 'co-payment', unit: '%', cis: costSharing?.coPayCondition ? null : costSharing?.coPayPercent ?? null, facts: facts.coPay.length === 0 ? null : (flatCoPay[0]?.percent ?? null), row: costSharing?.text ?? '' },
+    { label: 'deductible', unit: '₹', cis: costSharing?.deductibleAmount ?? null, facts: facts.claims.deductibleAmount, row: costSharing?.text ?? '' },
+    { label: 'cumulative bonus per year', unit: '%', cis: cis.renewal.bonusPercentPerYear, facts: facts.cumulativeBonus.percentPerYear, row: cis.renewal.benefits ?? '' },
+    { label: 'maximum cumulative bonus', unit: '%', cis: cis.renewal.bonusMaxPercent, facts: facts.cumulativeBonus.maxPercent, row: cis.renewal.benefits ?? '' }
+  ];
+
+  const doc = documents[cis.document];
+  const label = DOCUMENT_KINDS.cis.label;
+  return checks
+    .filter(c => c.cis !== null && c.facts !== null && c.cis !== c.facts)
+    .map(c => ({
+      name: `${label} and policy differ on ${c.label}`,
+      policyStates: c.row.substring(0, MAX_ITEM_CHARS),
+      reference: label,
+      explanation: `The ${label} gives the ${c.label} as ${formatAmount(c.cis!, c.unit)}, but the policy states ${formatAmount(c.facts!, c.unit)}. Ask your insurer which one applies - the policy wording is usually the binding document.`,
+      source: { document: cis.document, kind: doc.kind, name: doc.name }
+    }));
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { parseDocuments } from "./documents.ts";
+
+const SCHEDULE = "Policy Schedule\nPolicy Number: 123  Period of Insurance: 2026-27  Proposer Name: A  Nominee Name: B  Premium Paid: 100";
+
+describe("parseDocuments", () => {
+  it("keeps a legacy policyText as the wording whatever it reads like", () => {
+    expect(parseDocuments({ policyText: SCHEDULE }, 5)).toEqual([{ kind: "wording", name: "Policy Wording", text: SCHEDULE }]);
+  });
+
+  it("classifies documents sent without a kind and keeps the ones sent with one", () => {
+    const documents = parseDocuments({
+      documents: [
+        { text: SCHEDULE, name: "schedule.pdf" },
+        { text: SCHEDULE, name: "mine.pdf", kind: "endorsement" }
+      ]
+    }, 5);
+    expect(documents.map(d => [d.name, d.kind])).toEqual([["schedule.pdf", "schedule"], ["mine.pdf", "endorsement"]]);
+  });
+
+  it("rejects a document without text instead of shifting the ones after it", () => {
+    const body = { documents: [{ text: SCHEDULE, name: "a.pdf" }, { text: "   ", name: "scan.pdf" }, { text: SCHEDULE, name: "b.pdf" }] };
+    expect(() => parseDocuments(body, 5)).toThrow(expect.objectContaining({ code: "EMPTY_DOCUMENT" }));
+    expect(() => parseDocuments({ documents: [null] }, 5)).toThrow(expect.objectContaining({ code: "EMPTY_DOCUMENT" }));
+  });
+
+  it("ignores documents past the limit", () => {
+    const body = { documents: [{ text: SCHEDULE, name: "a.pdf" }, { text: "", name: "extra.pdf" }] };
+    expect(parseDocuments(body, 1).map(d => d.name)).toEqual(["a.pdf"]);
+  });
+});
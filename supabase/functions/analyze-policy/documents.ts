@@ -0,0 +1,212 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ DOCUMENTS - Multi-document input, source attribution and conflicts         ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// A request may carry the wording, brochure, schedule and endorsements as
+// separate labelled documents. They are joined into one text with a
+// "[Document N: Kind - name]" marker before each, so chunking, quote checks
+// and page references keep working on a single string. Afterwards every
+// finding is attributed to the document its quote was found in, and typed
+// facts that differ between documents become needsClarification items.
+
+import { DOCUMENT_KINDS, documentCoverage, isDocumentKind, type DocumentKind, type DocumentKindInfo, type FeatureSource, type SourceDocumentInput } from "../_shared/documents.ts";
+import { classifyDocument, MIN_CONFIDENCE } from "../_shared/documentClassifier.ts";
+import { AnalysisError } from "./errors.ts";
+import { mergeFacts, type PolicyFacts } from "./facts.ts";
+import type { Bucket } from "./rules.ts";
+import type { PagedFeature } from "./pages.ts";
+
+export const DOCUMENT_MARKER_PATTERN = /\[Document (\d+): [^\]\n]*\]/g;
+
+const BUCKETS: Bucket[] = ['greatFeatures', 'goodFeatures', 'redFlags', 'needsClarification'];
+
+export type SourcedFeature = PagedFeature & { source?: FeatureSource };
+
+/** Kind of a document sent without one - a wording unless its text clearly says otherwise */
+function detectKind(text: string, name = ''): DocumentKind {
+  const { kind, confidence } = classifyDocument(text, name);
+  return confidence >= MIN_CONFIDENCE ? kind : 'wording';
+}
+
+/**
+ * Reads `documents` from the request body, falling back to a single
+ * `policyText` treated as the policy wording, as older clients only sent
+ * that. Documents without a valid kind are classified from their text.
+ * Findings point at documents by their position in the request, so a
+ * document without text is rejected rather than dropped.
+ */
+export function parseDocuments(body: { documents?: unknown; policyText?: unknown }, maxDocuments: number): SourceDocumentInput[] {
+  if (Array.isArray(body.documents)) {
+    const documents = body.documents.slice(0, maxDocuments);
+    const empty = documents.findIndex(d => !d || typeof d !== 'object' || typeof d.text !== 'string' || d.text.trim().length === 0);
+    if (empty !== -1) {
+      throw new AnalysisError('EMPTY_DOCUMENT', `Document ${empty + 1} of ${documents.length} has no text`);
+    }
+    return documents.map((d: Record<string, unknown>, i) => {
+      const name = typeof d.name === 'string' && d.name.trim() ? d.name.trim() : `Document ${i + 1}`;
+      const text = d.text as string;
+      return { kind: isDocumentKind(d.kind) ? d.kind : detectKind(text, name), name, text };
+    });
+  }
+  if (typeof body.policyText === 'string' && body.policyText) {
+    return [{ kind: 'wording', name: 'Policy Wording', text: body.policyText }];
+  }
+  return [];
+}
+
+export function documentLabel(doc: SourceDocumentInput): string {
+  return DOCUMENT_KINDS[doc.kind].label;
+}
+
+/** A single document is sent as-is so single-PDF results and cache keys are unchanged */
+export function combineDocuments(documents: SourceDocumentInput[]): string {
+  if (documents.length === 1) return documents[0].text;
+  return documents
+    .map((doc, i) => `[Document ${i + 1}: ${documentLabel(doc)} - ${doc.name.replace(/[[\]\n]/g, '')}]\n${doc.text}`)
+    .join('\n\n');
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Attribution
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Index of the document containing a character offset of the combined text */
+export function documentAt(text: string, offset: number): number | null {
+  let found: number | null = null;
+  for (const m of text.matchAll(DOCUMENT_MARKER_PATTERN)) {
+    if (m.index! > offset) break;
+    found = Number(m[1]) - 1;
+  }
+  return found;
+}
+
+/**
+ * Sets `source` on every feature. Located quotes are attributed by position;
+ * otherwise the reference is checked for a document label or file name.
+ * Must run after verifyQuotes.
+ */
+export function attributeSources(
+  result: Partial<Record<Bucket, SourcedFeature[]>>,
+  combinedText: string,
+  documents: SourceDocumentInput[]
+): void {
+  const sourceOf = (index: number): FeatureSource => ({ document: index, kind: documents[index].kind, name: documents[index].name });
+
+  for (const bucket of BUCKETS) {
+    for (const feature of result[bucket] || []) {
+      if (documents.length === 1) {
+        feature.source = sourceOf(0);
+        continue;
+      }
+
+      const start = feature.verification?.start;
+      let index = start !== undefined ? documentAt(combinedText, start) : null;
+      if (index === null) {
+        const reference = (feature.reference || '').toLowerCase();
+        const named = documents.findIndex(d => reference.includes(d.name.toLowerCase()));
+        index = named !== -1 ? named : documents.findIndex(d => reference.includes(documentLabel(d).toLowerCase()));
+      }
+      if (index !== null && index >= 0 && index < documents.length) {
+        feature.source = sourceOf(index);
+      }
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Conflicts between documents
+// ─────────────────────────────────────────────────────────────────────────────
+
+type ScalarGroup = Exclude<keyof PolicyFacts, 'coPay' | 'diseaseSubLimits'>;
+
+interface FactField {
+  group: ScalarGroup;
+  key: string;
+  label: string;
+  unit?: string;
+}
+
+const FACT_FIELDS: FactField[] = [
+  { group: 'waitingPeriods', key: 'pedMonths', label: 'PED waiting period', unit: 'months' },
+  { group: 'waitingPeriods', key: 'specificIllnessMonths', label: 'specific illness waiting period', unit: 'months' },
+  { group: 'waitingPeriods', key: 'initialMonths', label: 'initial waiting period', unit: 'months' },
+  { group: 'roomRent', key: 'type', label: 'room rent limit' },
+  { group: 'roomRent', key: 'capAmountPerDay', label: 'room rent cap', unit: '₹/day' },
+  { group: 'roomRent', key: 'capPercentOfSI', label: 'room rent cap', unit: '% of SI/day' },
+  { group: 'roomRent', key: 'proportionateDeduction', label: 'proportionate deduction clause' },
+  { group: 'restore', key: 'type', label: 'restore benefit' },
+  { group: 'restore', key: 'sameIllnessCovered', label: 'restore for the same illness' },
+  { group: 'hospitalization', key: 'preDays', label: 'pre-hospitalization cover', unit: 'days' },
+  { group: 'hospitalization', key: 'postDays', label: 'post-hospitalization cover', unit: 'days' },
+  { group: 'cumulativeBonus', key: 'percentPerYear', label: 'cumulative bonus', unit: '% per year' },
+  { group: 'cumulativeBonus', key: 'maxPercent', label: 'maximum cumulative bonus', unit: '%' },
+  { group: 'claims', key: 'deductibleAmount', label: 'deductible', unit: '₹' },
+  { group: 'claims', key: 'consumablesCovered', label: 'consumables cover' }
+];
+
+function formatValue(value: unknown, unit?: string): string {
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  if (typeof value === 'string') return value.replace(/_/g, ' ');
+  if (unit === '₹') return `₹${value}`;
+  return unit ? `${value} ${unit}` : String(value);
+}
+
+export interface DocumentFacts {
+  document: number;
+  facts: PolicyFacts;
+  // Only for the document holding the CIS table - its facts from the text outside the table
+  outsideCis?: PolicyFacts;
+}
+
+/** Facts from all documents, higher-precedence documents winning each field */
+export function mergeDocumentFacts(parts: DocumentFacts[], documents: SourceDocumentInput[]): PolicyFacts {
+  const ordered = [...parts].sort((a, b) =>
+    DOCUMENT_KINDS[documents[b.document].kind].precedence - DOCUMENT_KINDS[documents[a.document].kind].precedence
+  );
+  return mergeFacts(ordered.map(p => p.facts));
+}
+
+/** One needsClarification item per fact that two documents state differently */
+export function findDocumentConflicts(parts: DocumentFacts[], documents: SourceDocumentInput[]): SourcedFeature[] {
+  const conflicts: SourcedFeature[] = [];
+
+  for (const field of FACT_FIELDS) {
+    const stated = parts
+      .map(p => ({ document: p.document, value: (p.facts[field.group] as Record<string, unknown>)[field.key] }))
+      .filter(s => s.value !== null && s.value !== undefined);
+    if (new Set(stated.map(s => String(s.value))).size < 2) continue;
+
+    const says = stated.map(s => `${documentLabel(documents[s.document])}: ${formatValue(s.value, field.unit)}`);
+    const names = [...new Set(stated.map(s => documentLabel(documents[s.document])))];
+    conflicts.push({
+      name: `Documents disagree on ${field.label}`,
+      policyStates: says.join('; '),
+      reference: names.join(' vs '),
+      explanation: `Your documents state different values for the ${field.label} (${says.join(', ')}). Ask your insurer which one applies to your policy - usually the schedule and endorsements override the policy wording and brochure.`
+    });
+  }
+
+  if (conflicts.length > 0) {
+    console.log(`Found ${conflicts.length} conflict(s) between documents`);
+  }
+  return conflicts;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Coverage
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Prompt note for uploads without a policy wording. A brochure or CIS leaves
+ * out most conditions, and a condition it doesn't mention must not read as a
+ * benefit - the model is asked to flag what it can't see instead.
+ */
+export function coverageNote(documents: SourceDocumentInput[]): string {
+  const kinds = [...new Set(documents.map(d => d.kind))];
+  if (documentCoverage(kinds).complete) return '';
+  const gaps = kinds.map(kind => {
+    const info: DocumentKindInfo = DOCUMENT_KINDS[kind];
+    return `the ${info.label} ${info.gap}`;
+  });
+  return `\n\nNOTE: No policy wording was uploaded - only ${gaps.join('; ')}. Analyze only what these documents state. Never treat a condition they don't mention as a benefit: add a needsClarification item for each key term they leave out (for example waiting periods, exclusions, sub-limits or deductibles), saying it has to be checked in the policy wording.`;
+}
@@ -0,0 +1,64 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ ERRORS - Maps failures to the shared error codes                           ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// Raw upstream messages are logged here and never sent to the client.
+
+import { ERROR_CODES, errorBody, type ErrorBody, type ErrorCode } from "../_shared/errorCodes.ts";
+
+export class AnalysisError extends Error {
+  constructor(public code: ErrorCode, debugMessage?: string, public retryAfterMs?: number) {
+    super(debugMessage || ERROR_CODES[code].userMessage);
+    this.name = 'AnalysisError';
+  }
+}
+
+/** Reads retry-after-ms, or retry-after as seconds or an HTTP date */
+export function parseRetryAfter(headers?: Headers): number | undefined {
+  const ms = Number(headers?.get('retry-after-ms'));
+  if (ms > 0) return ms;
+
+  const value = headers?.get('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Error for a non-2xx response from a model API */
+export function upstreamError(provider: string, status: number, body: string, headers?: Headers): AnalysisError {
+  const debug = `${provider} API error ${status}: ${body.substring(0, 200)}`;
+  const retryAfterMs = parseRetryAfter(headers);
+  if (status === 429) return new AnalysisError('UPSTREAM_RATE_LIMITED', debug, retryAfterMs);
+  if (status === 401 || status === 403) return new AnalysisError('CONFIG_ERROR', debug);
+  if (status === 408 || status === 504) return new AnalysisError('UPSTREAM_TIMEOUT', debug, retryAfterMs);
+  if (status >= 500) return new AnalysisError('UPSTREAM_UNAVAILABLE', debug, retryAfterMs);
+  return new AnalysisError('INTERNAL_ERROR', debug);
+}
+
+/** fetch() that turns network failures and aborts into coded errors */
+export async function fetchUpstream(provider: string, url: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, init);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    if (err instanceof Error && err.name === 'AbortError') {
+      throw new AnalysisError('UPSTREAM_TIMEOUT', `${provider} request aborted: ${message}`);
+    }
+    throw new AnalysisError('UPSTREAM_UNAVAILABLE', `${provider} request failed: ${message}`);
+  }
+}
+
+export function toErrorCode(error: unknown): ErrorCode {
+  if (error instanceof AnalysisError) return error.code;
+  if (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError')) return 'UPSTREAM_TIMEOUT';
+  return 'INTERNAL_ERROR';
+}
+
+/** Logs the real error and returns the client-safe body and status */
+export function describeError(error: unknown): { status: number; body: ErrorBody } {
+  const code = toErrorCode(error);
+  console.error(`Error [${code}]: ${error instanceof Error ? error.message : String(error)}`);
+  return { status: ERROR_CODES[code].status, body: errorBody(code) };
+}
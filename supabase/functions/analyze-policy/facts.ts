@@ -0,0 +1,217 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ FACTS - Typed fact extraction alongside the prose categories               ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// The prose buckets can't be sorted, filtered or compared numerically. A second
+// tool call extracts the key terms as typed fields. Unknown values are null.
+
+export type RoomRentType = 'at_actuals' | 'room_category' | 'fixed_cap' | 'percent_of_si';
+export type RestoreType = 'none' | 'once' | 'multiple' | 'unlimited';
+
+export interface CoPayRule {
+  percent: number;
+  minAge: number | null;
+  maxAge: number | null;
+  condition: string | null;
+}
+
+export interface DiseaseSubLimit {
+  disease: string;
+  limitAmount: number | null;
+  limitPercentOfSI: number | null;
+  limitText: string;
+}
+
+export interface PolicyFacts {
+  waitingPeriods: {
+    pedMonths: number | null;
+    specificIllnessMonths: number | null;
+    initialMonths: number | null;
+  };
+  roomRent: {
+    type: RoomRentType | null;
+    category: string | null;
+    capAmountPerDay: number | null;
+    capPercentOfSI: number | null;
+    proportionateDeduction: boolean | null;
+  };
+  coPay: CoPayRule[];
+  restore: {
+    type: RestoreType | null;
+    sameIllnessCovered: boolean | null;
+    percentOfSI: number | null;
+  };
+  hospitalization: {
+    preDays: number | null;
+    postDays: number | null;
+  };
+  cumulativeBonus: {
+    percentPerYear: number | null;
+    maxPercent: number | null;
+    reducesOnClaim: boolean | null;
+  };
+  claims: {
+    deductibleAmount: number | null;
+    consumablesCovered: boolean | null;
+  };
+  diseaseSubLimits: DiseaseSubLimit[];
+}
+
+const nullableNumber = (description: string) => ({ type: ["number", "null"], description });
+const nullableBoolean = (description: string) => ({ type: ["boolean", "null"], description });
+
+export const FACTS_TOOL = {
+  name: "extract_policy_facts",
+  description: "Submit typed facts extracted from an Indian health insurance policy. Use null when the policy does not state a value.",
+  input_schema: {
+    type: "object",
+    properties: {
+      waitingPeriods: {
+        type: "object",
+        properties: {
+          pedMonths: nullableNumber("Pre-existing disease waiting period in months (e.g. 3 years = 36)"),
+          specificIllnessMonths: nullableNumber("Specific/named illness waiting period in months"),
+          initialMonths: nullableNumber("Initial waiting period in months (30 days = 1, none = 0)")
+        },
+        required: ["pedMonths", "specificIllnessMonths", "initialMonths"]
+      },
+      roomRent: {
+        type: "object",
+        properties: {
+          type: {
+            type: ["string", "null"],
+            enum: ["at_actuals", "room_category", "fixed_cap", "percent_of_si", null],
+            description: "at_actuals = no limit; room_category = e.g. single private AC; fixed_cap = ₹ per day; percent_of_si = % of sum insured per day"
+          },
+          category: { type: ["string", "null"], description: "Room category if type is room_category (e.g. 'Single Private AC')" },
+          capAmountPerDay: nullableNumber("Daily cap in rupees if type is fixed_cap"),
+          capPercentOfSI: nullableNumber("Daily cap as % of sum insured if type is percent_of_si"),
+          proportionateDeduction: nullableBoolean("True if a proportionate deduction clause applies")
+        },
+        required: ["type", "category", "capAmountPerDay", "capPercentOfSI", "proportionateDeduction"]
+      },
+      coPay: {
+        type: "array",
+        description: "Every co-payment rule. Empty array if there is no co-pay.",
+        items: {
+          type: "object",
+          properties: {
+            percent: { type: "number", description: "Co-pay percentage" },
+            minAge: nullableNumber("Minimum age it applies from (e.g. 60 for '60 years and above'), null if all ages"),
+            maxAge: nullableNumber("Maximum age it applies to, null if no upper bound"),
+            condition: { type: ["string", "null"], description: "Other condition, e.g. 'treatment outside network', 'zone B city'" }
+          },
+          required: ["percent", "minAge", "maxAge", "condition"]
+        }
+      },
+      restore: {
+        type: "object",
+        properties: {
+          type: {
+            type: ["string", "null"],
+            enum: ["none", "once", "multiple", "unlimited", null],
+            description: "How many times the sum insured can be restored per year"
+          },
+          sameIllnessCovered: nullableBoolean("True if restored amount can be used for the same illness"),
+          percentOfSI: nullableNumber("Restored amount as % of sum insured")
+        },
+        required: ["type", "sameIllnessCovered", "percentOfSI"]
+      },
+      hospitalization: {
+        type: "object",
+        properties: {
+          preDays: nullableNumber("Pre-hospitalization days covered"),
+          postDays: nullableNumber("Post-hospitalization days covered")
+        },
+        required: ["preDays", "postDays"]
+      },
+      cumulativeBonus: {
+        type: "object",
+        properties: {
+          percentPerYear: nullableNumber("Bonus % of sum insured added per claim-free year"),
+          maxPercent: nullableNumber("Maximum accumulated bonus as % of sum insured"),
+          reducesOnClaim: nullableBoolean("True if the bonus is reduced after a claim")
+        },
+        required: ["percentPerYear", "maxPercent", "reducesOnClaim"]
+      },
+      claims: {
+        type: "object",
+        properties: {
+          deductibleAmount: nullableNumber("Deductible in rupees the insured pays per claim or per year before the policy pays, 0 if none"),
+          consumablesCovered: nullableBoolean("True if consumables/non-medical items (gloves, PPE, etc.) are paid, false if excluded")
+        },
+        required: ["deductibleAmount", "consumablesCovered"]
+      },
+      diseaseSubLimits: {
+        type: "array",
+        description: "Disease or procedure specific limits (e.g. cataract ₹40,000 per eye). Empty array if none.",
+        items: {
+          type: "object",
+          properties: {
+            disease: { type: "string" },
+            limitAmount: nullableNumber("Limit in rupees if stated as an amount"),
+            limitPercentOfSI: nullableNumber("Limit as % of sum insured if stated that way"),
+            limitText: { type: "string", description: "The limit as written in the policy" }
+          },
+          required: ["disease", "limitAmount", "limitPercentOfSI", "limitText"]
+        }
+      }
+    },
+    required: ["waitingPeriods", "roomRent", "coPay", "restore", "hospitalization", "cumulativeBonus", "claims", "diseaseSubLimits"]
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Merge - long documents are chunked, each chunk yields partial facts
+// ─────────────────────────────────────────────────────────────────────────────
+
+type FactGroup = Exclude<keyof PolicyFacts, 'coPay' | 'diseaseSubLimits'>;
+
+const FACT_GROUPS: FactGroup[] = ['waitingPeriods', 'roomRent', 'restore', 'hospitalization', 'cumulativeBonus', 'claims'];
+
+export function emptyFacts(): PolicyFacts {
+  return {
+    waitingPeriods: { pedMonths: null, specificIllnessMonths: null, initialMonths: null },
+    roomRent: { type: null, category: null, capAmountPerDay: null, capPercentOfSI: null, proportionateDeduction: null },
+    coPay: [],
+    restore: { type: null, sameIllnessCovered: null, percentOfSI: null },
+    hospitalization: { preDays: null, postDays: null },
+    cumulativeBonus: { percentPerYear: null, maxPercent: null, reducesOnClaim: null },
+    claims: { deductibleAmount: null, consumablesCovered: null },
+    diseaseSubLimits: []
+  };
+}
+
+/**
+ * Combines facts from several chunks. For scalar fields the first non-null
+ * value wins; co-pay rules and sub-limits are concatenated and de-duplicated.
+ */
+export function mergeFacts(parts: Partial<PolicyFacts>[]): PolicyFacts {
+  const merged = emptyFacts();
+
+  for (const part of parts) {
+    for (const group of FACT_GROUPS) {
+      const target = merged[group] as Record<string, unknown>;
+      const source = (part?.[group] || {}) as Record<string, unknown>;
+      for (const key of Object.keys(target)) {
+        if (target[key] === null && source[key] !== undefined && source[key] !== null) {
+          target[key] = source[key];
+        }
+      }
+    }
+
+    for (const rule of part?.coPay || []) {
+      const exists = merged.coPay.some(r => r.percent === rule.percent && r.minAge === rule.minAge && r.condition === rule.condition);
+      if (!exists) merged.coPay.push(rule);
+    }
+
+    for (const limit of part?.diseaseSubLimits || []) {
+      const key = (limit.disease || '').toLowerCase().trim();
+      if (key && !merged.diseaseSubLimits.some(l => l.disease.toLowerCase().trim() === key)) {
+        merged.diseaseSubLimits.push(limit);
+      }
+    }
+  }
+
+  return merged;
+}
@@ -1,337 +1,754 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import { applyClassificationRules } from "./rules.ts";
+import { verifyQuotes, tagQuoteLanguages } from "./quotes.ts";
+import { correctPageReferences } from "./pages.ts";
+import { createProvider, type LLMProvider } from "./providers/index.ts";
+import { AnalysisError, describeError, toErrorCode } from "./errors.ts";
+import type { ErrorCode } from "../_shared/errorCodes.ts";
+import { corsHeaders, jsonResponse, errorResponse } from "../_shared/http.ts";
+import { createServiceClient, buildCacheKey, getCachedAnalysis, storeAnalysis, sha256Hex } from "./cache.ts";
+import { sseResponse, noProgress, type ProgressEmitter } from "./sse.ts";
+import { identifyCaller, consumeQuota } from "./quotas.ts";
+import { callToolWithRetry, type CallContext } from "./retry.ts";
+import { RULEBOOK, checkRulebook, type AddOnRule, type ScoringRules } from "./rulebook.ts";
+import { TYPE_RULEBOOKS, checkTypeRulebook, type TypeRulebook } from "./typeRulebooks.ts";
+import {
+  renderSystemPrompt, renderToolDescriptions, renderReminder, checklistLines,
+  renderTypeSystemPrompt, renderTypeToolDescriptions, renderTypeReminder, typeChecklistLines, type ToolDescriptions
+} from "./prompts.ts";
+import { REVIEW_INSTRUCTIONS, buildReviewDocument, collectExcerpts, countFeatures, diffReview, type ReviewBuckets } from "./review.ts";
+import { parseDocuments, combineDocuments, attributeSources, mergeDocumentFacts, findDocumentConflicts, coverageNote, type DocumentFacts } from "./documents.ts";
+import { documentCoverage, type SourceDocumentInput } from "../_shared/documents.ts";
+import { classifyDocument } from "../_shared/documentClassifier.ts";
+import { FACTS_TOOL, emptyFacts, mergeFacts, type PolicyFacts } from "./facts.ts";
+import { parseCis, cisFacts, findCisConflicts } from "./cis.ts";
+import { separateAddOns, linkAddOns } from "./addons.ts";
+import { scorePolicy, HEALTH_DIMENSIONS, type DimensionRule } from "./score.ts";
+import { assessRelevance, profileNote } from "./relevance.ts";
+import { parseProfile, describeProfile, RELEVANCE_LEVELS, type UserProfile } from "../_shared/profile.ts";
+import { SCHEDULE_TOOL, normalizeSchedule, mergeSchedules, type RawSchedule } from "./schedule.ts";
+import { TRANSLATE_TOOL, translationPrompt, isEnglishReport, collectTexts, uniqueTexts, batchTexts, renderBatch, applyTranslations, type TranslationItem } from "./translate.ts";
+import { DEFAULT_LANGUAGE, LANGUAGES, isLanguageCode, type LanguageCode } from "../_shared/languages.ts";
+import { detectLanguages, policyTermsFor } from "../_shared/textLanguage.ts";
+import { DEFAULT_INSURANCE_TYPE, INSURANCE_TYPES, detectInsuranceType, isInsuranceType, type InsuranceType } from "../_shared/insuranceTypes.ts";
+import { splitIntoChunks, selectChunks, describeSkipped, mergeChunkAnalyses, summarizeChunks, type DocumentChunk, type ChunkAnalysis } from "./chunking.ts";
 
 // ╔═══════════════════════════════════════════════════════════════════════════╗
 // ║ CONFIG                                                                     ║
 // ╚═══════════════════════════════════════════════════════════════════════════╝
 
 const CONFIG = {
-  version: "9.5.0",
-  model: "claude-3-5-haiku-20241022",
+  version: "9.8.0",
   maxTokens: 4096,
   temperature: 0.1,
-  maxDocChars: 150000,
-  timeoutMs: 60000
+  maxDocChars: 150000,   // per model call - longer documents are chunked
+  maxChunks: 4,
+  minFactsChars: 500,    // less text than this beside a CIS table is only headers
+  maxDocuments: 5,       // wording + brochure + schedule + endorsements
+  timeoutMs: 60000,      // overall deadline for all model calls, retries included
+  // Optional self-review pass, enabled per request with { review: true }
+  review: {
+    maxExcerptChars: 20000,
+    timeoutMs: 45000     // its own deadline - the first pass may have used up timeoutMs
+  },
+  // Reports in other languages are translated from the English analysis
+  translation: {
+    batchSize: 25,
+    maxBatchChars: 6000,
+    maxChars: 60000,     // per translate-only request - a report is far shorter
+    timeoutMs: 45000
+  },
+  retry: {
+    maxAttempts: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 8000,
+    minAttemptMs: 5000
+  },
+  // Model calls per caller - cache hits don't count
+  quotas: {
+    anonymous: { perMinute: 3, perDay: 20 },     // per client IP
+    authenticated: { perMinute: 5, perDay: 50 }  // per user id
+  }
 };
 
 // ╔═══════════════════════════════════════════════════════════════════════════╗
 // ║ VALIDATION                                                                 ║
 // ╚═══════════════════════════════════════════════════════════════════════════╝
 
-function validateDocument(text: string): { valid: boolean; error?: string } {
-  if (!text || text.length < 500) {
-    return { valid: false, error: "Document too short. Please upload complete policy." };
+type Validation = { valid: true; type: InsuranceType } | { valid: false; code: ErrorCode };
+
+/** Checks the documents and detects which analyzer they go to */
+function validateDocument(documents: SourceDocumentInput[]): Validation {
+  const totalChars = documents.reduce((n, d) => n + d.text.length, 0);
+  if (totalChars < 500) {
+    return { valid: false, code: 'DOCUMENT_TOO_SHORT' };
   }
   
-  const lower = text.substring(0, 10000).toLowerCase();
-  const healthKeywords = ['health insurance', 'hospitalization', 'sum insured', 'cashless', 'waiting period', 'room rent', 'co-pay', 'irdai', 'claim'];
-  const matches = healthKeywords.filter(k => lower.includes(k)).length;
+  // The start of each document - a schedule alone rarely has enough keywords
+  const sample = documents.map(d => d.text.substring(0, 10000)).join('\n');
+  // Hindi and bilingual wordings are checked against their own terms too
+  const match = detectInsuranceType(sample, policyTermsFor(detectLanguages(sample).languages));
   
-  if (matches < 3) {
-    return { valid: false, error: "This doesn't appear to be a health insurance policy." };
+  if (!match.type || match.general + match.scores[match.type] < 3) {
+    return { valid: false, code: 'UNSUPPORTED_POLICY' };
   }
   
-  return { valid: true };
+  return { valid: true, type: match.type };
 }
 
 // ╔═══════════════════════════════════════════════════════════════════════════╗
 // ║ TOOL SCHEMA - Guarantees structured JSON output                            ║
 // ╚═══════════════════════════════════════════════════════════════════════════╝
 
-const ANALYSIS_TOOL = {
-  name: "submit_policy_analysis",
-  description: "Submit the structured analysis of an Indian health insurance policy document",
-  input_schema: {
-    type: "object",
-    properties: {
-      policyName: { 
-        type: "string", 
-        description: "Full name of the insurance policy" 
-      },
-      insurer: { 
-        type: "string", 
-        description: "Name of the insurance company" 
-      },
-      sumInsured: { 
-        type: "string", 
-        description: "Coverage amount (e.g., '₹5 Lakhs', '₹1 Crore')" 
-      },
-      policyType: {
-        type: "string",
-        description: "Type of policy (e.g., 'Individual', 'Family Floater', 'Top-up')"
-      },
-      greatFeatures: {
-        type: "array",
-        description: "5-7 best-in-class features that exceed industry standards",
-        items: {
-          type: "object",
-          properties: {
-            name: { type: "string", description: "Feature name (e.g., 'No Room Rent Limit')" },
-            policyStates: { type: "string", description: "Short quote from policy, max 50 characters" },
-            reference: { type: "string", description: "Section or page reference" },
-            explanation: { type: "string", description: "2-3 sentence explanation with practical examples" }
-          },
-          required: ["name", "policyStates", "explanation"]
-        }
-      },
-      goodFeatures: {
-        type: "array",
-        description: "3-5 features that meet industry standards. MUST include PED waiting period if 24 months.",
-        items: {
-          type: "object",
-          properties: {
-            name: { type: "string" },
-            policyStates: { type: "string" },
-            reference: { type: "string" },
-            explanation: { type: "string", description: "2-3 sentence explanation" }
-          },
-          required: ["name", "policyStates", "explanation"]
-        }
-      },
-      redFlags: {
-        type: "array",
-        description: "ALL concerning clauses. MUST include PED waiting if 36+ months, Specific illness waiting if 36+ months.",
-        items: {
-          type: "object",
-          properties: {
-            name: { type: "string" },
-            policyStates: { type: "string" },
-            reference: { type: "string" },
-            explanation: { type: "string", description: "2-3 sentences on financial/practical impact" }
-          },
-          required: ["name", "policyStates", "explanation"]
+// Only filled when the request carries a buyer profile
+const RELEVANCE_PROPERTY = {
+  type: "string",
+  enum: RELEVANCE_LEVELS,
+  description: "How much this matters to the BUYER PROFILE, if one is given. Omit otherwise."
+};
+
+// Header field descriptions - life, motor and home rulebooks bring their own
+type ToolHeader = TypeRulebook['header'];
+
+const HEALTH_HEADER: ToolHeader = {
+  sumInsured: "Coverage amount (e.g., '₹5 Lakhs', '₹1 Crore')",
+  policyType: "Type of policy (e.g., 'Individual', 'Family Floater', 'Top-up')",
+  exampleFeature: 'No Room Rent Limit'
+};
+
+// Same schema for every insurance type, so the output shape never changes
+function analysisTool(subject: string, descriptions: ToolDescriptions, header: ToolHeader) {
+  return {
+    name: "submit_policy_analysis",
+    description: `Submit the structured analysis of an ${subject} document`,
+    input_schema: {
+      type: "object",
+      properties: {
+        policyName: { 
+          type: "string", 
+          description: "Full name of the insurance policy" 
+        },
+        insurer: { 
+          type: "string", 
+          description: "Name of the insurance company" 
+        },
+        sumInsured: { 
+          type: "string", 
+          description: header.sumInsured 
+        },
+        policyType: {
+          type: "string",
+          description: header.policyType
+        },
+        greatFeatures: {
+          type: "array",
+          description: descriptions.greatFeatures,
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string", description: `Feature name (e.g., '${header.exampleFeature}')` },
+              policyStates: { type: "string", description: "Short quote from policy, max 50 characters" },
+              reference: { type: "string", description: "Page (from the [Page N] markers) and section, e.g. 'Page 16, Section 4.2'" },
+              explanation: { type: "string", description: "2-3 sentence explanation with practical examples" },
+              relevance: RELEVANCE_PROPERTY
+            },
+            required: ["name", "policyStates", "explanation"]
+          }
+        },
+        goodFeatures: {
+          type: "array",
+          description: descriptions.goodFeatures,
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              policyStates: { type: "string" },
+              reference: { type: "string" },
+              explanation: { type: "string", description: "2-3 sentence explanation" },
+              relevance: RELEVANCE_PROPERTY
+            },
+            required: ["name", "policyStates", "explanation"]
+          }
+        },
+        redFlags: {
+          type: "array",
+          description: descriptions.redFlags,
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              policyStates: { type: "string" },
+              reference: { type: "string" },
+              explanation: { type: "string", description: "2-3 sentences on financial/practical impact" },
+              relevance: RELEVANCE_PROPERTY
+            },
+            required: ["name", "policyStates", "explanation"]
+          }
+        },
+        needsClarification: {
+          type: "array",
+          description: "Vague terms, conflicting statements, or missing details",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              policyStates: { type: "string" },
+              reference: { type: "string" },
+              explanation: { type: "string", description: "What's unclear and what question to ask" },
+              relevance: RELEVANCE_PROPERTY
+            },
+            required: ["name", "policyStates", "explanation"]
+          }
+        },
+        addOns: {
+          type: "array",
+          description: descriptions.addOns,
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string", description: "Add-on or rider name as the policy calls it" },
+              price: { type: ["string", "null"], description: "Price as written (e.g. '₹1,200 + GST', '10% of base premium'), null if not stated" },
+              premium: { type: ["number", "null"], description: "Price in rupees if stated as a plain amount, otherwise null" },
+              policyStates: { type: "string" },
+              reference: { type: "string" },
+              neutralises: { type: "array", items: { type: "string" }, description: "Exact names of the redFlags above that this add-on removes" },
+              verdict: {
+                type: "string",
+                enum: ["recommended", "optional", "not_needed"],
+                description: "recommended = removes a costly red flag; optional = useful for some buyers; not_needed = duplicates base cover or poor value"
+              },
+              explanation: { type: "string", description: "2-3 sentences on what it adds and who should buy it" }
+            },
+            required: ["name", "price", "premium", "neutralises", "verdict", "explanation"]
+          }
         }
       },
-      needsClarification: {
-        type: "array",
-        description: "Vague terms, conflicting statements, or missing details",
-        items: {
-          type: "object",
-          properties: {
-            name: { type: "string" },
-            policyStates: { type: "string" },
-            reference: { type: "string" },
-            explanation: { type: "string", description: "What's unclear and what question to ask" }
-          },
-          required: ["name", "policyStates", "explanation"]
-        }
-      }
-    },
-    required: ["policyName", "insurer", "sumInsured", "policyType", "greatFeatures", "goodFeatures", "redFlags", "needsClarification"]
-  }
-};
+      required: ["policyName", "insurer", "sumInsured", "policyType", "greatFeatures", "goodFeatures", "redFlags", "needsClarification", "addOns"]
+    }
+  };
+}
+
+type AnalysisTool = ReturnType<typeof analysisTool>;
+
+// Same buckets as the analysis tool - the self-review resubmits only the features
+function reviewTool(tool: AnalysisTool) {
+  const { greatFeatures, goodFeatures, redFlags, needsClarification } = tool.input_schema.properties;
+  return {
+    name: "submit_reviewed_analysis",
+    description: "Submit the corrected feature buckets after reviewing the first-pass analysis against the checklist",
+    input_schema: {
+      type: "object",
+      properties: { greatFeatures, goodFeatures, redFlags, needsClarification },
+      required: ["greatFeatures", "goodFeatures", "redFlags", "needsClarification"]
+    }
+  };
+}
 
 // ╔═══════════════════════════════════════════════════════════════════════════╗
-// ║ SYSTEM PROMPT - Expert analysis with corrected logic                       ║
+// ║ ANALYZERS - One rulebook, prompt and tool schema per insurance type        ║
 // ╚═══════════════════════════════════════════════════════════════════════════╝
 
-const SYSTEM_PROMPT = `You are an expert Indian health insurance policy analyzer.
-
-══════════════════════════════════════════════════════════════
-CLASSIFICATION RULES - FOLLOW EXACTLY
-══════════════════════════════════════════════════════════════
-
-WAITING PERIODS:
-| Type              | GREAT      | GOOD         | RED FLAG    |
-|-------------------|------------|--------------|-------------|
-| PED               | ≤12 months | 24-48 months | >48 months  |
-| Specific Illness  | ≤12 months | 24 months    | >24 months  |
-| Initial           | 0 days     | 30 days      | >30 days    |
-
-ROOM RENT:
-| Term                              | Category |
-|-----------------------------------|----------|
-| "At Actuals" / "No limit"         | GREAT    |
-| "Single Private AC"               | GOOD     |
-| Daily cap (₹3K-₹10K/day)          | RED FLAG |
-| Proportionate deduction clause    | RED FLAG |
-
-PRE/POST HOSPITALIZATION:
-| Pre-hosp    | Post-hosp   | Category |
-|-------------|-------------|----------|
-| ≥60 days    | ≥180 days   | GREAT    |
-| 30-59 days  | 60-179 days | GOOD     |
-| <30 days    | <60 days    | RED FLAG |
-
-══════════════════════════════════════════════════════════════
-GREAT FEATURES (Better than market)
-══════════════════════════════════════════════════════════════
-- Room rent at actuals/no limit
-- Pre-hosp ≥60 days, Post-hosp ≥180 days
-- Restore/Reset: Unlimited or same illness covered
-- Consumables fully covered (Protect Benefit)
-- 2X/3X/4X coverage multipliers
-- Auto SI increase regardless of claims
-- Air ambulance, No co-pay any age
-- No geography-based co-pay
-- Worldwide cover, Lifelong renewal
-
-══════════════════════════════════════════════════════════════
-GOOD FEATURES (Market standard)
-══════════════════════════════════════════════════════════════
-- Room rent: Single Private AC
-- PED: 24-48 months (incl. 36 months)
-- Specific illness: 24 months
-- Initial waiting: 30 days
-- Pre-hosp: 30-59 days, Post-hosp: 60-179 days
-- Restore for different illness only
-- Co-pay 10-20% for 60+ only
-- AYUSH, Day care, Domiciliary covered
-- Ambulance, Health check-up, Donor expenses
-- Cashless network, Optional add-ons
-- Daily cash for shared room (any amount)
-- Voluntary deductible with discount
-
-══════════════════════════════════════════════════════════════
-RED FLAGS (Must flag if present)
-══════════════════════════════════════════════════════════════
-- Proportionate deduction clause
-- Room rent daily cap in rupees
-- PED >48 months, Specific illness >24 months
-- Mandatory co-pay ALL ages
-- Disease sub-limits (name exact disease + limit)
-- PPN/Network co-pay penalty (10-20% outside network)
-- No restore benefit, Consumables not covered
-
-══════════════════════════════════════════════════════════════
-NEVER FLAG AS RED FLAG
-══════════════════════════════════════════════════════════════
-- 24-month specific illness (GOOD)
-- 36-month PED (GOOD)
-- 48-month PED (GOOD)
-- "Multiple exclusions" (lazy - not allowed)
-- Daily cash benefit (BONUS = GOOD)
-- Standard IRDAI exclusions
-- Voluntary deductible options
-
-STANDARD IRDAI EXCLUSIONS (never mention):
-Cosmetic, Obesity, Infertility, Maternity (base), Dental, 
-Spectacles, Vitamins, Self-harm, War, Hazardous sports, 
-Alcohol/drugs, Experimental, Vaccination, Rest cures
-
-══════════════════════════════════════════════════════════════
-UNCLEAR (Only if genuinely vague)
-══════════════════════════════════════════════════════════════
-- Conflicting statements
-- Benefit without details
-- "Company discretion" without criteria
-
-NOT unclear: Waiting periods, room rent terms, add-ons with prices
-
-══════════════════════════════════════════════════════════════
-OUTPUT
-══════════════════════════════════════════════════════════════
-- GREAT: 5-10 features
-- GOOD: 5-10 features  
-- RED FLAGS: All genuine issues (specific only)
-- UNCLEAR: Only vague items
-
-Each feature needs: name, quote (<100 chars), reference, explanation (1-2 sentences, use "you/your")
-
-══════════════════════════════════════════════════════════════
-MUST INCLUDE (if in policy)
-══════════════════════════════════════════════════════════════
-Room rent, PED waiting, Specific illness waiting, Initial waiting,
-Pre/Post hospitalization, Restore benefit, Cashless network,
-Proportionate deduction (if present), Co-pay terms (if any)
-
-══════════════════════════════════════════════════════════════
-CHECKLIST BEFORE SUBMIT
-══════════════════════════════════════════════════════════════
-□ 24-month specific illness in GOOD
-□ 36/48-month PED in GOOD
-□ Pre/Post ≥60/180 in GREAT
-□ Proportionate deduction in RED FLAG (if exists)
-□ No "multiple exclusions" anywhere
-□ No IRDAI exclusions mentioned
-□ Counts match actual features`;
+interface Analyzer {
+  type: InsuranceType;
+  rulebookVersion: string;
+  // Contradictions are reported as CONFIG_ERROR on every request of this type until fixed
+  problems: string[];
+  systemPrompt: string;
+  reminder: string;
+  checklist: string[];
+  tool: AnalysisTool;
+  reviewTool: ReturnType<typeof reviewTool>;
+  // Self-review excerpt keywords - the health defaults in review.ts when absent
+  reviewKeywords?: string[];
+  addOns: AddOnRule[];
+  scoring: ScoringRules<string>;
+  dimensions: DimensionRule[];
+}
+
+function healthAnalyzer(): Analyzer {
+  const tool = analysisTool('Indian health insurance policy', renderToolDescriptions(RULEBOOK), HEALTH_HEADER);
+  return {
+    type: 'health',
+    rulebookVersion: RULEBOOK.version,
+    problems: checkRulebook(RULEBOOK),
+    systemPrompt: renderSystemPrompt(RULEBOOK),
+    reminder: renderReminder(RULEBOOK),
+    checklist: checklistLines(RULEBOOK),
+    tool,
+    reviewTool: reviewTool(tool),
+    addOns: RULEBOOK.addOns,
+    scoring: RULEBOOK.scoring,
+    dimensions: HEALTH_DIMENSIONS
+  };
+}
+
+function typeAnalyzer(rulebook: TypeRulebook): Analyzer {
+  const tool = analysisTool(rulebook.subject, renderTypeToolDescriptions(rulebook), rulebook.header);
+  return {
+    type: rulebook.type,
+    rulebookVersion: rulebook.version,
+    problems: checkTypeRulebook(rulebook),
+    systemPrompt: renderTypeSystemPrompt(rulebook),
+    reminder: renderTypeReminder(rulebook),
+    checklist: typeChecklistLines(rulebook),
+    tool,
+    reviewTool: reviewTool(tool),
+    reviewKeywords: rulebook.keywords,
+    addOns: rulebook.addOns,
+    scoring: rulebook.scoring,
+    dimensions: rulebook.dimensions
+  };
+}
+
+const ANALYZERS: Record<InsuranceType, Analyzer> = {
+  health: healthAnalyzer(),
+  life: typeAnalyzer(TYPE_RULEBOOKS.life),
+  motor: typeAnalyzer(TYPE_RULEBOOKS.motor),
+  home: typeAnalyzer(TYPE_RULEBOOKS.home)
+};
+
+for (const { type, rulebookVersion, problems } of Object.values(ANALYZERS)) {
+  if (problems.length > 0) {
+    console.error(`${INSURANCE_TYPES[type].label} rulebook ${rulebookVersion} is inconsistent:\n- ${problems.join('\n- ')}`);
+  }
+}
+
+const FACTS_SYSTEM_PROMPT = `You extract structured facts from Indian health insurance policies.
+Only report values the policy text actually states. Use null for anything not stated - never guess.
+Convert years to months (3 years = 36). Amounts are in rupees as plain numbers (₹5,000 = 5000, 1 lakh = 100000).`;
+
+const SCHEDULE_SYSTEM_PROMPT = `You read Indian health insurance policy schedules (the certificate listing the insured members and premium).
+Only report values the schedule actually prints. Use null for anything not stated - never guess or calculate.
+Copy dates exactly as written. Amounts are in rupees as plain numbers (₹5,000 = 5000, 1 lakh = 100000).`;
+
+// Translated reports are cached under their own key, which includes this
+const TRANSLATION_HASH = sha256Hex([
+  ...Object.keys(INSURANCE_TYPES).map(type => translationPrompt('hi', type as InsuranceType)),
+  JSON.stringify(TRANSLATE_TOOL)
+].join('\n'));
+
+// Part of the cache key - editing any prompt or schema of the analyzer invalidates its cached results.
+// Facts and schedules are only extracted from health policies.
+function promptHash(analyzer: Analyzer): Promise<string> {
+  return sha256Hex([
+    analyzer.systemPrompt, JSON.stringify(analyzer.tool),
+    REVIEW_INSTRUCTIONS, JSON.stringify(analyzer.reviewTool),
+    ...(analyzer.type === 'health'
+      ? [FACTS_SYSTEM_PROMPT, JSON.stringify(FACTS_TOOL), SCHEDULE_SYSTEM_PROMPT, JSON.stringify(SCHEDULE_TOOL)]
+      : [])
+  ].join('\n'));
+}
 
 // ╔═══════════════════════════════════════════════════════════════════════════╗
-// ║ CLAUDE API CALL WITH TOOL USE                                              ║
+// ║ MODEL CALLS WITH TOOL USE - backend chosen by LLM_PROVIDER                 ║
 // ╚═══════════════════════════════════════════════════════════════════════════╝
 
-async function analyzeWithClaude(apiKey: string, policyText: string): Promise<any> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), CONFIG.timeoutMs);
+type ChunkPart = { index: number; total: number; documents?: number; languages?: LanguageCode[] };
+
+function partNote(part?: ChunkPart): string {
+  const chunkNote = part && part.total > 1
+    ? `\n\nNOTE: This is part ${part.index + 1} of ${part.total} of a long policy. Analyze only the text below; other parts are analyzed separately and merged.`
+    : '';
+  const documentsNote = part?.documents && part.documents > 1
+    ? `\n\nNOTE: The policy is split across ${part.documents} documents, each starting with a [Document N: Kind - name] marker. Start each reference with the document kind (e.g. "Policy Schedule, Page 2"). If the documents state different terms, add a needsClarification item naming both documents.`
+    : '';
+  const languages = part?.languages || [];
+  const nonEnglish = languages.filter(l => l !== 'en').map(l => LANGUAGES[l].label);
+  const languageNote = nonEnglish.length > 0
+    ? `\n\nNOTE: The policy is written in ${nonEnglish.join(' and ')}${languages.includes('en') ? ' and English' : ''}. Copy quotes exactly as printed, in their original language and script - never translate a quote. Write everything else in English.`
+    : '';
+  return chunkNote + documentsNote + languageNote;
+}
 
-  try {
-    console.log(`Calling Claude with Tool Use API...`);
-    
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01'
-      },
-      signal: controller.signal,
-      body: JSON.stringify({
-        model: CONFIG.model,
-        max_tokens: CONFIG.maxTokens,
-        temperature: CONFIG.temperature,
-        system: SYSTEM_PROMPT,
-        tools: [ANALYSIS_TOOL],
-        tool_choice: { type: "tool", name: "submit_policy_analysis" },
-        messages: [{
-          role: 'user',
-          content: `Analyze this health insurance policy.
-
-REMEMBER:
-- 24-month specific illness = GOOD
-- 36-month PED = GOOD
-- Proportionate deduction = RED FLAG (if present)
-- Pre/Post ≥60/180 days = GREAT
-
-MUST FLAG AS RED FLAG (if present in policy):
-- Proportionate deduction - search for "proportional share" or "proportionate"
-- Room rent daily cap - search for "₹" + "/day" or "per day"
+async function analyzeWithModel(
+  provider: LLMProvider,
+  ctx: CallContext,
+  analyzer: Analyzer,
+  policyText: string,
+  part?: ChunkPart,
+  profile?: UserProfile | null,
+  coverage = ''
+): Promise<any> {
+  console.log(`Calling ${provider.name} with Tool Use${part ? ` (chunk ${part.index + 1}/${part.total})` : ''}...`);
+
+  const headerNote = part && part.total > 1
+    ? ` Still fill policyName/insurer/sumInsured/policyType if stated, otherwise use "Not specified".`
+    : '';
+
+  const result = await callToolWithRetry<ChunkAnalysis>(provider, {
+    system: analyzer.systemPrompt,
+    tool: analyzer.tool,
+    document: `Analyze this ${INSURANCE_TYPES[analyzer.type].label.toLowerCase()} insurance policy.${partNote(part)}${coverage}${headerNote}${profile ? profileNote(describeProfile(profile)) : ''}
+
+${analyzer.reminder}
 
 Policy:
 ${policyText}`
-        }]
-      })
-    });
+  }, ctx, part?.index);
 
-    if (!response.ok) {
-      const error = await response.text();
-      console.error(`Claude API error: ${response.status}`, error.substring(0, 500));
-      throw new Error(`Claude API error ${response.status}: ${error.substring(0, 200)}`);
-    }
+  console.log(`Tool use extracted: ${result.policyName}, ${result.greatFeatures?.length || 0} great, ${result.redFlags?.length || 0} red flags`);
+  
+  return result;
+}
 
-    const data = await response.json();
-    console.log(`Claude response received, content blocks: ${data.content?.length || 0}`);
-    
-    // Find the tool_use block in the response
-    const toolUseBlock = data.content?.find((block: any) => block.type === 'tool_use');
-    
-    if (!toolUseBlock) {
-      console.error('No tool_use block found in response:', JSON.stringify(data.content?.map((c: any) => c.type)));
-      throw new Error('Claude did not return tool use response');
-    }
-    
-    if (toolUseBlock.name !== 'submit_policy_analysis') {
-      console.error(`Unexpected tool: ${toolUseBlock.name}`);
-      throw new Error(`Unexpected tool response: ${toolUseBlock.name}`);
-    }
-    
-    // The input is already a parsed object - no JSON parsing needed!
-    const result = toolUseBlock.input;
-    
-    if (!result || typeof result !== 'object') {
-      throw new Error('Invalid tool input structure');
+async function extractFactsWithModel(provider: LLMProvider, ctx: CallContext, policyText: string, part?: ChunkPart): Promise<Partial<PolicyFacts>> {
+  console.log(`Calling ${provider.name} for typed facts${part ? ` (chunk ${part.index + 1}/${part.total})` : ''}...`);
+
+  return await callToolWithRetry<Partial<PolicyFacts>>(provider, {
+    system: FACTS_SYSTEM_PROMPT,
+    tool: FACTS_TOOL,
+    document: `Extract the typed facts from this health insurance policy.${partNote(part)}
+
+Policy:
+${policyText}`
+  }, ctx, part?.index);
+}
+
+async function extractScheduleWithModel(provider: LLMProvider, ctx: CallContext, scheduleText: string): Promise<RawSchedule> {
+  console.log(`Calling ${provider.name} for the policy schedule...`);
+
+  return await callToolWithRetry<RawSchedule>(provider, {
+    system: SCHEDULE_SYSTEM_PROMPT,
+    tool: SCHEDULE_TOOL,
+    document: `Extract the details from this policy schedule.
+
+Schedule:
+${scheduleText.substring(0, CONFIG.maxDocChars)}`
+  }, ctx);
+}
+
+async function reviewWithModel(provider: LLMProvider, ctx: CallContext, analyzer: Analyzer, draft: ReviewBuckets, policyText: string): Promise<ReviewBuckets> {
+  console.log(`Calling ${provider.name} for self-review...`);
+
+  const excerpts = collectExcerpts(draft, policyText, CONFIG.review.maxExcerptChars, analyzer.reviewKeywords);
+  return await callToolWithRetry<ReviewBuckets>(provider, {
+    system: analyzer.systemPrompt,
+    tool: analyzer.reviewTool,
+    document: buildReviewDocument(draft, analyzer.checklist, excerpts)
+  }, ctx);
+}
+
+async function translateWithModel(
+  provider: LLMProvider,
+  ctx: CallContext,
+  batch: TranslationItem[],
+  language: LanguageCode,
+  type: InsuranceType,
+  index: number
+): Promise<TranslationItem[]> {
+  console.log(`Calling ${provider.name} to translate ${batch.length} text(s) into ${LANGUAGES[language].label}...`);
+
+  const result = await callToolWithRetry<{ translations?: TranslationItem[] }>(provider, {
+    system: translationPrompt(language, type),
+    tool: TRANSLATE_TOOL,
+    document: `Translate each numbered text into ${LANGUAGES[language].label}. Return every id.
+
+${renderBatch(batch)}`
+  }, ctx, index);
+  return Array.isArray(result.translations) ? result.translations : [];
+}
+
+/**
+ * Copy of a finished English analysis with its reader-facing text in
+ * `language`. Best-effort like facts: if translation fails the English report
+ * is returned and _meta.translation records why.
+ */
+async function localizeAnalysis(provider: LLMProvider, english: Record<string, unknown>, language: LanguageCode): Promise<Record<string, unknown>> {
+  const start = Date.now();
+  const result = structuredClone(english);
+  const slots = collectTexts(result);
+  const texts = uniqueTexts(slots);
+  const type = isInsuranceType(english.insuranceType) ? english.insuranceType : DEFAULT_INSURANCE_TYPE;
+  const ctx: CallContext = { deadline: start + CONFIG.translation.timeoutMs, policy: CONFIG.retry, attempts: [] };
+
+  try {
+    const batches = batchTexts(texts, CONFIG.translation.batchSize, CONFIG.translation.maxBatchChars);
+    const parts = await Promise.all(batches.map((batch, i) => translateWithModel(provider, ctx, batch, language, type, i)));
+    const counts = applyTranslations(slots, texts, parts.flat());
+    if (counts.translated === 0 && counts.texts > 0) {
+      throw new AnalysisError('MALFORMED_MODEL_OUTPUT', 'Translation returned no usable texts');
     }
-    
-    console.log(`Tool use extracted: ${result.policyName}, ${result.greatFeatures?.length || 0} great, ${result.redFlags?.length || 0} red flags`);
-    
+    result.language = language;
+    result._meta = {
+      ...(result._meta as Record<string, unknown>),
+      translation: { language, ...counts, batches: batches.length, attempts: ctx.attempts, durationMs: Date.now() - start }
+    };
+    console.log(`Translated ${counts.translated}/${counts.texts} text(s) into ${LANGUAGES[language].label} in ${Date.now() - start}ms`);
     return result;
+  } catch (err) {
+    console.error(`Translation into ${language} failed, returning English: ${(err as Error).message}`);
+    return {
+      ...english,
+      _meta: { ...(english._meta as Record<string, unknown>), translation: { language, error: toErrorCode(err), attempts: ctx.attempts, durationMs: Date.now() - start } }
+    };
+  }
+}
+
+/**
+ * Translate-only requests: { translate: <English report>, language }. The
+ * client sends back the report it already has, so a language switch runs no
+ * extraction and doesn't count against the caller's analysis quota.
+ */
+async function translateReport(provider: LLMProvider, report: unknown, language: unknown, bypassCache: boolean): Promise<Record<string, unknown>> {
+  if (!isLanguageCode(language) || language === DEFAULT_LANGUAGE) {
+    throw new AnalysisError('INVALID_REPORT', `Cannot translate a report into ${String(language)}`);
+  }
+  if (!isEnglishReport(report)) {
+    throw new AnalysisError('INVALID_REPORT', 'translate is not an English analysis report');
+  }
+  const chars = uniqueTexts(collectTexts(report)).reduce((n, text) => n + text.length, 0);
+  if (chars > CONFIG.translation.maxChars) {
+    throw new AnalysisError('INVALID_REPORT', `Report has ${chars} chars to translate, limit is ${CONFIG.translation.maxChars}`);
+  }
+
+  // Keyed on the report without _meta, which differs on every response
+  const serviceClient = createServiceClient();
+  const cacheParts = { version: CONFIG.version, model: provider.model, promptHash: `translate:${language}:${await TRANSLATION_HASH}` };
+  const cacheKey = await buildCacheKey({ policyText: JSON.stringify({ ...report, _meta: undefined }), ...cacheParts });
+  const cached = serviceClient && !bypassCache ? await getCachedAnalysis(serviceClient, cacheKey) : null;
+  if (cached) return cached;
 
-  } finally {
-    clearTimeout(timeout);
+  const result = await localizeAnalysis(provider, report, language);
+  if (serviceClient && result.language === language) {
+    await storeAnalysis(serviceClient, cacheKey, cacheParts, result);
   }
+  return result;
+}
+
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ ANALYSIS PIPELINE - model calls + deterministic post-processing            ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+
+interface RunOptions {
+  review: boolean;
+  // Optional buyer profile - adds relevance to every feature
+  profile: UserProfile | null;
+  // Report language; anything but English is translated after the analysis
+  language: LanguageCode;
+}
+
+interface AnalysisInput {
+  documents: SourceDocumentInput[];
+  // All documents joined by combineDocuments - what chunks, quotes and pages refer to
+  text: string;
+}
+
+async function runAnalysis(
+  provider: LLMProvider,
+  analyzer: Analyzer,
+  input: AnalysisInput,
+  startTime: number,
+  emit: ProgressEmitter,
+  options: RunOptions
+) {
+  const { documents, text: policyText } = input;
+  const languages = detectLanguages(policyText).languages;
+  // Typed facts, schedules, the rule engine and profiles are health-specific
+  const health = analyzer.type === 'health';
+  const profile = health ? options.profile : null;
+  if (options.profile && !profile) {
+    console.log(`Buyer profile ignored for a ${analyzer.type} policy`);
+  }
+
+  // Without a policy wording the model is told what the uploaded documents leave out
+  const coverage = coverageNote(documents);
+  if (coverage) {
+    console.log(`No policy wording uploaded - analyzing ${documents.map(d => d.kind).join(', ')} only`);
+  }
+
+  // Split long documents into section-aware chunks instead of truncating
+  const chunks = splitIntoChunks(policyText, CONFIG.maxDocChars);
+  const analyzedChunks = selectChunks(chunks, CONFIG.maxChunks);
+  if (chunks.length > analyzedChunks.length) {
+    console.warn(`Document has ${chunks.length} chunks, analyzing ${analyzedChunks.map(c => c.index + 1).join(', ')}`);
+  }
+  console.log(`[${Date.now() - startTime}ms] Using ${chunks.length} chunk(s): ${chunks.map(c => c.text.length).join(', ')} chars`);
+
+  // Analyze with Tool Use - one call per chunk, merged afterwards
+  console.log(`[${Date.now() - startTime}ms] Calling ${provider.name} ${provider.model} with Tool Use`);
+  emit('model_call_started', { provider: provider.name, model: provider.model, chunks: analyzedChunks.length });
+
+  // All model calls share one deadline; retries happen inside it
+  const ctx: CallContext = { deadline: startTime + CONFIG.timeoutMs, policy: CONFIG.retry, attempts: [] };
+
+  // The Customer Information Sheet is a fixed table - parsed without a model call
+  const cis = health ? parseCis(documents) : null;
+  if (cis) {
+    console.log(`CIS found in document ${cis.document + 1}, ${cis.rowsFound} rows`);
+  }
+
+  const extractFacts = async (text: string, languages: LanguageCode[]): Promise<PolicyFacts> => {
+    const docChunks = selectChunks(splitIntoChunks(text, CONFIG.maxDocChars), CONFIG.maxChunks);
+    const parts = await Promise.all(docChunks.map((chunk: DocumentChunk, i) =>
+      extractFactsWithModel(provider, ctx, chunk.text, { index: i, total: docChunks.length, languages })
+    ));
+    return mergeFacts(parts);
+  };
+
+  // Typed facts are best-effort - a failed facts call never fails the analysis.
+  // They are extracted per document so conflicting documents can be detected.
+  // The document holding the CIS has the table and the rest of its text
+  // extracted apart, so the CIS can be checked against the rest.
+  const factsPromise = !health ? Promise.resolve({ facts: null, conflicts: [], parts: [] }) : Promise.all(
+    documents.map(async (doc, document): Promise<DocumentFacts> => {
+      const docLanguages = detectLanguages(doc.text).languages;
+      if (cis?.document !== document) return { document, facts: await extractFacts(doc.text, docLanguages) };
+
+      const { start, end } = cis.span;
+      const rest = doc.text.substring(0, start) + doc.text.substring(end);
+      const [outsideCis, sheet] = await Promise.all([
+        rest.replace(/\[Page \d+\]/g, '').trim().length >= CONFIG.minFactsChars ? extractFacts(rest, docLanguages) : emptyFacts(),
+        extractFacts(doc.text.substring(start, end), docLanguages)
+      ]);
+      return { document, facts: mergeFacts([outsideCis, sheet]), outsideCis };
+    })
+  ).then((parts) => ({
+    facts: mergeDocumentFacts(parts, documents),
+    conflicts: findDocumentConflicts(parts, documents),
+    parts
+  })).catch((err) => {
+    console.error(`Fact extraction failed: ${err.message}`);
+    return { facts: null, conflicts: [], parts: [] as DocumentFacts[] };
+  });
+
+  // Only uploaded schedules are read - the wording never names the insured
+  const schedules = health ? documents.filter(d => d.kind === 'schedule') : [];
+  const schedulePromise = schedules.length === 0
+    ? Promise.resolve(null)
+    : Promise.all(schedules.map(async (doc) => normalizeSchedule(await extractScheduleWithModel(provider, ctx, doc.text))))
+      .then(mergeSchedules)
+      .catch((err) => {
+        console.error(`Schedule extraction failed: ${err.message}`);
+        return null;
+      });
+  const partResults = await Promise.all(
+    analyzedChunks.map((chunk: DocumentChunk, i) =>
+      analyzeWithModel(provider, ctx, analyzer, chunk.text, { index: i, total: analyzedChunks.length, documents: documents.length, languages }, profile, coverage)
+    )
+  );
+  const result = partResults.length === 1 ? partResults[0] : mergeChunkAnalyses(partResults);
+  console.log(`[${Date.now() - startTime}ms] Analysis complete`);
+
+  // Optional covers are evaluated apart from the base policy
+  separateAddOns(result);
+
+  // Preliminary categories - buckets may still change in post-processing
+  emit('categories_parsed', {
+    policyName: result.policyName,
+    insurer: result.insurer,
+    greatFeatures: result.greatFeatures || [],
+    goodFeatures: result.goodFeatures || [],
+    redFlags: result.redFlags || [],
+    needsClarification: result.needsClarification || []
+  });
+
+  // Optional second pass against the checklist - best-effort like facts
+  let reviewMeta: Record<string, unknown> = { enabled: false };
+  if (options.review) {
+    const reviewStart = Date.now();
+    // Long policies can spend most of the first-pass deadline, so the review gets its own
+    const reviewCtx: CallContext = { deadline: reviewStart + CONFIG.review.timeoutMs, policy: CONFIG.retry, attempts: [] };
+    try {
+      const reviewed = await reviewWithModel(provider, reviewCtx, analyzer, result, policyText);
+      if (countFeatures(reviewed) === 0 && countFeatures(result) > 0) {
+        throw new AnalysisError('MALFORMED_MODEL_OUTPUT', 'Self-review returned no features');
+      }
+      result.reviewChanges = diffReview(result, reviewed);
+      for (const bucket of ['greatFeatures', 'goodFeatures', 'redFlags', 'needsClarification'] as const) {
+        result[bucket] = reviewed[bucket] || [];
+      }
+      separateAddOns(result);
+      reviewMeta = { enabled: true, changes: result.reviewChanges.length, attempts: reviewCtx.attempts, durationMs: Date.now() - reviewStart };
+      console.log(`[${Date.now() - startTime}ms] Self-review made ${result.reviewChanges.length} change(s)`);
+    } catch (err) {
+      console.error(`Self-review failed, keeping first pass: ${(err as Error).message}`);
+      result.reviewChanges = [];
+      reviewMeta = { enabled: true, error: toErrorCode(err), attempts: reviewCtx.attempts, durationMs: Date.now() - reviewStart };
+    }
+  }
+
+  const { facts, conflicts, parts } = await factsPromise;
+  result.facts = facts;
+  // CIS values are checked against what the policy states outside the table, then fill the facts' gaps
+  const cisConflicts = cis
+    ? findCisConflicts(cis, mergeDocumentFacts(parts.map(p => ({ ...p, facts: p.outsideCis ?? p.facts })), documents), documents)
+    : [];
+  if (cis) {
+    result.facts = mergeFacts([facts ?? emptyFacts(), cisFacts(cis)]);
+  }
+  result.cis = cis;
+  const schedule = await schedulePromise;
+  result.schedule = schedule;
+
+  // Enforce classification tables - the model does not always follow them
+  result.reclassifications = health ? applyClassificationRules(result) : [];
+  console.log(`[${Date.now() - startTime}ms] Rules applied, ${result.reclassifications.length} moved`);
+
+  // Check every quote actually exists in the source text
+  const quoteCounts = verifyQuotes(result, policyText);
+  const quoteLanguages = tagQuoteLanguages(result);
+  console.log(`[${Date.now() - startTime}ms] Quotes verified`);
+
+  // Fix page references using where each quote was actually found
+  result.pageCorrections = correctPageReferences(result, policyText);
+
+  // Attribute findings to the uploaded document they came from
+  attributeSources(result, policyText, documents);
+  result.needsClarification = [...(result.needsClarification || []), ...conflicts, ...cisConflicts];
+  result.documents = documents.map(({ kind, name, text }) => {
+    const detected = classifyDocument(text, name);
+    return { kind, name, chars: text.length, languages: detectLanguages(text).languages, detected: { kind: detected.kind, confidence: detected.confidence } };
+  });
+  result.coverage = documentCoverage(documents.map(d => d.kind));
+  // The reader is told which pages weren't analyzed rather than left to assume full coverage
+  result.skipped = describeSkipped(policyText, chunks, analyzedChunks);
+
+  // Link add-ons to the final red flags
+  const addOnCounts = linkAddOns(result, schedule?.addOns.map(a => a.name), analyzer.addOns);
+
+  // Build summary from arrays
+  result.summary = {
+    great: result.greatFeatures?.length || 0,
+    good: result.goodFeatures?.length || 0,
+    redFlags: result.redFlags?.length || 0,
+    unclear: result.needsClarification?.length || 0
+  };
+
+  // Relevance to the buyer, decided by profile rules where the profile is explicit
+  const relevanceCounts = profile ? assessRelevance(result, profile) : null;
+
+  // Weighted 0-100 score, every deduction traced to a feature
+  result.score = scorePolicy(result, analyzer.scoring, analyzer.dimensions);
+
+  // Add disclaimer if not present
+  if (!result.disclaimer) {
+    result.disclaimer = "This analysis is for informational purposes only. Please verify details with your insurer before making decisions.";
+  }
+  result.language = DEFAULT_LANGUAGE;
+  result.insuranceType = analyzer.type;
+
+  // Add metadata
+  result._meta = {
+    version: CONFIG.version,
+    rulebookVersion: analyzer.rulebookVersion,
+    provider: provider.name,
+    model: provider.model,
+    processingTimeMs: Date.now() - startTime,
+    chunks: summarizeChunks(chunks, analyzedChunks),
+    quotes: quoteCounts,
+    quoteLanguages,
+    attempts: ctx.attempts,
+    review: reviewMeta,
+    addOns: addOnCounts,
+    relevance: relevanceCounts,
+    cis: cis ? { rowsFound: cis.rowsFound, conflicts: cisConflicts.length } : null,
+    cacheHit: false
+  };
+
+  emit('post_processing_done', { summary: result.summary });
+  console.log(`[${Date.now() - startTime}ms] Done - ${result.summary.great}G ${result.summary.good}OK ${result.summary.redFlags}RF ${result.summary.unclear}?`);
+
+  return result;
 }
 
 // ╔═══════════════════════════════════════════════════════════════════════════╗
@@ -346,88 +763,118 @@ serve(async (req) => {
   }
 
   try {
-    const { policyText } = await req.json();
-    console.log(`[${Date.now() - startTime}ms] Received ${policyText?.length || 0} chars`);
-
-    if (!policyText) {
-      return new Response(
-        JSON.stringify({ error: "No policy text provided" }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    const body = await req.json();
+    const { bypassCache, stream, review } = body;
+
+    // Pick the model backend (LLM_PROVIDER) - throws CONFIG_ERROR if its API key is missing
+    const provider = createProvider({
+      maxTokens: CONFIG.maxTokens,
+      temperature: CONFIG.temperature,
+      timeoutMs: CONFIG.timeoutMs
+    });
 
-    // Get API key
-    const apiKey = Deno.env.get('CLAUDE_API_KEY') || Deno.env.get('ANTHROPIC_API_KEY');
-    if (!apiKey) {
-      return new Response(
-        JSON.stringify({ error: "Claude API key not configured" }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    // Translate-only: { translate: <English report>, language } - no documents, no quota
+    if (body.translate !== undefined) {
+      return jsonResponse(await translateReport(provider, body.translate, body.language, bypassCache === true));
     }
 
-    // Validate document
-    const validation = validateDocument(policyText);
-    if (!validation.valid) {
-      return new Response(
-        JSON.stringify({ error: validation.error }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-    console.log(`[${Date.now() - startTime}ms] Validation passed`);
-
-    // Truncate if needed
-    const docText = policyText.length > CONFIG.maxDocChars 
-      ? policyText.substring(0, CONFIG.maxDocChars) + "\n\n[Document truncated]"
-      : policyText;
-    console.log(`[${Date.now() - startTime}ms] Using ${docText.length} chars`);
-
-    // Analyze with Claude Tool Use
-    console.log(`[${Date.now() - startTime}ms] Calling Claude ${CONFIG.model} with Tool Use`);
-    const result = await analyzeWithClaude(apiKey, docText);
-    console.log(`[${Date.now() - startTime}ms] Analysis complete`);
-
-    // Build summary from arrays
-    result.summary = {
-      great: result.greatFeatures?.length || 0,
-      good: result.goodFeatures?.length || 0,
-      redFlags: result.redFlags?.length || 0,
-      unclear: result.needsClarification?.length || 0
+    const options: RunOptions = {
+      review: review === true,
+      profile: parseProfile(body.profile),
+      language: isLanguageCode(body.language) ? body.language : DEFAULT_LANGUAGE
     };
 
-    // Add disclaimer if not present
-    if (!result.disclaimer) {
-      result.disclaimer = "This analysis is for informational purposes only. Please verify details with your insurer before making decisions.";
+    // Either { documents: [{ kind, name, text }] } or a single { policyText }
+    const documents = parseDocuments(body, CONFIG.maxDocuments);
+    const policyText = combineDocuments(documents);
+    console.log(`[${Date.now() - startTime}ms] Received ${documents.length} document(s), ${policyText.length} chars`);
+
+    if (documents.length === 0) {
+      return errorResponse('NO_POLICY_TEXT');
     }
 
-    // Add metadata
-    result._meta = {
-      version: CONFIG.version,
-      model: CONFIG.model,
-      processingTimeMs: Date.now() - startTime
+    // Validate document and pick the analyzer for its insurance type
+    const validation = validateDocument(documents);
+    if (validation.valid === false) {
+      return errorResponse(validation.code);
+    }
+    const analyzer = ANALYZERS[validation.type];
+    if (analyzer.problems.length > 0) {
+      throw new AnalysisError('CONFIG_ERROR', `${INSURANCE_TYPES[analyzer.type].label} rulebook inconsistent: ${analyzer.problems.join('; ')}`);
+    }
+    console.log(`[${Date.now() - startTime}ms] Validation passed, ${analyzer.type} policy`);
+
+    // Look up a previous analysis of the same text with the same prompts/model
+    const serviceClient = createServiceClient();
+    // Reviewed, unreviewed, per-profile and wording-less results are cached separately
+    const coverage = documentCoverage(documents.map(d => d.kind));
+    const variant = [
+      options.review ? ':review' : '',
+      coverage.complete ? '' : `:coverage:${[...new Set(documents.map(d => d.kind))].sort().join(',')}`,
+      options.profile && analyzer.type === 'health' ? `:profile:${await sha256Hex(describeProfile(options.profile))}` : ''
+    ].join('');
+    const cacheParts = { version: CONFIG.version, model: provider.model, promptHash: `${await promptHash(analyzer)}${variant}` };
+    const cacheKey = await buildCacheKey({ policyText, ...cacheParts });
+
+    // Translated reports have their own key; the English analysis is reused for every language
+    const languageParts = options.language === DEFAULT_LANGUAGE
+      ? null
+      : { ...cacheParts, promptHash: `${cacheParts.promptHash}:lang:${options.language}:${await TRANSLATION_HASH}` };
+    const languageKey = languageParts ? await buildCacheKey({ policyText, ...languageParts }) : null;
+
+    const lookup = async (key: string) => serviceClient && !bypassCache ? await getCachedAnalysis(serviceClient, key) : null;
+    const localized = languageKey ? await lookup(languageKey) : null;
+    const cached = localized ?? await lookup(cacheKey);
+    // A cached English analysis still needs a model call to translate it
+    const complete = !!localized || (!!cached && !languageKey);
+
+    if (cached) {
+      console.log(`[${Date.now() - startTime}ms] Cache hit ${(localized ? languageKey! : cacheKey).substring(0, 12)}${complete ? '' : ', translating'}`);
+      cached._meta = {
+        ...(cached._meta as Record<string, unknown>),
+        processingTimeMs: Date.now() - startTime,
+        cacheHit: true
+      };
+    }
+    if (!complete && serviceClient) {
+      // Only requests that will call the model count against the caller's quota
+      const caller = await identifyCaller(req, serviceClient);
+      const quota = caller.authenticated ? CONFIG.quotas.authenticated : CONFIG.quotas.anonymous;
+      const decision = await consumeQuota(serviceClient, caller, quota);
+      if (!decision.allowed) {
+        return errorResponse('QUOTA_EXCEEDED', decision.retryAfterMs);
+      }
+    }
+
+    const produce = async (emit: ProgressEmitter): Promise<Record<string, unknown>> => {
+      if (cached && complete) return cached;
+
+      const english = cached ?? await runAnalysis(provider, analyzer, { documents, text: policyText }, startTime, emit, options);
+      if (!cached && serviceClient) {
+        await storeAnalysis(serviceClient, cacheKey, cacheParts, english);
+      }
+      if (!languageKey || !languageParts) return english;
+
+      const result = await localizeAnalysis(provider, english, options.language);
+      if (serviceClient && result.language === options.language) {
+        await storeAnalysis(serviceClient, languageKey, languageParts, result);
+      }
+      return result;
     };
 
-    console.log(`[${Date.now() - startTime}ms] Done - ${result.summary.great}G ${result.summary.good}OK ${result.summary.redFlags}RF ${result.summary.unclear}?`);
-
-    return new Response(
-      JSON.stringify(result),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
-
-  } catch (error: any) {
-    console.error(`Error: ${error.message}`);
-    
-    let userMessage = "Analysis failed. Please try again.";
-    if (error.message?.includes('API key')) {
-      userMessage = "API key error. Please check configuration.";
-    } else if (error.message?.includes('timeout') || error.message?.includes('abort')) {
-      userMessage = "Analysis timed out. Please try again.";
-    } else if (error.message?.includes('tool')) {
-      userMessage = "Analysis parsing error. Please try again.";
+    if (stream) {
+      return sseResponse(corsHeaders, async (send) => {
+        send('stage', { stage: 'validated', elapsedMs: Date.now() - startTime });
+        const emit: ProgressEmitter = (stage, payload) =>
+          send('stage', { stage, elapsedMs: Date.now() - startTime, ...payload });
+        send('result', await produce(emit));
+      }, (error) => describeError(error).body);
     }
 
-    return new Response(
-      JSON.stringify({ error: userMessage, _debug: error.message }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse(await produce(noProgress));
+
+  } catch (error) {
+    const { status, body } = describeError(error);
+    return jsonResponse(body, status);
   }
 });
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { buildPageIndex, correctPageReferences, pageAt, pageReference, type PagedFeature } from "./pages.ts";
+
+const TEXT = "[Page 1]\nTable of contents\n\n[Page 2]\nSection 3 Exclusions\n\n[Page 3]\nSection 4 Claims";
+
+describe("pageAt", () => {
+  const index = buildPageIndex(TEXT);
+
+  it("finds the page an offset falls on", () => {
+    expect(pageAt(index, TEXT.indexOf("Exclusions"))).toBe(2);
+    expect(pageAt(index, TEXT.length - 1)).toBe(3);
+  });
+
+  it("is null for text without page markers", () => {
+    expect(pageAt(buildPageIndex("No markers here"), 3)).toBeNull();
+  });
+});
+
+describe("pageReference", () => {
+  it("keeps a reference that already names the page", () => {
+    expect(pageReference(" Page 4, Section 2 ", 4)).toBe("Page 4, Section 2");
+  });
+
+  it("rewrites a wrong page and adds a missing one", () => {
+    expect(pageReference("Section 2, p. 7", 4)).toBe("Section 2, Page 4");
+    expect(pageReference("Section 2", 4)).toBe("Page 4, Section 2");
+    expect(pageReference(undefined, 4)).toBe("Page 4");
+  });
+});
+
+describe("correctPageReferences", () => {
+  const feature = (reference: string, start?: number): PagedFeature => ({
+    name: reference,
+    policyStates: "",
+    reference,
+    explanation: "",
+    verification: start === undefined ? { status: "not_found", score: 0 } : { status: "verified", score: 1, start, end: start + 5 }
+  });
+
+  it("sets the page of located quotes and corrects their references", () => {
+    const result = {
+      redFlags: [feature("Page 2, Section 3", TEXT.indexOf("Exclusions")), feature("Page 1", TEXT.indexOf("Claims"))],
+      needsClarification: [feature("Page 9")]
+    };
+    const corrections = correctPageReferences(result, TEXT);
+    expect(result.redFlags.map(f => [f.page, f.reference])).toEqual([[2, "Page 2, Section 3"], [3, "Page 3"]]);
+    expect(corrections).toEqual([{ feature: "Page 1", from: "Page 1", to: "Page 3" }]);
+    expect(result.needsClarification[0].reference).toBe("Page 9");
+    expect(result.needsClarification[0].page).toBeUndefined();
+  });
+});
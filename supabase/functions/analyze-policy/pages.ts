@@ -0,0 +1,101 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ PAGE REFERENCES - Corrects "Page N" references from where quotes were found║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// extractTextFromPDF prefixes each page with a "[Page N]" marker. Once a quote
+// has been located by the verifier, the page it sits on is known exactly, so
+// the model's guessed reference is checked and rewritten when it disagrees.
+
+import type { Bucket } from "./rules.ts";
+import type { VerifiedFeature } from "./quotes.ts";
+
+// Must match pageMarker() in src/utils/pdfExtractor.ts
+const PAGE_MARKER_PATTERN = /\[Page (\d+)\]/g;
+
+const BUCKETS: Bucket[] = ['greatFeatures', 'goodFeatures', 'redFlags', 'needsClarification'];
+
+export type PagedFeature = VerifiedFeature & { page?: number };
+
+export interface PageCorrection {
+  feature: string;
+  from: string;
+  to: string;
+}
+
+interface PageStart {
+  page: number;
+  offset: number;
+}
+
+export function buildPageIndex(text: string): PageStart[] {
+  const starts: PageStart[] = [];
+  for (const m of text.matchAll(PAGE_MARKER_PATTERN)) {
+    starts.push({ page: Number(m[1]), offset: m.index! });
+  }
+  return starts;
+}
+
+/** Page containing a character offset, or null if the text has no markers */
+export function pageAt(index: PageStart[], offset: number): number | null {
+  let page: number | null = null;
+  for (const start of index) {
+    if (start.offset > offset) break;
+    page = start.page;
+  }
+  return page ?? index[0]?.page ?? null;
+}
+
+function referencedPage(reference?: string): number | null {
+  const match = /\bp(?:age|g)?\.?\s*(\d+)/i.exec(reference || '');
+  return match ? Number(match[1]) : null;
+}
+
+function withPage(reference: string | undefined, page: number): string {
+  const trimmed = (reference || '').trim();
+  if (!trimmed) return `Page ${page}`;
+  if (referencedPage(trimmed) !== null) {
+    return trimmed.replace(/\bp(?:age|g)?\.?\s*\d+/i, `Page ${page}`);
+  }
+  return `Page ${page}, ${trimmed}`;
+}
+
+/** `reference` naming `page`, rewritten only if it names no page or another one */
+export function pageReference(reference: string | undefined, page: number): string {
+  return referencedPage(reference) === page ? (reference || '').trim() : withPage(reference, page);
+}
+
+/**
+ * Sets `page` on every feature whose quote was located and rewrites its
+ * reference if the stated page is missing or wrong. Must run after
+ * verifyQuotes. Returns the corrections made.
+ */
+export function correctPageReferences(
+  result: Partial<Record<Bucket, PagedFeature[]>>,
+  policyText: string
+): PageCorrection[] {
+  const index = buildPageIndex(policyText);
+  const corrections: PageCorrection[] = [];
+  if (index.length === 0) return corrections;
+
+  for (const bucket of BUCKETS) {
+    for (const feature of result[bucket] || []) {
+      const start = feature.verification?.start;
+      if (start === undefined) continue;
+
+      const page = pageAt(index, start);
+      if (page === null) continue;
+      feature.page = page;
+
+      if (referencedPage(feature.reference) !== page) {
+        const corrected = withPage(feature.reference, page);
+        corrections.push({ feature: feature.name, from: feature.reference || '', to: corrected });
+        feature.reference = corrected;
+      }
+    }
+  }
+
+  if (corrections.length > 0) {
+    console.log(`Corrected ${corrections.length} page reference(s)`);
+  }
+  return corrections;
+}
@@ -0,0 +1,211 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ PROMPTS - System prompt, tool descriptions and reminders from the rulebook ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// Nothing here states a threshold directly - every number comes from the
+// rulebook, so the prompt, the tool schema and the rule engine cannot drift.
+// Life, motor and home prompts are rendered from their TYPE_RULEBOOKS entry.
+
+import { GRADE_LABEL, bandRange, exampleLabel, gradeFor, type AddOnRule, type Grade, type Rulebook, type ThresholdExample, type ThresholdId } from "./rulebook.ts";
+import type { TypeRulebook } from "./typeRulebooks.ts";
+
+export type ToolDescriptions = Record<'greatFeatures' | 'goodFeatures' | 'redFlags' | 'addOns', string>;
+
+const RULE = '══════════════════════════════════════════════════════════════';
+
+const WAITING: ThresholdId[] = ['pedMonths', 'specificIllnessMonths', 'initialDays'];
+const GRADES: Grade[] = ['great', 'good', 'red'];
+
+function section(title: string, lines: string[]): string {
+  return `${RULE}\n${title}\n${RULE}\n${lines.join('\n')}`;
+}
+
+function table(header: string[], rows: string[][]): string {
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+  const line = (cells: string[]) => `| ${cells.map((c, i) => c.padEnd(widths[i])).join(' | ')} |`;
+  return [line(header), `|${widths.map(w => '-'.repeat(w + 2)).join('|')}|`, ...rows.map(line)].join('\n');
+}
+
+const bullets = (items: string[]) => items.map(i => `- ${i}`);
+const range = ({ min, max }: { min: number; max: number }) => `${min}-${max}`;
+
+/** Threshold-derived lines for one grade, e.g. "PED: 13-48 months" */
+function thresholdLines(rulebook: Rulebook, grade: Grade): string[] {
+  return [...WAITING.map(id => `${rulebook.thresholds[id].label}: ${bandRange(rulebook.thresholds[id].bands, grade)}`), prePost(rulebook, grade)];
+}
+
+function prePost(rulebook: Rulebook, grade: Grade): string {
+  const { preHospDays, postHospDays } = rulebook.thresholds;
+  return `${preHospDays.label}: ${bandRange(preHospDays.bands, grade)}, ${postHospDays.label}: ${bandRange(postHospDays.bands, grade)}`;
+}
+
+function roomRentLines(rulebook: Rulebook, grade: Grade): string[] {
+  return Object.values(rulebook.roomRent)
+    .filter(r => r.grade === grade)
+    .map(r => (/^room rent/i.test(r.term) ? r.term : `Room rent: ${r.term}`));
+}
+
+/** Everything the rulebook places in a grade, thresholds first */
+function gradeLines(rulebook: Rulebook, grade: Grade): string[] {
+  return [...thresholdLines(rulebook, grade), ...roomRentLines(rulebook, grade), ...rulebook.features[grade]];
+}
+
+function exampleGrade(rulebook: Rulebook, example: ThresholdExample): string {
+  return GRADE_LABEL[gradeFor(rulebook.thresholds[example.threshold].bands, example.value)];
+}
+
+const searchedRedFlags = (rulebook: Rulebook) => Object.values(rulebook.roomRent).filter(r => r.search);
+
+export function renderSystemPrompt(rulebook: Rulebook): string {
+  const { thresholds } = rulebook;
+
+  const waitingTable = table(
+    ['Type', ...GRADES.map(g => GRADE_LABEL[g])],
+    WAITING.map(id => [thresholds[id].label, ...GRADES.map(g => bandRange(thresholds[id].bands, g))])
+  );
+  const roomRentTable = table(
+    ['Term', 'Category'],
+    Object.values(rulebook.roomRent).map(r => [r.term, GRADE_LABEL[r.grade]])
+  );
+  const prePostTable = table(
+    [thresholds.preHospDays.label, thresholds.postHospDays.label, 'Category'],
+    GRADES.map(g => [bandRange(thresholds.preHospDays.bands, g), bandRange(thresholds.postHospDays.bands, g), GRADE_LABEL[g]])
+  );
+
+  return [
+    `You are an expert Indian health insurance policy analyzer.`,
+    section('CLASSIFICATION RULES - FOLLOW EXACTLY', [
+      '',
+      'WAITING PERIODS:', waitingTable,
+      '',
+      'ROOM RENT:', roomRentTable,
+      '',
+      'PRE/POST HOSPITALIZATION:', prePostTable
+    ]),
+    section('GREAT FEATURES (Better than market)', bullets(gradeLines(rulebook, 'great'))),
+    section('GOOD FEATURES (Market standard)', bullets(gradeLines(rulebook, 'good'))),
+    section('RED FLAGS (Must flag if present)', bullets(gradeLines(rulebook, 'red'))),
+    section('NEVER FLAG AS RED FLAG', [
+      ...bullets(rulebook.neverFlag.examples.map(e => `${exampleLabel(rulebook, e)} (${exampleGrade(rulebook, e)})`)),
+      ...bullets(rulebook.neverFlag.items),
+      '',
+      'STANDARD IRDAI EXCLUSIONS (never mention):',
+      rulebook.irdaiStandardExclusions.join(', ')
+    ]),
+    section('UNCLEAR (Only if genuinely vague)', [
+      ...bullets(rulebook.unclear.include),
+      '',
+      `NOT unclear: ${rulebook.unclear.exclude.join(', ')}`
+    ]),
+    section('OUTPUT', outputLines(rulebook.output)),
+    section('MUST INCLUDE (if in policy)', [rulebook.mustInclude.join(', ')]),
+    section('OPTIONAL ADD-ONS / RIDERS', addOnLines(rulebook.addOns)),
+    section('CHECKLIST BEFORE SUBMIT', checklistLines(rulebook))
+  ].join('\n\n');
+}
+
+function outputLines(output: Rulebook['output']): string[] {
+  return [
+    `- GREAT: ${range(output.great)} features`,
+    `- GOOD: ${range(output.good)} features`,
+    '- RED FLAGS: All genuine issues (specific only)',
+    '- UNCLEAR: Only vague items',
+    '',
+    'Each feature needs: name, quote (<100 chars), reference, explanation (1-2 sentences, use "you/your")',
+    'The policy text contains [Page N] markers - use them for the page in each reference.'
+  ];
+}
+
+function addOnLines(addOns: AddOnRule[]): string[] {
+  return [
+    'Covers the buyer can add for an extra premium go in addOns - NEVER in the feature buckets.',
+    'Judge the base policy without them: a red flag an add-on removes is still a RED FLAG.',
+    'For each add-on give its price if stated, the red flags it removes (by their exact names) and a verdict.',
+    'Add-ons that remove base-policy red flags:',
+    ...bullets(addOns.map(a => `${a.name} → removes ${a.neutralises.join(' / ')} red flags`))
+  ];
+}
+
+/** CHECKLIST BEFORE SUBMIT - also sent with the self-review request */
+export function checklistLines(rulebook: Rulebook): string[] {
+  return [
+    ...rulebook.neverFlag.examples.map(e => `□ ${exampleLabel(rulebook, e)} in ${exampleGrade(rulebook, e)}`),
+    `□ ${prePost(rulebook, 'great')} in GREAT`,
+    ...searchedRedFlags(rulebook).map(r => `□ ${r.term} in RED FLAG (if exists)`),
+    ...rulebook.checklist.map(c => `□ ${c}`)
+  ];
+}
+
+/** Descriptions for the submit_policy_analysis arrays */
+export function renderToolDescriptions(rulebook: Rulebook): ToolDescriptions {
+  const mustInclude = (lines: string[]) => `MUST include if present: ${lines.join('; ')}.`;
+  return {
+    greatFeatures: `${range(rulebook.output.great)} best-in-class features that exceed industry standards`,
+    goodFeatures: `${range(rulebook.output.good)} features that meet industry standards. ${mustInclude(thresholdLines(rulebook, 'good'))}`,
+    redFlags: `ALL concerning clauses. ${mustInclude([...thresholdLines(rulebook, 'red'), ...roomRentLines(rulebook, 'red')])}`,
+    addOns: `Optional add-ons and riders, evaluated separately from the base policy. Look especially for: ${rulebook.addOns.map(a => a.name).join(', ')}.`
+  };
+}
+
+/** REMEMBER / MUST FLAG block added to every analysis request */
+export function renderReminder(rulebook: Rulebook): string {
+  const remember = [
+    ...rulebook.neverFlag.examples.map(e => `- ${exampleLabel(rulebook, e)} = ${exampleGrade(rulebook, e)}`),
+    ...searchedRedFlags(rulebook).map(r => `- ${r.term} = RED FLAG (if present)`),
+    `- ${prePost(rulebook, 'great')} = GREAT`
+  ];
+  const mustFlag = searchedRedFlags(rulebook).map(r => `- ${r.term} - search for ${r.search}`);
+
+  return `REMEMBER:\n${remember.join('\n')}\n\nMUST FLAG AS RED FLAG (if present in policy):\n${mustFlag.join('\n')}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Life, motor and home - same sections, without threshold tables
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function renderTypeSystemPrompt(rulebook: TypeRulebook): string {
+  return [
+    `You are an expert ${rulebook.subject} analyzer.`,
+    section('GREAT FEATURES (Better than market)', bullets(rulebook.features.great)),
+    section('GOOD FEATURES (Market standard)', bullets(rulebook.features.good)),
+    section('RED FLAGS (Must flag if present)', bullets(rulebook.features.red)),
+    section('NEVER FLAG AS RED FLAG', [
+      ...bullets(rulebook.neverFlag),
+      '',
+      'STANDARD EXCLUSIONS (never mention):',
+      rulebook.standardExclusions.join(', ')
+    ]),
+    section('UNCLEAR (Only if genuinely vague)', [
+      ...bullets(rulebook.unclear.include),
+      '',
+      `NOT unclear: ${rulebook.unclear.exclude.join(', ')}`
+    ]),
+    section('OUTPUT', outputLines(rulebook.output)),
+    section('MUST INCLUDE (if in policy)', [rulebook.mustInclude.join(', ')]),
+    section('OPTIONAL ADD-ONS / RIDERS', addOnLines(rulebook.addOns)),
+    section('CHECKLIST BEFORE SUBMIT', typeChecklistLines(rulebook))
+  ].join('\n\n');
+}
+
+export function typeChecklistLines(rulebook: TypeRulebook): string[] {
+  return [
+    ...rulebook.searched.map(r => `□ ${r.term} in RED FLAG (if exists)`),
+    ...rulebook.checklist.map(c => `□ ${c}`)
+  ];
+}
+
+export function renderTypeToolDescriptions(rulebook: TypeRulebook): ToolDescriptions {
+  return {
+    greatFeatures: `${range(rulebook.output.great)} best-in-class features that exceed industry standards`,
+    goodFeatures: `${range(rulebook.output.good)} features that meet industry standards. Cover if present: ${rulebook.mustInclude.join('; ')}.`,
+    redFlags: `ALL concerning clauses. MUST include if present: ${rulebook.searched.map(r => r.term).join('; ')}.`,
+    addOns: `Optional add-ons and riders, evaluated separately from the base policy. Look especially for: ${rulebook.addOns.map(a => a.name).join(', ')}.`
+  };
+}
+
+export function renderTypeReminder(rulebook: TypeRulebook): string {
+  const remember = rulebook.neverFlag.map(item => `- ${item} = never a RED FLAG`);
+  const mustFlag = rulebook.searched.map(r => `- ${r.term} - search for ${r.search}`);
+
+  return `REMEMBER:\n${remember.join('\n')}\n\nMUST FLAG AS RED FLAG (if present in policy):\n${mustFlag.join('\n')}`;
+}
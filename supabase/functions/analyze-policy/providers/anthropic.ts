@@ -0,0 +1,84 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ ANTHROPIC - Messages API with forced tool use                              ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+
+import type { LLMProvider, ProviderOptions, ToolRequest } from "./types.ts";
+import { AnalysisError, fetchUpstream, upstreamError } from "../errors.ts";
+
+const DEFAULT_MODEL = "claude-3-5-haiku-20241022";
+
+interface ContentBlock {
+  type: string;
+  name?: string;
+  input?: unknown;
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+
+  constructor(private apiKey: string, private options: ProviderOptions) {
+    this.model = options.model || DEFAULT_MODEL;
+  }
+
+  async callTool<T>({ system, tool, document, timeoutMs }: ToolRequest): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs ?? this.options.timeoutMs);
+
+    try {
+      const response = await fetchUpstream('Claude', 'https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': '2023-06-01'
+        },
+        signal: controller.signal,
+        body: JSON.stringify({
+          model: this.model,
+          max_tokens: this.options.maxTokens,
+          temperature: this.options.temperature,
+          system,
+          tools: [tool],
+          tool_choice: { type: "tool", name: tool.name },
+          messages: [{ role: 'user', content: document }]
+        })
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error(`Claude API error: ${response.status}`, error.substring(0, 500));
+        throw upstreamError('Claude', response.status, error, response.headers);
+      }
+
+      const data = await response.json();
+      const content: ContentBlock[] = data.content || [];
+      console.log(`Claude response received, content blocks: ${content.length}`);
+
+      // Find the tool_use block in the response
+      const toolUseBlock = content.find(block => block.type === 'tool_use');
+
+      if (!toolUseBlock) {
+        console.error('No tool_use block found in response:', JSON.stringify(content.map(c => c.type)));
+        throw new AnalysisError('MALFORMED_MODEL_OUTPUT', 'Claude did not return tool use response');
+      }
+
+      if (toolUseBlock.name !== tool.name) {
+        console.error(`Unexpected tool: ${toolUseBlock.name}`);
+        throw new AnalysisError('MALFORMED_MODEL_OUTPUT', `Unexpected tool response: ${toolUseBlock.name}`);
+      }
+
+      // The input is already a parsed object - no JSON parsing needed!
+      const result = toolUseBlock.input;
+
+      if (!result || typeof result !== 'object') {
+        throw new AnalysisError('MALFORMED_MODEL_OUTPUT', 'Invalid tool input structure');
+      }
+
+      return result as T;
+
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
@@ -0,0 +1,52 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ PROVIDER SELECTION - LLM_PROVIDER = anthropic | openai | replay            ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// Environment:
+//   LLM_PROVIDER        anthropic (default), openai or replay
+//   LLM_MODEL           overrides the provider's default model
+//   CLAUDE_API_KEY / ANTHROPIC_API_KEY   for anthropic
+//   OPENAI_API_KEY, OPENAI_BASE_URL      for openai (base URL optional)
+//   LLM_REPLAY_DIR      fixture directory for replay (default ./fixtures)
+//   LLM_REPLAY_RECORD   anthropic | openai - record missing fixtures from it
+
+import { AnthropicProvider } from "./anthropic.ts";
+import { OpenAICompatibleProvider } from "./openai.ts";
+import { ReplayProvider } from "./replay.ts";
+import type { LLMProvider, ProviderOptions } from "./types.ts";
+import { AnalysisError } from "../errors.ts";
+
+export type { LLMProvider, ToolRequest, ToolSchema } from "./types.ts";
+
+function createBackend(name: string, options: ProviderOptions): LLMProvider {
+  switch (name) {
+    case 'anthropic': {
+      const apiKey = Deno.env.get('CLAUDE_API_KEY') || Deno.env.get('ANTHROPIC_API_KEY');
+      if (!apiKey) throw new AnalysisError('CONFIG_ERROR', "Claude API key not configured");
+      return new AnthropicProvider(apiKey, options);
+    }
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) throw new AnalysisError('CONFIG_ERROR', "OpenAI API key not configured");
+      return new OpenAICompatibleProvider(apiKey, options, Deno.env.get('OPENAI_BASE_URL'));
+    }
+    default:
+      throw new AnalysisError('CONFIG_ERROR', `Unknown LLM provider: ${name}`);
+  }
+}
+
+/** Builds the provider named by LLM_PROVIDER. Throws a CONFIG_ERROR AnalysisError if misconfigured. */
+export function createProvider(options: Omit<ProviderOptions, 'model'>): LLMProvider {
+  const name = (Deno.env.get('LLM_PROVIDER') || 'anthropic').toLowerCase();
+  const withModel: ProviderOptions = { ...options, model: Deno.env.get('LLM_MODEL') || undefined };
+
+  if (name === 'replay') {
+    const record = Deno.env.get('LLM_REPLAY_RECORD');
+    return new ReplayProvider(
+      Deno.env.get('LLM_REPLAY_DIR') || './fixtures',
+      record ? createBackend(record.toLowerCase(), withModel) : undefined
+    );
+  }
+
+  return createBackend(name, withModel);
+}
@@ -0,0 +1,94 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ OPENAI-COMPATIBLE - Chat Completions with a forced function call           ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// Works with OpenAI and any server exposing the same /chat/completions API
+// (Azure OpenAI proxies, vLLM, Ollama, OpenRouter, ...).
+
+import type { LLMProvider, ProviderOptions, ToolRequest } from "./types.ts";
+import { AnalysisError, fetchUpstream, upstreamError } from "../errors.ts";
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+interface ToolCall {
+  type: string;
+  function?: { name: string; arguments: string };
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private baseUrl: string;
+
+  constructor(private apiKey: string, private options: ProviderOptions, baseUrl?: string) {
+    this.model = options.model || DEFAULT_MODEL;
+    this.baseUrl = (baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  }
+
+  async callTool<T>({ system, tool, document, timeoutMs }: ToolRequest): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs ?? this.options.timeoutMs);
+
+    try {
+      const response = await fetchUpstream('OpenAI-compatible', `${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.apiKey}`
+        },
+        signal: controller.signal,
+        body: JSON.stringify({
+          model: this.model,
+          max_tokens: this.options.maxTokens,
+          temperature: this.options.temperature,
+          messages: [
+            { role: 'system', content: system },
+            { role: 'user', content: document }
+          ],
+          tools: [{
+            type: 'function',
+            function: { name: tool.name, description: tool.description, parameters: tool.input_schema }
+          }],
+          tool_choice: { type: 'function', function: { name: tool.name } }
+        })
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error(`OpenAI-compatible API error: ${response.status}`, error.substring(0, 500));
+        throw upstreamError('OpenAI-compatible', response.status, error, response.headers);
+      }
+
+      const data = await response.json();
+      const toolCalls: ToolCall[] = data.choices?.[0]?.message?.tool_calls || [];
+      console.log(`OpenAI-compatible response received, tool calls: ${toolCalls.length}`);
+
+      const call = toolCalls.find(c => c.type === 'function');
+      if (!call?.function) {
+        throw new AnalysisError('MALFORMED_MODEL_OUTPUT', 'Model did not return tool use response');
+      }
+
+      if (call.function.name !== tool.name) {
+        console.error(`Unexpected tool: ${call.function.name}`);
+        throw new AnalysisError('MALFORMED_MODEL_OUTPUT', `Unexpected tool response: ${call.function.name}`);
+      }
+
+      let result: unknown;
+      try {
+        result = JSON.parse(call.function.arguments);
+      } catch {
+        throw new AnalysisError('MALFORMED_MODEL_OUTPUT', 'Invalid tool input structure: arguments are not valid JSON');
+      }
+
+      if (!result || typeof result !== 'object') {
+        throw new AnalysisError('MALFORMED_MODEL_OUTPUT', 'Invalid tool input structure');
+      }
+
+      return result as T;
+
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
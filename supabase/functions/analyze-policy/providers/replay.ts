@@ -0,0 +1,63 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ REPLAY - File-backed deterministic stub for local development              ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// Looks up `<dir>/<tool>-<hash>.json` (hash of system prompt + document) and
+// falls back to `<dir>/<tool>.json`. When a recording provider is given, a
+// missing file is fetched from it and written, so fixtures can be captured
+// from a real backend once and replayed offline afterwards.
+
+import type { LLMProvider, ToolRequest } from "./types.ts";
+import { AnalysisError } from "../errors.ts";
+
+async function requestHash({ system, document }: ToolRequest): Promise<string> {
+  const bytes = new TextEncoder().encode(`${system}\n\n${document}`);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('').substring(0, 16);
+}
+
+async function readJson(path: string): Promise<unknown | null> {
+  try {
+    return JSON.parse(await Deno.readTextFile(path));
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) return null;
+    throw err;
+  }
+}
+
+export class ReplayProvider implements LLMProvider {
+  readonly name = 'replay';
+  readonly model: string;
+
+  constructor(private dir: string, private recorder?: LLMProvider) {
+    this.model = recorder ? `replay:${recorder.model}` : 'replay';
+  }
+
+  async callTool<T>(request: ToolRequest): Promise<T> {
+    const hash = await requestHash(request);
+    const exactPath = `${this.dir}/${request.tool.name}-${hash}.json`;
+
+    const exact = await readJson(exactPath);
+    if (exact) {
+      console.log(`Replay hit: ${exactPath}`);
+      return exact as T;
+    }
+
+    if (this.recorder) {
+      const result = await this.recorder.callTool<T>(request);
+      await Deno.mkdir(this.dir, { recursive: true });
+      await Deno.writeTextFile(exactPath, JSON.stringify(result, null, 2));
+      console.log(`Replay recorded: ${exactPath}`);
+      return result;
+    }
+
+    const fallbackPath = `${this.dir}/${request.tool.name}.json`;
+    const fallback = await readJson(fallbackPath);
+    if (fallback) {
+      console.log(`Replay fallback: ${fallbackPath}`);
+      return fallback as T;
+    }
+
+    throw new AnalysisError('CONFIG_ERROR', `Replay fixture not found for tool ${request.tool.name} (looked for ${exactPath})`);
+  }
+}
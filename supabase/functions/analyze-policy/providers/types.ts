@@ -0,0 +1,36 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ LLM PROVIDER INTERFACE                                                     ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+
+export interface ToolSchema {
+  name: string;
+  description: string;
+  input_schema: Record<string, unknown>;
+}
+
+export interface ToolRequest {
+  system: string;
+  tool: ToolSchema;
+  // User message: instructions followed by the policy text
+  document: string;
+  // Overrides ProviderOptions.timeoutMs for this call (used to honour a deadline)
+  timeoutMs?: number;
+}
+
+export interface ProviderOptions {
+  model?: string;
+  maxTokens: number;
+  temperature: number;
+  timeoutMs: number;
+}
+
+/**
+ * A backend that forces the model to call `tool` and returns the tool input
+ * as a parsed object. Implementations throw on HTTP errors, timeouts and
+ * responses without the requested tool call.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  callTool<T>(request: ToolRequest): Promise<T>;
+}
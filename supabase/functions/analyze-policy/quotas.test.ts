@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { clientIp } from "./quotas.ts";
+
+const request = (headers: Record<string, string>) => new Request("https://example.test", { headers });
+
+describe("clientIp", () => {
+  it("takes the entry our single proxy appended by default", () => {
+    expect(clientIp(request({ "x-forwarded-for": "203.0.113.9" }))).toBe("203.0.113.9");
+    expect(clientIp(request({ "x-forwarded-for": "1.1.1.1, 2.2.2.2, 203.0.113.9" }), 1)).toBe("203.0.113.9");
+  });
+
+  it("skips the hops our own proxies added behind more than one", () => {
+    const forwarded = request({ "x-forwarded-for": "1.1.1.1, 203.0.113.9, 10.0.0.2" });
+    expect(clientIp(forwarded, 2)).toBe("203.0.113.9");
+  });
+
+  it("ignores headers the client can set itself", () => {
+    const spoofed = request({ "x-real-ip": "1.1.1.1", "cf-connecting-ip": "2.2.2.2", "x-forwarded-for": "3.3.3.3, 203.0.113.9" });
+    expect(clientIp(spoofed, 1)).toBe("203.0.113.9");
+  });
+
+  it("falls back to unknown without enough hops", () => {
+    expect(clientIp(request({}), 1)).toBe("unknown");
+    expect(clientIp(request({ "x-forwarded-for": "203.0.113.9" }), 2)).toBe("unknown");
+  });
+});
@@ -0,0 +1,79 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ QUOTAS - Per-user and per-IP token buckets in Postgres                     ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// The function is public, so every request that would reach the model takes a
+// token from the caller's per-minute and per-day buckets via the
+// consume_analysis_quota RPC. Signed-in users are limited by user id, everyone
+// else by client IP. If the quota store is unreachable the request is allowed
+// and the failure logged - a database hiccup should not block analyses.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface Quota {
+  perMinute: number;
+  perDay: number;
+}
+
+export interface Caller {
+  // "user:<uuid>" or "ip:<address>"
+  subject: string;
+  authenticated: boolean;
+}
+
+export interface QuotaDecision {
+  allowed: boolean;
+  retryAfterMs?: number;
+  exceeded?: 'minute' | 'day';
+}
+
+// Proxies between the client and the functions that append to x-forwarded-for.
+// Raise it if another proxy is put in front.
+const PROXY_HOPS = 1;
+
+/**
+ * Client IP for the anonymous quota, read from x-forwarded-for. Every proxy
+ * appends the address it received the request from, so the client is
+ * `proxyHops` entries from the right. Entries further left are whatever the
+ * client sent - rotating them must not buy a fresh quota - and entries to
+ * the right are our own proxies.
+ */
+export function clientIp(req: Request, proxyHops = PROXY_HOPS): string {
+  const hops = (req.headers.get('x-forwarded-for') || '').split(',').map(h => h.trim()).filter(Boolean);
+  return hops[hops.length - proxyHops] || 'unknown';
+}
+
+/**
+ * Resolves who is calling. The bearer token is the anon key for signed-out
+ * visitors, which getUser rejects, so those fall back to the IP address.
+ */
+export async function identifyCaller(req: Request, client: SupabaseClient): Promise<Caller> {
+  const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  if (token) {
+    const { data, error } = await client.auth.getUser(token);
+    if (!error && data.user) {
+      return { subject: `user:${data.user.id}`, authenticated: true };
+    }
+  }
+  return { subject: `ip:${clientIp(req)}`, authenticated: false };
+}
+
+export async function consumeQuota(client: SupabaseClient, caller: Caller, quota: Quota): Promise<QuotaDecision> {
+  try {
+    const { data, error } = await client.rpc('consume_analysis_quota', {
+      p_subject: caller.subject,
+      p_per_minute: quota.perMinute,
+      p_per_day: quota.perDay
+    });
+    if (error) throw error;
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row || row.allowed) return { allowed: true };
+
+    console.warn(`Quota exceeded for ${caller.subject} (${row.exceeded}), retry in ${row.retry_after_ms}ms`);
+    return { allowed: false, retryAfterMs: row.retry_after_ms, exceeded: row.exceeded };
+  } catch (err) {
+    console.error(`Quota check failed, allowing request: ${(err as Error).message}`);
+    return { allowed: true };
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { buildSourceIndex, verifyQuote, verifyQuotes, type VerifiedFeature } from "./quotes.ts";
+
+const POLICY = "Section 4.2: Pre-existing diseases shall be covered after 36 months of continuous coverage.\nRoom rent is payable up to 1% of the Sum Insured per day.";
+
+describe("verifyQuote", () => {
+  const index = buildSourceIndex(POLICY);
+
+  it("verifies an exact quote regardless of case, punctuation and spacing", () => {
+    const result = verifyQuote(index, "pre existing diseases shall be covered after 36 MONTHS");
+    expect(result).toMatchObject({ status: "verified", score: 1 });
+    expect(POLICY.substring(result.start!, result.end!)).toBe("Pre-existing diseases shall be covered after 36 months");
+  });
+
+  it("treats an ellipsis as a gap between words", () => {
+    expect(verifyQuote(index, "Pre-existing diseases shall be … after 36 months").status).toBe("approximate");
+  });
+
+  it("accepts a close paraphrase as approximate and locates it", () => {
+    const result = verifyQuote(index, "Room rent payable up to 1% of Sum Insured per day");
+    expect(result.status).toBe("approximate");
+    expect(result.score).toBeGreaterThanOrEqual(0.75);
+    expect(POLICY.substring(result.start!, result.end!)).toBe("Room rent is payable up to 1% of the Sum Insured per day");
+  });
+
+  it("does not find a quote the policy never states", () => {
+    expect(verifyQuote(index, "Maternity expenses are covered from day one").status).toBe("not_found");
+  });
+
+  it("does not match a word inside a longer word", () => {
+    expect(verifyQuote(index, "sum insure per").status).not.toBe("verified");
+  });
+
+  it("rejects quotes too short to check", () => {
+    expect(verifyQuote(index, "Room")).toEqual({ status: "not_found", score: 0 });
+    expect(verifyQuote(index, "")).toEqual({ status: "not_found", score: 0 });
+  });
+});
+
+describe("verifyQuotes", () => {
+  it("attaches a verification to every feature and counts the statuses", () => {
+    const feature = (policyStates: string): VerifiedFeature => ({ name: "x", policyStates, explanation: "" });
+    const result = {
+      goodFeatures: [feature("covered after 36 months of continuous coverage")],
+      redFlags: [feature("Ambulance charges are not covered")],
+      needsClarification: [feature("room rent payable up to 1% of Sum Insured per day")]
+    };
+    expect(verifyQuotes(result, POLICY)).toEqual({ verified: 1, approximate: 1, not_found: 1 });
+    expect(result.goodFeatures[0].verification?.status).toBe("verified");
+  });
+});
@@ -0,0 +1,172 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ QUOTE VERIFICATION - Checks every policyStates snippet against the source  ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// Hallucinated quotes are the biggest trust problem for advisors. Each quote is
+// matched against the policy text: an exact match (ignoring case, punctuation
+// and whitespace) is "verified", a close token match is "approximate", and
+// anything else is "not_found". Offsets point into the original policyText.
+// Words keep their combining marks, so Devanagari vowel signs don't split them.
+
+import type { AnalysisFeature, Bucket } from "./rules.ts";
+import { detectLanguages } from "../_shared/textLanguage.ts";
+import type { LanguageCode } from "../_shared/languages.ts";
+
+export type QuoteStatus = 'verified' | 'approximate' | 'not_found';
+
+export interface QuoteVerification {
+  status: QuoteStatus;
+  score: number;
+  start?: number;
+  end?: number;
+}
+
+export type VerifiedFeature = AnalysisFeature & { verification?: QuoteVerification; quoteLanguage?: LanguageCode };
+
+const APPROXIMATE_THRESHOLD = 0.75;
+const MIN_QUOTE_TOKENS = 2;
+
+const BUCKETS: Bucket[] = ['greatFeatures', 'goodFeatures', 'redFlags', 'needsClarification'];
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const m of text.matchAll(/[\p{L}\p{M}\p{N}]+/gu)) {
+    tokens.push({ word: m[0].normalize('NFC').toLowerCase(), start: m.index!, end: m.index! + m[0].length });
+  }
+  return tokens;
+}
+
+/** Index of the policy text, built once and reused for every quote */
+export interface SourceIndex {
+  tokens: Token[];
+  joined: string;
+  // Character offset in `joined` -> token index
+  tokenAt: Map<number, number>;
+}
+
+export function buildSourceIndex(policyText: string): SourceIndex {
+  const tokens = tokenize(policyText);
+  const tokenAt = new Map<number, number>();
+  let joined = '';
+  tokens.forEach((t, i) => {
+    if (i > 0) joined += ' ';
+    tokenAt.set(joined.length, i);
+    joined += t.word;
+  });
+  return { tokens, joined, tokenAt };
+}
+
+function findExact(index: SourceIndex, quoteTokens: Token[]): QuoteVerification | null {
+  const needle = quoteTokens.map(t => t.word).join(' ');
+  let pos = index.joined.indexOf(needle);
+  while (pos !== -1) {
+    const first = index.tokenAt.get(pos);
+    const after = index.joined[pos + needle.length];
+    if (first !== undefined && (after === undefined || after === ' ')) {
+      const last = index.tokens[first + quoteTokens.length - 1];
+      return { status: 'verified', score: 1, start: index.tokens[first].start, end: last.end };
+    }
+    pos = index.joined.indexOf(needle, pos + 1);
+  }
+  return null;
+}
+
+/**
+ * Slides a window slightly larger than the quote across the source (to allow
+ * for inserted words like "and", "of") and scores token overlap.
+ */
+function findApproximate(index: SourceIndex, quoteTokens: Token[]): QuoteVerification {
+  const size = Math.ceil(quoteTokens.length * 1.25);
+  const wanted = new Map<string, number>();
+  for (const t of quoteTokens) wanted.set(t.word, (wanted.get(t.word) ?? 0) + 1);
+
+  const window = new Map<string, number>();
+  let matched = 0;
+  let best = { score: 0, first: -1 };
+
+  const add = (word: string) => {
+    const count = (window.get(word) ?? 0) + 1;
+    window.set(word, count);
+    if (count <= (wanted.get(word) ?? 0)) matched++;
+  };
+  const remove = (word: string) => {
+    const count = window.get(word)!;
+    if (count <= (wanted.get(word) ?? 0)) matched--;
+    window.set(word, count - 1);
+  };
+
+  for (let i = 0; i < index.tokens.length; i++) {
+    add(index.tokens[i].word);
+    if (i >= size) remove(index.tokens[i - size].word);
+    const score = matched / quoteTokens.length;
+    if (score > best.score) best = { score, first: Math.max(0, i - size + 1) };
+  }
+
+  if (best.score < APPROXIMATE_THRESHOLD) {
+    return { status: 'not_found', score: Number(best.score.toFixed(2)) };
+  }
+
+  // Trim the window to the first and last tokens that appear in the quote
+  let first = best.first;
+  let last = Math.min(best.first + size, index.tokens.length) - 1;
+  while (first < last && !wanted.has(index.tokens[first].word)) first++;
+  while (last > first && !wanted.has(index.tokens[last].word)) last--;
+
+  return {
+    status: 'approximate',
+    score: Number(best.score.toFixed(2)),
+    start: index.tokens[first].start,
+    end: index.tokens[last].end
+  };
+}
+
+export function verifyQuote(index: SourceIndex, quote: string): QuoteVerification {
+  const quoteTokens = tokenize((quote || '').replace(/\.{3}|…/g, ' '));
+  if (quoteTokens.length < MIN_QUOTE_TOKENS) {
+    return { status: 'not_found', score: 0 };
+  }
+  return findExact(index, quoteTokens) ?? findApproximate(index, quoteTokens);
+}
+
+/**
+ * Attaches a `verification` object to every feature in the result.
+ * Returns counts per status for logging and metadata.
+ */
+export function verifyQuotes(
+  result: Partial<Record<Bucket, VerifiedFeature[]>>,
+  policyText: string
+): Record<QuoteStatus, number> {
+  const index = buildSourceIndex(policyText);
+  const counts: Record<QuoteStatus, number> = { verified: 0, approximate: 0, not_found: 0 };
+
+  for (const bucket of BUCKETS) {
+    for (const feature of result[bucket] || []) {
+      feature.verification = verifyQuote(index, feature.policyStates);
+      counts[feature.verification.status]++;
+    }
+  }
+
+  console.log(`Quotes: ${counts.verified} verified, ${counts.approximate} approximate, ${counts.not_found} not found`);
+  return counts;
+}
+
+/**
+ * Sets `quoteLanguage` on every feature from the script of its quote, so a
+ * bilingual policy's report says which language each clause was quoted in.
+ */
+export function tagQuoteLanguages(result: Partial<Record<Bucket, VerifiedFeature[]>>): Partial<Record<LanguageCode, number>> {
+  const counts: Partial<Record<LanguageCode, number>> = {};
+  for (const bucket of BUCKETS) {
+    for (const feature of result[bucket] || []) {
+      feature.quoteLanguage = detectLanguages(feature.policyStates).primary;
+      counts[feature.quoteLanguage] = (counts[feature.quoteLanguage] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
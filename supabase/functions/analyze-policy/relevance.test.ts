@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { ageThreshold, assessRelevance, type RatedFeature } from "./relevance.ts";
+import type { UserProfile } from "../_shared/profile.ts";
+
+describe("ageThreshold", () => {
+  it.each([
+    ["Co-pay of 20% for insured persons 60 years and above", 60],
+    ["Applies to members aged 61 or more", 61],
+    ["Insured persons above 65 yrs pay a co-payment", 65],
+    ["Co-pay for those above the age of 60.", 60],
+    ["Entry age over age 55 needs a medical test", 55],
+    ["Members aged 70+ pay 30%", 70],
+    ["Senior citizens (60+) pay a co-payment", 60]
+  ])("reads %j as %i", (text, age) => {
+    expect(ageThreshold(text)).toBe(age);
+  });
+
+  it.each([
+    "Co-pay of 20% on bills above 75% of sum insured",
+    "Claims exceeding 50,000 need pre-authorisation",
+    "Room rent above 1% of sum insured is deducted proportionately",
+    "Deductible applies over 25 lakhs",
+    "Cumulative bonus of 50% for every claim-free year"
+  ])("finds no age in %j", (text) => {
+    expect(ageThreshold(text)).toBeNull();
+  });
+});
+
+describe("assessRelevance", () => {
+  const profile: UserProfile = {
+    members: [{ relationship: "self", age: 34 }, { relationship: "mother", age: 62 }],
+    cityTier: null,
+    conditions: [],
+    plannedEvents: []
+  };
+  const feature = (name: string, policyStates: string, relevance?: RatedFeature["relevance"]): RatedFeature =>
+    ({ name, policyStates, explanation: "", relevance });
+
+  it("rates age-bound clauses by the members they reach", () => {
+    const result = {
+      redFlags: [feature("Senior co-pay", "20% co-pay for insured aged 60 and above")],
+      needsClarification: [feature("Co-pay", "20% on bills above 75% of sum insured", "low")]
+    };
+    assessRelevance(result, profile);
+    expect(result.redFlags[0]).toMatchObject({ relevance: "high", relevanceReason: "Applies to mother (62)" });
+    expect(result.needsClarification[0].relevance).toBe("low");
+  });
+
+  it("marks a clause not applicable when no one reaches its age", () => {
+    const result = { redFlags: [feature("Co-pay", "30% co-pay above 75 years")] };
+    const counts = assessRelevance(result, profile);
+    expect(result.redFlags[0].relevance).toBe("not_applicable");
+    expect(counts).toEqual({ high: 0, medium: 0, low: 0, not_applicable: 1 });
+  });
+
+  it("keeps amount thresholds visible", () => {
+    const result = { redFlags: [feature("Pre-authorisation", "Claims exceeding 50,000 need approval")] };
+    assessRelevance(result, profile);
+    expect(result.redFlags[0].relevance).toBe("medium");
+  });
+});
@@ -0,0 +1,119 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ RELEVANCE - How much each feature matters to the buyer's profile           ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// With a profile, the model rates every feature and writes its explanation for
+// the buyer. Clauses that hinge on a fact the profile states outright (an age
+// threshold, planned maternity, known conditions) are decided here instead,
+// so a 60+ co-pay is never "high" for a family whose oldest member is 35.
+
+import { RELEVANCE_LEVELS, type Relevance, type UserProfile } from "../_shared/profile.ts";
+import type { AnalysisFeature, Bucket } from "./rules.ts";
+
+export type RatedFeature = AnalysisFeature & { relevance?: Relevance; relevanceReason?: string };
+
+interface RelevanceVerdict {
+  relevance: Relevance;
+  reason: string;
+}
+
+const BUCKETS: Bucket[] = ['greatFeatures', 'goodFeatures', 'redFlags', 'needsClarification'];
+
+// "60 years and above", "aged 61 or more", "above 60 years", "above the age of 60".
+// The number must sit next to an age word so "above 75% of sum insured" or
+// "exceeding 50,000" is never read as an age; senior citizens (60+) fall back below.
+const AGE_FROM_PATTERNS = [
+  /\b(\d{2})\s*(?:years?|yrs?)\b\s*(?:of age\s*)?(?:and above|or above|or more|or older|\+)/i,
+  /(?:above|over|beyond|exceeding)\s*(?:the\s*)?age\s*(?:of\s*)?(\d{2})(?![\d%]|[,.]\d|\s*(?:%|per\s*cent|lakhs?|crores?|rs\b|inr\b|rupees))/i,
+  /(?:above|over|beyond|exceeding)\s*(\d{2})\s*(?:years?|yrs?)\b/i,
+  /\baged?\s*(\d{2})(?![\d%]|[,.]\d)\s*(?:(?:years?|yrs?)\s*)?(?:(?:and|or)\s*(?:above|more|older)|\+)/i
+];
+
+/** The age a clause starts applying from, or null when it names none */
+export function ageThreshold(text: string): number | null {
+  for (const pattern of AGE_FROM_PATTERNS) {
+    const match = pattern.exec(text);
+    const age = match ? Number(match[1]) : NaN;
+    if (age >= 40 && age <= 90) return age;
+  }
+  return /senior citizen/i.test(text) ? 60 : null;
+}
+
+function byProfile(feature: AnalysisFeature, profile: UserProfile): RelevanceVerdict | null {
+  const text = `${feature.name} ${feature.policyStates}`;
+  const lower = text.toLowerCase();
+  const { members, plannedEvents, conditions } = profile;
+
+  if (/maternity|pregnan|new[- ]?born|delivery|childbirth/.test(lower)) {
+    return plannedEvents.includes('maternity')
+      ? { relevance: 'high', reason: 'You are planning maternity' }
+      : { relevance: 'not_applicable', reason: 'You have not planned maternity' };
+  }
+
+  const age = ageThreshold(text);
+  if (age !== null && members.length > 0) {
+    const affected = members.filter(m => m.age >= age);
+    // Members within five years of the threshold will reach it during the policy
+    const soon = members.filter(m => m.age < age && m.age >= age - 5);
+    if (affected.length > 0) {
+      return { relevance: 'high', reason: `Applies to ${affected.map(m => `${m.relationship} (${m.age})`).join(', ')}` };
+    }
+    if (soon.length > 0) {
+      return { relevance: 'medium', reason: `${soon.map(m => m.relationship).join(', ')} will reach ${age} in a few years` };
+    }
+    return { relevance: 'not_applicable', reason: `No one you are insuring is ${age} or older` };
+  }
+
+  if (/pre[- ]?existing|\bped\b/.test(lower)) {
+    return conditions.length > 0
+      ? { relevance: 'high', reason: `You have ${conditions.join(', ')}` }
+      : { relevance: 'low', reason: 'You have no known pre-existing conditions' };
+  }
+
+  if (/worldwide|abroad|overseas|international/.test(lower)) {
+    return plannedEvents.includes('travelAbroad')
+      ? { relevance: 'high', reason: 'You plan treatment or travel abroad' }
+      : { relevance: 'low', reason: 'You have not planned treatment abroad' };
+  }
+
+  if (profile.cityTier && /\bzone\b|geograph|city[- ]?based|tier/.test(lower) && /co[- ]?pay/.test(lower)) {
+    return profile.cityTier === 'tier1'
+      ? { relevance: 'high', reason: 'Metro hospitals are in the costliest zone' }
+      : { relevance: 'medium', reason: 'Applies if you are treated in a metro city' };
+  }
+
+  return null;
+}
+
+/**
+ * Sets `relevance` (and `relevanceReason` when decided by a profile rule) on
+ * every feature. Features the model did not rate default to 'medium'.
+ */
+export function assessRelevance(result: Partial<Record<Bucket, RatedFeature[]>>, profile: UserProfile): Record<Relevance, number> {
+  const counts: Record<Relevance, number> = { high: 0, medium: 0, low: 0, not_applicable: 0 };
+
+  for (const bucket of BUCKETS) {
+    for (const feature of result[bucket] || []) {
+      const verdict = byProfile(feature, profile);
+      if (verdict) {
+        feature.relevance = verdict.relevance;
+        feature.relevanceReason = verdict.reason;
+      } else if (!feature.relevance || !RELEVANCE_LEVELS.includes(feature.relevance)) {
+        feature.relevance = 'medium';
+      }
+      counts[feature.relevance]++;
+    }
+  }
+
+  return counts;
+}
+
+/** Added to the analysis request when a profile is given */
+export function profileNote(profileText: string): string {
+  return `
+
+BUYER PROFILE:
+${profileText}
+
+Set relevance on every feature (high / medium / low / not_applicable) for these people, and write each explanation for their situation - name the member a clause affects. The profile never changes which bucket a feature belongs in.`;
+}
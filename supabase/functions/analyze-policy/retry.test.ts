@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { callToolWithRetry, type CallContext } from "./retry.ts";
+import { AnalysisError } from "./errors.ts";
+import type { LLMProvider, ToolRequest } from "./providers/index.ts";
+
+const request: ToolRequest = { system: "", tool: { name: "analyze_policy", description: "", input_schema: {} }, document: "" };
+
+const context = (deadlineMs = 5000): CallContext => ({
+  deadline: Date.now() + deadlineMs,
+  policy: { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 2, minAttemptMs: 10 },
+  attempts: []
+});
+
+/** Fails with each error in turn, then succeeds */
+function provider(...failures: Error[]): LLMProvider & { calls: number } {
+  return {
+    name: "fake",
+    model: "fake-1",
+    calls: 0,
+    async callTool<T>(): Promise<T> {
+      const failure = failures[this.calls++];
+      if (failure) throw failure;
+      return { ok: true } as T;
+    }
+  };
+}
+
+describe("callToolWithRetry", () => {
+  it("retries transient errors and records every attempt", async () => {
+    const ctx = context();
+    const fake = provider(new AnalysisError("UPSTREAM_RATE_LIMITED"), new AnalysisError("MALFORMED_MODEL_OUTPUT"));
+    await expect(callToolWithRetry(fake, request, ctx, 2)).resolves.toEqual({ ok: true });
+    expect(ctx.attempts).toEqual([
+      { tool: "analyze_policy", chunk: 2, attempts: 3, errors: ["UPSTREAM_RATE_LIMITED", "MALFORMED_MODEL_OUTPUT"], succeeded: true }
+    ]);
+  });
+
+  it("does not retry errors that won't go away", async () => {
+    const fake = provider(new AnalysisError("CONFIG_ERROR"));
+    await expect(callToolWithRetry(fake, request, context())).rejects.toMatchObject({ code: "CONFIG_ERROR" });
+    expect(fake.calls).toBe(1);
+  });
+
+  it("gives up after the last attempt", async () => {
+    const ctx = context();
+    const fake = provider(...Array.from({ length: 5 }, () => new AnalysisError("UPSTREAM_UNAVAILABLE")));
+    await expect(callToolWithRetry(fake, request, ctx)).rejects.toMatchObject({ code: "UPSTREAM_UNAVAILABLE" });
+    expect(ctx.attempts[0]).toMatchObject({ attempts: 3, succeeded: false });
+  });
+
+  it("does not start an attempt too close to the deadline", async () => {
+    const fake = provider();
+    await expect(callToolWithRetry(fake, request, context(5))).rejects.toMatchObject({ code: "UPSTREAM_TIMEOUT" });
+    expect(fake.calls).toBe(0);
+  });
+
+  it("does not wait out a retry-after that passes the deadline", async () => {
+    const fake = provider(new AnalysisError("UPSTREAM_RATE_LIMITED", "slow down", 60000));
+    await expect(callToolWithRetry(fake, request, context())).rejects.toMatchObject({ code: "UPSTREAM_RATE_LIMITED" });
+    expect(fake.calls).toBe(1);
+  });
+});
@@ -0,0 +1,84 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ RETRY - Jittered exponential backoff inside an overall deadline            ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// A single 429/529, network blip or a response without the tool_use block
+// should not fail the whole analysis. Each model call is retried while the
+// error is transient and the deadline leaves room for another attempt.
+// Retry-after hints from the upstream are honoured.
+
+import type { LLMProvider, ToolRequest } from "./providers/index.ts";
+import { AnalysisError, toErrorCode } from "./errors.ts";
+import type { ErrorCode } from "../_shared/errorCodes.ts";
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Don't start an attempt with less time than this left before the deadline
+  minAttemptMs: number;
+}
+
+export interface AttemptRecord {
+  tool: string;
+  chunk?: number;
+  attempts: number;
+  errors: ErrorCode[];
+  succeeded: boolean;
+}
+
+export interface CallContext {
+  deadline: number;
+  policy: RetryPolicy;
+  // Every call appends its record here; reported in _meta.attempts
+  attempts: AttemptRecord[];
+}
+
+const RETRYABLE: ErrorCode[] = ['UPSTREAM_RATE_LIMITED', 'UPSTREAM_UNAVAILABLE', 'UPSTREAM_TIMEOUT', 'MALFORMED_MODEL_OUTPUT'];
+
+function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  // Equal jitter: half fixed, half random, so parallel chunk calls spread out
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export async function callToolWithRetry<T>(
+  provider: LLMProvider,
+  request: ToolRequest,
+  ctx: CallContext,
+  chunk?: number
+): Promise<T> {
+  const record: AttemptRecord = { tool: request.tool.name, chunk, attempts: 0, errors: [], succeeded: false };
+  ctx.attempts.push(record);
+
+  for (;;) {
+    const remaining = ctx.deadline - Date.now();
+    if (remaining < ctx.policy.minAttemptMs) {
+      throw new AnalysisError('UPSTREAM_TIMEOUT', `Deadline reached after ${record.attempts} attempt(s) for ${request.tool.name}`);
+    }
+
+    record.attempts++;
+    try {
+      const result = await provider.callTool<T>({ ...request, timeoutMs: remaining });
+      record.succeeded = true;
+      return result;
+    } catch (err) {
+      const code = toErrorCode(err);
+      record.errors.push(code);
+
+      if (!RETRYABLE.includes(code) || record.attempts >= ctx.policy.maxAttempts) throw err;
+
+      const hinted = err instanceof AnalysisError ? err.retryAfterMs : undefined;
+      const delay = hinted ?? backoffDelay(ctx.policy, record.attempts);
+      if (Date.now() + delay + ctx.policy.minAttemptMs > ctx.deadline) {
+        console.warn(`Not retrying ${request.tool.name}: ${delay}ms wait would pass the deadline`);
+        throw err;
+      }
+
+      console.warn(`${request.tool.name} attempt ${record.attempts} failed [${code}], retrying in ${delay}ms${hinted !== undefined ? ' (retry-after)' : ''}`);
+      await sleep(delay);
+    }
+  }
+}
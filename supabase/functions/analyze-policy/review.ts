@@ -0,0 +1,165 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ SELF-REVIEW - Optional second pass against the rulebook checklist          ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// The first analysis is sent back with the CHECKLIST BEFORE SUBMIT and the
+// policy excerpts it relied on, and the model submits a corrected set of
+// buckets. It costs one more model call, so it is opt-in per request
+// (`review: true`) and the response records exactly what the review changed.
+
+import type { AnalysisFeature, Bucket } from "./rules.ts";
+import { buildSourceIndex, verifyQuote } from "./quotes.ts";
+
+export type ReviewBuckets = Partial<Record<Bucket, AnalysisFeature[]>>;
+
+export interface ReviewChange {
+  type: 'added' | 'removed' | 'moved' | 'edited';
+  feature: string;
+  from?: Bucket;
+  to?: Bucket;
+  // For 'edited': which fields the review rewrote
+  fields?: (keyof AnalysisFeature)[];
+}
+
+interface Excerpt {
+  start: number;
+  end: number;
+  label: string;
+}
+
+const BUCKETS: Bucket[] = ['greatFeatures', 'goodFeatures', 'redFlags', 'needsClarification'];
+const EDITABLE_FIELDS: (keyof AnalysisFeature)[] = ['policyStates', 'reference', 'explanation'];
+
+// Clauses the health checklist asks about that the first pass may have missed entirely
+const CHECKLIST_KEYWORDS = [
+  'proportionate', 'proportional', 'per day', 'pre-existing', 'specific illness',
+  'initial waiting', 'pre-hospitalisation', 'pre-hospitalization', 'co-pay', 'restore'
+];
+
+const EXCERPT_RADIUS = 300;
+const KEYWORD_HITS = 2;
+
+const normalizeName = (name: string) => (name || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Picks the parts of the policy the review needs: the text around every quote
+ * the first pass cited, then around checklist keywords, merged and capped at
+ * `maxChars` in document order. Life, motor and home rulebooks pass their own
+ * keywords.
+ */
+export function collectExcerpts(
+  draft: ReviewBuckets,
+  policyText: string,
+  maxChars: number,
+  keywords: string[] = CHECKLIST_KEYWORDS
+): string {
+  const index = buildSourceIndex(policyText);
+  const windows: Excerpt[] = [];
+  const around = (start: number, end: number, label: string) => windows.push({
+    start: Math.max(0, start - EXCERPT_RADIUS),
+    end: Math.min(policyText.length, end + EXCERPT_RADIUS),
+    label
+  });
+
+  for (const bucket of BUCKETS) {
+    for (const feature of draft[bucket] || []) {
+      const found = verifyQuote(index, feature.policyStates);
+      if (found.start !== undefined && found.end !== undefined) around(found.start, found.end, feature.name);
+    }
+  }
+
+  const lower = policyText.toLowerCase();
+  for (const keyword of keywords) {
+    let from = 0;
+    for (let hit = 0; hit < KEYWORD_HITS; hit++) {
+      const pos = lower.indexOf(keyword, from);
+      if (pos === -1) break;
+      around(pos, pos + keyword.length, `"${keyword}"`);
+      from = pos + keyword.length;
+    }
+  }
+
+  // Merge overlapping windows, then keep as many as fit in the budget
+  windows.sort((a, b) => a.start - b.start);
+  const merged: Excerpt[] = [];
+  for (const w of windows) {
+    const last = merged[merged.length - 1];
+    if (last && w.start <= last.end) {
+      last.end = Math.max(last.end, w.end);
+      if (!last.label.includes(w.label)) last.label += `, ${w.label}`;
+    } else {
+      merged.push({ ...w });
+    }
+  }
+
+  const parts: string[] = [];
+  let used = 0;
+  for (const e of merged) {
+    const text = policyText.slice(e.start, e.end).trim();
+    if (used + text.length > maxChars) break;
+    parts.push(`[Excerpt - ${e.label}]\n${text}`);
+    used += text.length;
+  }
+  return parts.join('\n\n');
+}
+
+export const REVIEW_INSTRUCTIONS = `Below is a first-pass analysis of a health insurance policy. Review it against the rules in your instructions and this checklist, using the policy excerpts as evidence.
+
+Fix anything that breaks a rule: move misclassified features, add required features the excerpts show are missing, remove standard IRDAI exclusions and vague "multiple exclusions" entries, and correct quotes that do not match the excerpts. Keep features that are already correct unchanged. Submit the complete corrected analysis.`;
+
+export function buildReviewDocument(draft: ReviewBuckets, checklist: string[], excerpts: string): string {
+  const firstPass = Object.fromEntries(BUCKETS.map(b => [b, draft[b] || []]));
+  return `${REVIEW_INSTRUCTIONS}
+
+CHECKLIST:
+${checklist.join('\n')}
+
+FIRST-PASS ANALYSIS:
+${JSON.stringify(firstPass, null, 2)}
+
+POLICY EXCERPTS:
+${excerpts || '(none found)'}`;
+}
+
+export function countFeatures(buckets: ReviewBuckets): number {
+  return BUCKETS.reduce((n, b) => n + (buckets[b]?.length || 0), 0);
+}
+
+/** Every difference between the first pass and the reviewed buckets, keyed by feature name */
+export function diffReview(before: ReviewBuckets, after: ReviewBuckets): ReviewChange[] {
+  const locate = (buckets: ReviewBuckets) => {
+    const found = new Map<string, { bucket: Bucket; feature: AnalysisFeature }>();
+    for (const bucket of BUCKETS) {
+      for (const feature of buckets[bucket] || []) {
+        const key = normalizeName(feature.name);
+        if (key && !found.has(key)) found.set(key, { bucket, feature });
+      }
+    }
+    return found;
+  };
+
+  const old = locate(before);
+  const next = locate(after);
+  const changes: ReviewChange[] = [];
+
+  for (const [key, { bucket, feature }] of old) {
+    const now = next.get(key);
+    if (!now) {
+      changes.push({ type: 'removed', feature: feature.name, from: bucket });
+      continue;
+    }
+    if (now.bucket !== bucket) {
+      changes.push({ type: 'moved', feature: feature.name, from: bucket, to: now.bucket });
+    }
+    const fields = EDITABLE_FIELDS.filter(f => (feature[f] || '').trim() !== (now.feature[f] || '').trim());
+    if (fields.length > 0) {
+      changes.push({ type: 'edited', feature: feature.name, to: now.bucket, fields });
+    }
+  }
+
+  for (const [key, { bucket, feature }] of next) {
+    if (!old.has(key)) changes.push({ type: 'added', feature: feature.name, to: bucket });
+  }
+
+  return changes;
+}
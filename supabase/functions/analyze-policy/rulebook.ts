@@ -0,0 +1,362 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ RULEBOOK - Single source of truth for classification thresholds and lists  ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// The system prompt, tool descriptions, per-request reminders (prompts.ts) and
+// the post-model rule engine (rules.ts) are all generated from RULEBOOK, so a
+// threshold is changed in exactly one place. Bump `version` on every change.
+// checkRulebook() rejects rule sets that contradict themselves.
+
+export type Grade = 'great' | 'good' | 'red';
+
+export const GRADE_LABEL: Record<Grade, string> = {
+  great: 'GREAT',
+  good: 'GOOD',
+  red: 'RED FLAG'
+};
+
+/** Lower is better (waiting periods): ≤greatMax GREAT, ≤goodMax GOOD, else RED FLAG */
+export interface CeilingBands {
+  kind: 'ceiling';
+  unit: 'months' | 'days';
+  greatMax: number;
+  goodMax: number;
+}
+
+/** Higher is better (cover days): ≥greatMin GREAT, ≥goodMin GOOD, else RED FLAG */
+export interface FloorBands {
+  kind: 'floor';
+  unit: 'days';
+  greatMin: number;
+  goodMin: number;
+}
+
+export type Bands = CeilingBands | FloorBands;
+
+export type ThresholdId = 'pedMonths' | 'specificIllnessMonths' | 'initialDays' | 'preHospDays' | 'postHospDays';
+
+export interface Threshold {
+  label: string;
+  bands: Bands;
+}
+
+export type RoomRentTerm = 'atActuals' | 'singlePrivate' | 'dailyCap' | 'percentCap' | 'proportionateDeduction';
+
+export interface RoomRentRule {
+  term: string;
+  grade: Grade;
+  // Set for clauses the model must actively look for; rendered as a search hint
+  search?: string;
+}
+
+/**
+ * An optional cover that removes a base-policy red flag. `aliases` match the
+ * add-on's name, `neutralises` match the names of the red flags it removes.
+ */
+export interface AddOnRule {
+  name: string;
+  aliases: string[];
+  neutralises: string[];
+}
+
+export type ScoreDimension = 'roomRent' | 'waitingPeriods' | 'coPay' | 'subLimits' | 'restore' | 'prePost' | 'extras';
+
+export interface ScoringRules<D extends string = ScoreDimension> {
+  // Points per dimension - must add up to 100
+  weights: Record<D, number>;
+  // Share of a dimension's weight deducted for its worst feature, or `missing` when it has none
+  penalties: Record<'great' | 'good' | 'red' | 'unclear' | 'missing', number>;
+}
+
+/** A concrete value the prompt calls out, e.g. "36-month PED" */
+export interface ThresholdExample {
+  threshold: ThresholdId;
+  value: number;
+}
+
+export interface Rulebook {
+  version: string;
+  thresholds: Record<ThresholdId, Threshold>;
+  roomRent: Record<RoomRentTerm, RoomRentRule>;
+  // Features without a numeric threshold, by grade
+  features: Record<Grade, string[]>;
+  neverFlag: {
+    examples: ThresholdExample[];
+    items: string[];
+  };
+  irdaiStandardExclusions: string[];
+  unclear: {
+    include: string[];
+    exclude: string[];
+  };
+  mustInclude: string[];
+  addOns: AddOnRule[];
+  scoring: ScoringRules;
+  checklist: string[];
+  output: Record<'great' | 'good', { min: number; max: number }>;
+}
+
+export const RULEBOOK: Rulebook = {
+  version: "2026.01.5",
+
+  thresholds: {
+    pedMonths: { label: 'PED', bands: { kind: 'ceiling', unit: 'months', greatMax: 12, goodMax: 48 } },
+    specificIllnessMonths: { label: 'Specific illness', bands: { kind: 'ceiling', unit: 'months', greatMax: 12, goodMax: 24 } },
+    initialDays: { label: 'Initial waiting', bands: { kind: 'ceiling', unit: 'days', greatMax: 0, goodMax: 30 } },
+    preHospDays: { label: 'Pre-hosp', bands: { kind: 'floor', unit: 'days', greatMin: 60, goodMin: 30 } },
+    postHospDays: { label: 'Post-hosp', bands: { kind: 'floor', unit: 'days', greatMin: 180, goodMin: 60 } }
+  },
+
+  roomRent: {
+    atActuals: { term: '"At Actuals" / "No limit"', grade: 'great' },
+    singlePrivate: { term: '"Single Private AC"', grade: 'good' },
+    dailyCap: { term: 'Room rent daily cap in rupees (₹3K-₹10K/day)', grade: 'red', search: '"₹" + "/day" or "per day"' },
+    percentCap: { term: 'Room rent daily cap as % of sum insured', grade: 'red' },
+    proportionateDeduction: { term: 'Proportionate deduction clause', grade: 'red', search: '"proportional share" or "proportionate"' }
+  },
+
+  features: {
+    great: [
+      'Restore/Reset: Unlimited or same illness covered',
+      'Consumables fully covered (Protect Benefit)',
+      '2X/3X/4X coverage multipliers',
+      'Auto SI increase regardless of claims',
+      'Air ambulance',
+      'No co-pay at any age',
+      'No geography-based co-pay',
+      'Worldwide cover',
+      'Lifelong renewal'
+    ],
+    good: [
+      'Restore for different illness only',
+      'Co-pay 10-20% for 60+ only',
+      'AYUSH, Day care, Domiciliary covered',
+      'Ambulance, Health check-up, Donor expenses',
+      'Cashless network',
+      'Daily cash for shared room (any amount)',
+      'Voluntary deductible with discount'
+    ],
+    red: [
+      'Mandatory co-pay for ALL ages',
+      'Disease sub-limits (name exact disease + limit)',
+      'PPN/Network co-pay penalty (10-20% outside network)',
+      'No restore benefit',
+      'Consumables not covered'
+    ]
+  },
+
+  neverFlag: {
+    examples: [
+      { threshold: 'specificIllnessMonths', value: 24 },
+      { threshold: 'pedMonths', value: 36 },
+      { threshold: 'pedMonths', value: 48 }
+    ],
+    items: [
+      '"Multiple exclusions" (lazy - not allowed)',
+      'Daily cash benefit (BONUS = GOOD)',
+      'Standard IRDAI exclusions',
+      'Voluntary deductible options'
+    ]
+  },
+
+  irdaiStandardExclusions: [
+    'Cosmetic', 'Obesity', 'Infertility', 'Maternity (base)', 'Dental',
+    'Spectacles', 'Vitamins', 'Self-harm', 'War', 'Hazardous sports',
+    'Alcohol/drugs', 'Experimental', 'Vaccination', 'Rest cures'
+  ],
+
+  unclear: {
+    include: [
+      'Conflicting statements',
+      'Benefit without details',
+      '"Company discretion" without criteria'
+    ],
+    exclude: ['Waiting periods', 'room rent terms', 'add-ons with prices']
+  },
+
+  mustInclude: [
+    'Room rent', 'PED waiting', 'Specific illness waiting', 'Initial waiting',
+    'Pre/Post hospitalization', 'Restore benefit', 'Cashless network',
+    'Proportionate deduction (if present)', 'Co-pay terms (if any)'
+  ],
+
+  addOns: [
+    { name: 'Room rent waiver', aliases: ['room rent', 'room upgrade', 'room category'], neutralises: ['room rent', 'proportionate'] },
+    { name: 'Consumables cover', aliases: ['consumable', 'consumables', 'protect', 'non-medical', 'non-payable'], neutralises: ['consumable', 'non-medical', 'non-payable'] },
+    { name: 'Co-pay waiver', aliases: ['co-pay', 'copay', 'co-payment'], neutralises: ['co-pay', 'copay', 'co-payment'] },
+    { name: 'PED waiting reduction', aliases: ['pre-existing', 'ped', 'waiting period'], neutralises: ['pre-existing', 'ped waiting'] },
+    { name: 'Sub-limit waiver', aliases: ['sub-limit', 'sublimit', 'disease limit'], neutralises: ['sub-limit', 'sublimit'] },
+    { name: 'Restore / refill', aliases: ['restore', 'refill', 'reload', 'recharge', 'reset'], neutralises: ['no restore'] }
+  ],
+
+  scoring: {
+    weights: { roomRent: 20, waitingPeriods: 20, coPay: 15, subLimits: 15, restore: 10, prePost: 10, extras: 10 },
+    penalties: { great: 0, good: 0.15, red: 0.75, unclear: 0.25, missing: 0.5 }
+  },
+
+  checklist: [
+    'Optional add-ons only in addOns, never in the feature buckets',
+    'No "multiple exclusions" anywhere',
+    'No IRDAI exclusions mentioned',
+    'Counts match actual features'
+  ],
+
+  output: {
+    great: { min: 5, max: 10 },
+    good: { min: 5, max: 10 }
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Grading - shared by the prompt renderer and the rule engine
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function gradeFor(bands: Bands, value: number): Grade {
+  if (bands.kind === 'ceiling') {
+    if (value <= bands.greatMax) return 'great';
+    return value <= bands.goodMax ? 'good' : 'red';
+  }
+  if (value >= bands.greatMin) return 'great';
+  return value >= bands.goodMin ? 'good' : 'red';
+}
+
+/** Range covered by a grade, e.g. "≤12 months", "13-48 months", ">48 months" */
+export function bandRange(bands: Bands, grade: Grade): string {
+  const { unit } = bands;
+  if (bands.kind === 'ceiling') {
+    if (grade === 'great') return bands.greatMax === 0 ? `0 ${unit}` : `≤${bands.greatMax} ${unit}`;
+    if (grade === 'good') return `${bands.greatMax + 1}-${bands.goodMax} ${unit}`;
+    return `>${bands.goodMax} ${unit}`;
+  }
+  if (grade === 'great') return `≥${bands.greatMin} ${unit}`;
+  if (grade === 'good') return `${bands.goodMin}-${bands.greatMin - 1} ${unit}`;
+  return `<${bands.goodMin} ${unit}`;
+}
+
+export function exampleLabel(rulebook: Rulebook, example: ThresholdExample): string {
+  const { label, bands } = rulebook.thresholds[example.threshold];
+  // "Specific illness" reads as "24-month specific illness", acronyms stay as-is
+  const noun = /^[A-Z][a-z]/.test(label) ? label[0].toLowerCase() + label.slice(1) : label;
+  return `${example.value}-${bands.unit.replace(/s$/, '')} ${noun}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Consistency check
+// ─────────────────────────────────────────────────────────────────────────────
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9%₹]+/g, ' ').trim();
+
+/** The parts every insurance type's rulebook has - see also typeRulebooks.ts */
+export interface CommonRules {
+  // Every graded feature or term, with its grade
+  graded: [string, Grade][];
+  // Texts that must never become a RED FLAG
+  neverFlagged: string[];
+  unclear: Rulebook['unclear'];
+  addOns: AddOnRule[];
+  scoring: ScoringRules<string>;
+  output: Rulebook['output'];
+}
+
+/**
+ * Returns every contradiction in the rulebook, or an empty array. Checked
+ * before any analysis runs; a non-empty result is a CONFIG_ERROR.
+ */
+export function checkRulebook(rulebook: Rulebook): string[] {
+  const problems: string[] = [];
+
+  for (const [id, { bands }] of Object.entries(rulebook.thresholds)) {
+    if (bands.kind === 'ceiling' && !(bands.greatMax >= 0 && bands.greatMax < bands.goodMax)) {
+      problems.push(`${id}: greatMax (${bands.greatMax}) must be ≥0 and below goodMax (${bands.goodMax})`);
+    }
+    if (bands.kind === 'floor' && !(bands.goodMin > 0 && bands.goodMin < bands.greatMin)) {
+      problems.push(`${id}: goodMin (${bands.goodMin}) must be >0 and below greatMin (${bands.greatMin})`);
+    }
+  }
+
+  for (const example of rulebook.neverFlag.examples) {
+    const threshold = rulebook.thresholds[example.threshold];
+    if (threshold && gradeFor(threshold.bands, example.value) === 'red') {
+      problems.push(`neverFlag: ${exampleLabel(rulebook, example)} is a RED FLAG under the ${example.threshold} thresholds`);
+    }
+  }
+
+  for (const [id, rule] of Object.entries(rulebook.roomRent)) {
+    if (rule.search && rule.grade !== 'red') {
+      problems.push(`roomRent.${id}: search hints are only for RED FLAG clauses`);
+    }
+  }
+
+  return [...problems, ...checkCommonRules({
+    graded: [
+      ...(Object.keys(rulebook.features) as Grade[]).flatMap(g => rulebook.features[g].map(text => [text, g] as [string, Grade])),
+      ...Object.values(rulebook.roomRent).map(r => [r.term, r.grade] as [string, Grade])
+    ],
+    neverFlagged: [...rulebook.neverFlag.items, ...rulebook.irdaiStandardExclusions],
+    unclear: rulebook.unclear,
+    addOns: rulebook.addOns,
+    scoring: rulebook.scoring,
+    output: rulebook.output
+  })];
+}
+
+export function checkCommonRules(rules: CommonRules): string[] {
+  const problems: string[] = [];
+
+  // The same feature must not be listed under two grades
+  const graded = new Map<string, Grade>();
+  for (const [text, grade] of rules.graded) {
+    const key = normalize(text);
+    const previous = graded.get(key);
+    if (previous && previous !== grade) {
+      problems.push(`"${text}" is listed as both ${GRADE_LABEL[previous]} and ${GRADE_LABEL[grade]}`);
+    }
+    graded.set(key, grade);
+  }
+
+  const redTexts = rules.graded.filter(([, grade]) => grade === 'red').map(([text]) => normalize(text));
+  for (const text of rules.neverFlagged) {
+    const key = normalize(text);
+    if (redTexts.some(red => red === key || red.startsWith(`${key} `))) {
+      problems.push(`"${text}" is both a RED FLAG and on the never-flag list`);
+    }
+  }
+
+  const unclearExcluded = new Set(rules.unclear.exclude.map(normalize));
+  for (const text of rules.unclear.include) {
+    if (unclearExcluded.has(normalize(text))) {
+      problems.push(`"${text}" is both included in and excluded from UNCLEAR`);
+    }
+  }
+
+  const aliases = new Map<string, string>();
+  for (const addOn of rules.addOns) {
+    if (addOn.aliases.length === 0 || addOn.neutralises.length === 0) {
+      problems.push(`addOns: "${addOn.name}" needs at least one alias and one red flag it neutralises`);
+    }
+    for (const alias of addOn.aliases.map(normalize)) {
+      const owner = aliases.get(alias);
+      if (owner && owner !== addOn.name) problems.push(`addOns: alias "${alias}" is used by both "${owner}" and "${addOn.name}"`);
+      aliases.set(alias, addOn.name);
+    }
+  }
+
+  const weightTotal = Object.values(rules.scoring.weights).reduce((a, b) => a + b, 0);
+  if (weightTotal !== 100) {
+    problems.push(`scoring.weights add up to ${weightTotal}, not 100`);
+  }
+  for (const [grade, penalty] of Object.entries(rules.scoring.penalties)) {
+    if (!(penalty >= 0 && penalty <= 1)) problems.push(`scoring.penalties.${grade} (${penalty}) must be between 0 and 1`);
+  }
+  if (rules.scoring.penalties.missing < rules.scoring.penalties.good) {
+    problems.push('scoring.penalties.missing must be at least penalties.good, or stating nothing would beat a standard feature');
+  }
+
+  for (const [grade, range] of Object.entries(rules.output)) {
+    if (range.min < 0 || range.min > range.max) {
+      problems.push(`output.${grade}: min (${range.min}) must be between 0 and max (${range.max})`);
+    }
+  }
+
+  return problems;
+}
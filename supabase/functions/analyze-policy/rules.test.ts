@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { applyClassificationRules, evaluateFeature, parseDurations, type AnalysisFeature } from "./rules.ts";
+
+const feature = (name: string, policyStates: string): AnalysisFeature => ({ name, policyStates, explanation: "" });
+
+describe("parseDurations", () => {
+  it("converts years, months and days", () => {
+    expect(parseDurations("36 months, 2 years and 30 days")).toEqual([
+      { months: 36, days: 1080 },
+      { months: 24, days: 730 },
+      { months: 1, days: 30 }
+    ]);
+  });
+
+  it("reads number words, bracketed numerals and abbreviations", () => {
+    expect(parseDurations("three (3) years")).toEqual([{ months: 36, days: 1095 }]);
+    expect(parseDurations("4 yrs")).toEqual([{ months: 48, days: 1460 }]);
+  });
+
+  it("finds nothing without a unit", () => {
+    expect(parseDurations("Sum insured of 500000")).toEqual([]);
+  });
+});
+
+describe("evaluateFeature", () => {
+  it.each([
+    ["Pre-existing disease waiting", "PED covered after 36 months of continuous coverage", "goodFeatures", "ped_waiting"],
+    ["Pre-existing disease waiting", "PED covered after four years", "goodFeatures", "ped_waiting"],
+    ["Pre-existing disease waiting", "PED covered after 5 years", "redFlags", "ped_waiting"],
+    ["Specific illness waiting", "Specified diseases are covered after 24 months", "goodFeatures", "specific_illness_waiting"],
+    ["Initial waiting period", "No initial waiting period applies", "greatFeatures", "initial_waiting"],
+    ["Room rent", "Room rent at actuals", "greatFeatures", "room_rent"],
+    ["Room rent", "Up to Rs. 5,000 per day", "redFlags", "room_rent"],
+    ["Room rent", "Associated expenses are reduced by the proportionate deduction", "redFlags", "room_rent"],
+    ["Pre and post hospitalization", "Pre-hospitalization 60 days and post-hospitalization 180 days", "greatFeatures", "pre_post_hospitalization"],
+    ["Pre and post hospitalization", "Pre-hospitalization 60 days and post-hospitalization 30 days", "redFlags", "pre_post_hospitalization"]
+  ])("grades %s - %j", (name, policyStates, bucket, rule) => {
+    expect(evaluateFeature(feature(name, policyStates))).toMatchObject({ bucket, rule });
+  });
+
+  it("leaves features no rule covers alone", () => {
+    expect(evaluateFeature(feature("Ambulance cover", "Up to Rs. 2,000 per hospitalization"))).toBeNull();
+    expect(evaluateFeature(feature("Pre-existing disease waiting", "As per the schedule"))).toBeNull();
+  });
+});
+
+describe("applyClassificationRules", () => {
+  it("moves graded features to the bucket the rules require", () => {
+    const ped = feature("PED waiting period", "PED covered after 36 months");
+    const result = { redFlags: [ped], goodFeatures: [] as AnalysisFeature[] };
+    const moves = applyClassificationRules(result);
+    expect(result.redFlags).toEqual([]);
+    expect(result.goodFeatures).toEqual([ped]);
+    expect(moves).toEqual([expect.objectContaining({ feature: "PED waiting period", from: "redFlags", to: "goodFeatures", rule: "ped_waiting" })]);
+  });
+
+  it("never moves items out of needsClarification", () => {
+    const conflicting = feature("PED waiting period conflicting", "The wording says 24 months, the schedule 48 months");
+    const vague = feature("Post-hospitalization", "Post-hospitalization expenses up to 60 days as decided by the company");
+    const result = { needsClarification: [conflicting, vague] };
+    expect(applyClassificationRules(result)).toEqual([]);
+    expect(result.needsClarification).toEqual([conflicting, vague]);
+  });
+});
@@ -0,0 +1,234 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ RULE ENGINE - Enforces the classification tables after the model responds ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// The model is told the rulebook thresholds in SYSTEM_PROMPT but does not always
+// follow them (36-month PED regularly lands in redFlags). Each returned feature
+// is parsed for numeric facts and moved to the bucket RULEBOOK requires. Every
+// move is recorded so the response can be audited.
+
+import { RULEBOOK, GRADE_LABEL, bandRange, gradeFor, type Grade, type RoomRentTerm, type ThresholdId } from "./rulebook.ts";
+
+export type Bucket = 'greatFeatures' | 'goodFeatures' | 'redFlags' | 'needsClarification';
+
+export interface AnalysisFeature {
+  name: string;
+  policyStates: string;
+  reference?: string;
+  explanation: string;
+}
+
+export type RuleId =
+  | 'ped_waiting'
+  | 'specific_illness_waiting'
+  | 'initial_waiting'
+  | 'room_rent'
+  | 'pre_post_hospitalization';
+
+export interface Reclassification {
+  feature: string;
+  from: Bucket;
+  to: Bucket;
+  rule: RuleId;
+  reason: string;
+}
+
+interface RuleVerdict {
+  bucket: Bucket;
+  rule: RuleId;
+  reason: string;
+}
+
+const BUCKETS: Bucket[] = ['greatFeatures', 'goodFeatures', 'redFlags', 'needsClarification'];
+
+const GRADE_BUCKET: Record<Grade, Exclude<Bucket, 'needsClarification'>> = {
+  great: 'greatFeatures',
+  good: 'goodFeatures',
+  red: 'redFlags'
+};
+
+// Worst-first ordering used when a feature carries several facts (pre + post)
+const BUCKET_RANK: Record<Exclude<Bucket, 'needsClarification'>, number> = {
+  redFlags: 0,
+  goodFeatures: 1,
+  greatFeatures: 2
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  twelve: 12, thirty: 30, sixty: 60, ninety: 90
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Fact parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+function toNumber(token: string): number | null {
+  const n = Number(token.replace(/,/g, ''));
+  if (!Number.isNaN(n)) return n;
+  return NUMBER_WORDS[token.toLowerCase()] ?? null;
+}
+
+const DURATION_PATTERN = /(\d+(?:\.\d+)?|one|two|three|four|five|six|twelve|thirty|sixty|ninety)\s*(?:\(\s*\w+\s*\)\s*)?(years?|yrs?|months?|days?)\b/gi;
+
+/** Returns every duration found in the text, converted to months and days */
+export function parseDurations(text: string): { months: number; days: number }[] {
+  const results: { months: number; days: number }[] = [];
+  for (const match of text.matchAll(DURATION_PATTERN)) {
+    const value = toNumber(match[1]);
+    if (value === null) continue;
+    const unit = match[2].toLowerCase();
+    if (unit.startsWith('y')) {
+      results.push({ months: value * 12, days: value * 365 });
+    } else if (unit.startsWith('m')) {
+      results.push({ months: value, days: value * 30 });
+    } else {
+      results.push({ months: value / 30, days: value });
+    }
+  }
+  return results;
+}
+
+/** Finds the day count that follows (or precedes) a keyword like "pre" or "post" */
+function parseDaysNear(text: string, keyword: 'pre' | 'post'): number | null {
+  const after = new RegExp(`${keyword}[- ]?hospitali[sz]ation[^\\d]{0,40}?(\\d+)\\s*days`, 'i').exec(text);
+  if (after) return Number(after[1]);
+  const before = new RegExp(`(\\d+)\\s*days[^\\d]{0,20}?${keyword}[- ]?hospitali[sz]ation`, 'i').exec(text);
+  if (before) return Number(before[1]);
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Rules - thresholds and room rent grades come from RULEBOOK
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Grades a value against a rulebook threshold, e.g. "PED waiting of 36 months (13-48 months = GOOD)" */
+function thresholdVerdict(id: ThresholdId, value: number, subject: string): { grade: Grade; reason: string } {
+  const { bands } = RULEBOOK.thresholds[id];
+  const grade = gradeFor(bands, value);
+  return { grade, reason: `${subject} (${bandRange(bands, grade)} = ${GRADE_LABEL[grade]})` };
+}
+
+function waitingVerdict(id: ThresholdId, rule: RuleId, value: number | undefined, subject: string): RuleVerdict | null {
+  if (value === undefined) return null;
+  const { grade, reason } = thresholdVerdict(id, value, subject);
+  return { bucket: GRADE_BUCKET[grade], rule, reason };
+}
+
+function classifyPed(text: string): RuleVerdict | null {
+  const months = parseDurations(text)[0]?.months;
+  return waitingVerdict('pedMonths', 'ped_waiting', months, `PED waiting of ${months} months`);
+}
+
+function classifySpecificIllness(text: string): RuleVerdict | null {
+  const months = parseDurations(text)[0]?.months;
+  return waitingVerdict('specificIllnessMonths', 'specific_illness_waiting', months, `Specific illness waiting of ${months} months`);
+}
+
+function classifyInitialWaiting(text: string): RuleVerdict | null {
+  const lower = text.toLowerCase();
+  const days = /no initial waiting|nil initial waiting|initial waiting period[^.]{0,20}\b(nil|waived)\b/.test(lower)
+    ? 0
+    : parseDurations(text)[0]?.days;
+  return waitingVerdict('initialDays', 'initial_waiting', days, `Initial waiting of ${days} days`);
+}
+
+function roomRentVerdict(term: RoomRentTerm, reason: string): RuleVerdict {
+  const { grade } = RULEBOOK.roomRent[term];
+  return { bucket: GRADE_BUCKET[grade], rule: 'room_rent', reason: `${reason} (${GRADE_LABEL[grade]})` };
+}
+
+function classifyRoomRent(text: string): RuleVerdict | null {
+  const lower = text.toLowerCase();
+  if (/proportion(ate|al)/.test(lower)) {
+    return roomRentVerdict('proportionateDeduction', 'Proportionate deduction clause');
+  }
+  if (/(₹|rs\.?|inr)\s*[\d,]+[^.]{0,30}(per day|\/\s*day|daily|per diem)/.test(lower)) {
+    return roomRentVerdict('dailyCap', 'Room rent daily cap in rupees');
+  }
+  if (/\d+(\.\d+)?\s*%\s*(of\s*)?(the\s*)?(sum insured|si)[^.]{0,30}(per day|\/\s*day|daily)/.test(lower)) {
+    return roomRentVerdict('percentCap', 'Room rent daily cap as % of sum insured');
+  }
+  if (/at actuals?|no (room rent )?(limit|cap|capping)|without any (limit|cap)|any room/.test(lower)) {
+    return roomRentVerdict('atActuals', 'Room rent at actuals / no limit');
+  }
+  if (/single (private )?(a\.?c\.?\s*)?room|single private/.test(lower)) {
+    return roomRentVerdict('singlePrivate', 'Room rent limited to single private room');
+  }
+  return null;
+}
+
+function classifyPrePost(text: string): RuleVerdict | null {
+  const pre = parseDaysNear(text, 'pre');
+  const post = parseDaysNear(text, 'post');
+  const verdicts: { grade: Grade; reason: string }[] = [];
+
+  if (pre !== null) verdicts.push(thresholdVerdict('preHospDays', pre, `Pre-hosp ${pre} days`));
+  if (post !== null) verdicts.push(thresholdVerdict('postHospDays', post, `Post-hosp ${post} days`));
+  if (verdicts.length === 0) return null;
+
+  const worst = verdicts.reduce((a, b) => (BUCKET_RANK[GRADE_BUCKET[b.grade]] < BUCKET_RANK[GRADE_BUCKET[a.grade]] ? b : a));
+  return {
+    bucket: GRADE_BUCKET[worst.grade],
+    rule: 'pre_post_hospitalization',
+    reason: verdicts.map(v => v.reason).join('; ')
+  };
+}
+
+/** Picks the rule that applies to a feature, based on its name and quote */
+export function evaluateFeature(feature: AnalysisFeature): RuleVerdict | null {
+  const text = `${feature.name} ${feature.policyStates}`;
+  const lower = text.toLowerCase();
+
+  if (/pre[- ]?existing|\bped\b/.test(lower)) return classifyPed(feature.policyStates) ?? classifyPed(text);
+  if (/specific(ied)? (illness|disease)|named (ailment|illness|disease)/.test(lower)) {
+    return classifySpecificIllness(feature.policyStates) ?? classifySpecificIllness(text);
+  }
+  if (/initial waiting|first 30 days/.test(lower)) return classifyInitialWaiting(text);
+  if (/(pre|post)[- ]?hospitali[sz]ation/.test(lower)) return classifyPrePost(feature.policyStates) ?? classifyPrePost(text);
+  if (/room rent|room category|room charges|proportionate deduction/.test(lower)) return classifyRoomRent(text);
+
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Apply to a full analysis result
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Moves every graded feature into the bucket the rules require. Items in
+ * needsClarification stay put - they are there because the wording is
+ * ambiguous or contradicts itself, which a parsed number can't settle.
+ * Mutates `result` and returns the list of moves that were made.
+ */
+export function applyClassificationRules(result: Partial<Record<Bucket, AnalysisFeature[]>>): Reclassification[] {
+  const moves: Reclassification[] = [];
+  const next: Record<Bucket, AnalysisFeature[]> = {
+    greatFeatures: [],
+    goodFeatures: [],
+    redFlags: [],
+    needsClarification: []
+  };
+
+  for (const bucket of BUCKETS) {
+    for (const feature of result[bucket] || []) {
+      const verdict = bucket === 'needsClarification' ? null : evaluateFeature(feature);
+      if (verdict && verdict.bucket !== bucket) {
+        moves.push({ feature: feature.name, from: bucket, to: verdict.bucket, rule: verdict.rule, reason: verdict.reason });
+        next[verdict.bucket].push(feature);
+      } else {
+        next[bucket].push(feature);
+      }
+    }
+  }
+
+  for (const bucket of BUCKETS) {
+    result[bucket] = next[bucket];
+  }
+
+  if (moves.length > 0) {
+    console.log(`Rule engine moved ${moves.length} feature(s): ${moves.map(m => `${m.feature} ${m.from}→${m.to}`).join(', ')}`);
+  }
+
+  return moves;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { mergeSchedules, normalizeSchedule, parseScheduleDate } from "./schedule.ts";
+
+describe("parseScheduleDate", () => {
+  it.each([
+    ["01/04/2025", "2025-04-01"],
+    ["1.4.25", "2025-04-01"],
+    ["31-03-2026 (midnight)", "2026-03-31"],
+    ["1st April 2025", "2025-04-01"],
+    ["01-Apr-2025", "2025-04-01"],
+    ["22nd Sept, 2025", "2025-09-22"],
+    ["2025-04-01", "2025-04-01"]
+  ])("reads %j as %s", (text, iso) => {
+    expect(parseScheduleDate(text)).toBe(iso);
+  });
+
+  it.each(["31/02/2025", "04/13/2025", "1st Smarch 2025", "From inception", "", null, 20250401])("rejects %j", (value) => {
+    expect(parseScheduleDate(value)).toBeNull();
+  });
+});
+
+describe("normalizeSchedule", () => {
+  it("derives GST and the total from the printed components", () => {
+    const schedule = normalizeSchedule({ policyNumber: " 1234/5678 ", premium: { net: 15000, cgst: 1350, sgst: 1350.004 } })!;
+    expect(schedule.policyNumber).toBe("1234/5678");
+    expect(schedule.premium).toEqual({ net: 15000, cgst: 1350, sgst: 1350.004, igst: null, gst: 2700, total: 17700 });
+  });
+
+  it("totals per-member sums insured on individual policies", () => {
+    const schedule = normalizeSchedule({
+      members: [
+        { name: "A Sharma", relationship: "Self", age: 40, sumInsured: 500000 },
+        { name: "B Sharma", relationship: "Spouse", age: 38, sumInsured: 300000 },
+        { name: null, relationship: null, age: null, sumInsured: 100000 }
+      ]
+    })!;
+    expect(schedule.members).toHaveLength(2);
+    expect(schedule.sumInsured).toEqual({ basis: null, amount: 800000 });
+  });
+
+  it("treats several members without their own amounts as a floater", () => {
+    const schedule = normalizeSchedule({
+      members: [{ name: "A", age: 40 }, { name: "B", age: 10 }],
+      sumInsuredAmount: 1000000
+    })!;
+    expect(schedule.sumInsured).toEqual({ basis: "floater", amount: 1000000 });
+  });
+
+  it("drops invalid values and returns null when nothing useful is left", () => {
+    expect(normalizeSchedule({ premium: { net: -5, total: "18,000" }, addOns: [{ name: " " }], nomineeName: "" })).toBeNull();
+  });
+});
+
+describe("mergeSchedules", () => {
+  it("keeps the first stated value and adds members and add-ons it lacks", () => {
+    const renewal = normalizeSchedule({
+      policyNumber: "P-1",
+      members: [{ name: "A Sharma", age: 40 }],
+      addOns: [{ name: "Room Rent Waiver", premium: 500 }]
+    });
+    const endorsement = normalizeSchedule({
+      policyNumber: "P-2",
+      periodStart: "01/04/2025",
+      members: [{ name: "a sharma", age: 41 }, { name: "C Sharma", age: 1 }],
+      addOns: [{ name: "room rent waiver" }, { name: "Maternity Cover" }]
+    });
+    const merged = mergeSchedules([null, renewal, endorsement])!;
+    expect(merged.policyNumber).toBe("P-1");
+    expect(merged.period.start).toBe("2025-04-01");
+    expect(merged.members.map(m => [m.name, m.age])).toEqual([["A Sharma", 40], ["C Sharma", 1]]);
+    expect(merged.addOns.map(a => a.name)).toEqual(["Room Rent Waiver", "Maternity Cover"]);
+    expect(renewal!.members).toHaveLength(1);
+  });
+
+  it("returns null without any schedule", () => {
+    expect(mergeSchedules([null, null])).toBeNull();
+  });
+});
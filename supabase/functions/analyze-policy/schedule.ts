@@ -0,0 +1,243 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ SCHEDULE - Who is insured, for how much and at what premium                ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// The policy schedule is specific to the insured: policy number, period,
+// members, sum insured, premium and add-ons. Uploaded schedule documents get
+// their own tool call; the model copies values as written and dates/amounts
+// are normalized here, so "01/04/2025" is always read day-first.
+
+export type SumInsuredBasis = 'individual' | 'floater';
+
+export interface InsuredMember {
+  name: string | null;
+  relationship: string | null;
+  age: number | null;
+  // Per-member sum insured - null on floater policies
+  sumInsured: number | null;
+}
+
+export interface ScheduleAddOn {
+  name: string;
+  sumInsured: number | null;
+  premium: number | null;
+}
+
+export interface PolicySchedule {
+  policyNumber: string | null;
+  period: {
+    start: string | null;   // yyyy-mm-dd
+    end: string | null;
+  };
+  members: InsuredMember[];
+  sumInsured: {
+    basis: SumInsuredBasis | null;
+    // Shared amount on floater policies, total of members otherwise
+    amount: number | null;
+  };
+  premium: {
+    net: number | null;
+    cgst: number | null;
+    sgst: number | null;
+    igst: number | null;
+    gst: number | null;
+    total: number | null;
+  };
+  addOns: ScheduleAddOn[];
+  nominee: {
+    name: string | null;
+    relationship: string | null;
+  } | null;
+}
+
+const nullableNumber = (description: string) => ({ type: ["number", "null"], description });
+const nullableString = (description: string) => ({ type: ["string", "null"], description });
+
+export const SCHEDULE_TOOL = {
+  name: "extract_policy_schedule",
+  description: "Submit the details from an Indian health insurance policy schedule. Use null when the schedule does not state a value.",
+  input_schema: {
+    type: "object",
+    properties: {
+      policyNumber: nullableString("Policy number exactly as printed"),
+      periodStart: nullableString("Policy period start date as written (e.g. '01/04/2025' or '1st April 2025')"),
+      periodEnd: nullableString("Policy period end date as written"),
+      members: {
+        type: "array",
+        description: "Every insured person. Empty array if none are listed.",
+        items: {
+          type: "object",
+          properties: {
+            name: nullableString("Member name"),
+            relationship: nullableString("Relationship to the proposer (e.g. 'Self', 'Spouse', 'Son')"),
+            age: nullableNumber("Age in years"),
+            sumInsured: nullableNumber("This member's own sum insured in rupees - null if the policy is a floater")
+          },
+          required: ["name", "relationship", "age", "sumInsured"]
+        }
+      },
+      sumInsuredBasis: {
+        type: ["string", "null"],
+        enum: ["individual", "floater", null],
+        description: "floater = one sum insured shared by all members; individual = each member has their own"
+      },
+      sumInsuredAmount: nullableNumber("Floater sum insured in rupees, or the total if only one amount is printed"),
+      premium: {
+        type: "object",
+        properties: {
+          net: nullableNumber("Premium before tax in rupees"),
+          cgst: nullableNumber("CGST amount in rupees"),
+          sgst: nullableNumber("SGST/UTGST amount in rupees"),
+          igst: nullableNumber("IGST amount in rupees"),
+          gst: nullableNumber("Total GST in rupees if printed as one amount"),
+          total: nullableNumber("Total premium payable including tax in rupees")
+        },
+        required: ["net", "cgst", "sgst", "igst", "gst", "total"]
+      },
+      addOns: {
+        type: "array",
+        description: "Optional covers/riders selected on this policy. Empty array if none.",
+        items: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            sumInsured: nullableNumber("Add-on sum insured in rupees if stated"),
+            premium: nullableNumber("Add-on premium in rupees if stated")
+          },
+          required: ["name", "sumInsured", "premium"]
+        }
+      },
+      nomineeName: nullableString("Nominee name"),
+      nomineeRelationship: nullableString("Nominee's relationship to the proposer")
+    },
+    required: [
+      "policyNumber", "periodStart", "periodEnd", "members", "sumInsuredBasis", "sumInsuredAmount",
+      "premium", "addOns", "nomineeName", "nomineeRelationship"
+    ]
+  }
+};
+
+export type RawSchedule = Record<string, unknown>;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Normalization
+// ─────────────────────────────────────────────────────────────────────────────
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const num = (v: unknown): number | null => (typeof v === 'number' && Number.isFinite(v) && v >= 0 ? v : null);
+const str = (v: unknown): string | null => (typeof v === 'string' && v.trim() ? v.trim() : null);
+const obj = (v: unknown): Record<string, unknown> => (v && typeof v === 'object' ? v as Record<string, unknown> : {});
+const list = (v: unknown): Record<string, unknown>[] => (Array.isArray(v) ? v.map(obj) : []);
+const rupees = (n: number) => Math.round(n * 100) / 100;
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Reads a schedule date as yyyy-mm-dd. Numeric dates are day-first as printed
+ * on Indian schedules; "1st April 2025", "01-Apr-2025" and ISO dates also work.
+ */
+export function parseScheduleDate(value: unknown): string | null {
+  const text = str(value);
+  if (!text) return null;
+
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(text);
+  if (iso) return isoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const numeric = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/.exec(text);
+  if (numeric) {
+    const year = Number(numeric[3]) < 100 ? 2000 + Number(numeric[3]) : Number(numeric[3]);
+    return isoDate(year, Number(numeric[2]), Number(numeric[1]));
+  }
+
+  const named = /^(\d{1,2})(?:st|nd|rd|th)?[\s/-]*([a-z]{3})[a-z]*[\s/,-]*(\d{4})/i.exec(text);
+  if (named) {
+    const month = MONTHS.indexOf(named[2].toLowerCase()) + 1;
+    return month > 0 ? isoDate(Number(named[3]), month, Number(named[1])) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Converts the tool output into a PolicySchedule, filling derivable amounts
+ * (GST from its components, total from net + GST). Returns null when the
+ * document yielded nothing useful.
+ */
+export function normalizeSchedule(raw: RawSchedule): PolicySchedule | null {
+  const members: InsuredMember[] = list(raw.members)
+    .map(m => ({
+      name: str(m.name),
+      relationship: str(m.relationship),
+      age: num(m.age),
+      sumInsured: num(m.sumInsured)
+    }))
+    .filter(m => m.name || m.relationship || m.age !== null);
+
+  const premium = obj(raw.premium);
+  const net = num(premium.net);
+  const cgst = num(premium.cgst);
+  const sgst = num(premium.sgst);
+  const igst = num(premium.igst);
+  const components = [cgst, sgst, igst].filter((n): n is number => n !== null);
+  const gst = num(premium.gst) ?? (components.length > 0 ? rupees(components.reduce((a, b) => a + b, 0)) : null);
+  const total = num(premium.total) ?? (net !== null && gst !== null ? rupees(net + gst) : null);
+
+  const basis = raw.sumInsuredBasis === 'individual' || raw.sumInsuredBasis === 'floater' ? raw.sumInsuredBasis : null;
+  const memberTotal = members.every(m => m.sumInsured !== null) && members.length > 0
+    ? members.reduce((n, m) => n + (m.sumInsured as number), 0)
+    : null;
+
+  const nomineeName = str(raw.nomineeName);
+  const nomineeRelationship = str(raw.nomineeRelationship);
+
+  const schedule: PolicySchedule = {
+    policyNumber: str(raw.policyNumber),
+    period: { start: parseScheduleDate(raw.periodStart), end: parseScheduleDate(raw.periodEnd) },
+    members,
+    sumInsured: {
+      basis: basis ?? (members.length > 1 && memberTotal === null ? 'floater' : null),
+      amount: num(raw.sumInsuredAmount) ?? (basis !== 'floater' ? memberTotal : null)
+    },
+    premium: { net, cgst, sgst, igst, gst, total },
+    addOns: list(raw.addOns)
+      .filter(a => str(a.name))
+      .map(a => ({ name: str(a.name) as string, sumInsured: num(a.sumInsured), premium: num(a.premium) })),
+    nominee: nomineeName || nomineeRelationship ? { name: nomineeName, relationship: nomineeRelationship } : null
+  };
+
+  const found = schedule.policyNumber || schedule.period.start || schedule.members.length > 0 ||
+    schedule.premium.total !== null || schedule.sumInsured.amount !== null;
+  return found ? schedule : null;
+}
+
+/** Several schedule documents (e.g. a renewal and an endorsement schedule) - the first stated value wins */
+export function mergeSchedules(parts: (PolicySchedule | null)[]): PolicySchedule | null {
+  const schedules = parts.filter((s): s is PolicySchedule => s !== null);
+  if (schedules.length <= 1) return schedules[0] ?? null;
+
+  const [first, ...rest] = schedules;
+  const merged: PolicySchedule = structuredClone(first);
+  for (const next of rest) {
+    merged.policyNumber ??= next.policyNumber;
+    merged.period.start ??= next.period.start;
+    merged.period.end ??= next.period.end;
+    merged.sumInsured.basis ??= next.sumInsured.basis;
+    merged.sumInsured.amount ??= next.sumInsured.amount;
+    merged.nominee ??= next.nominee;
+    if (merged.premium.total === null) merged.premium = next.premium;
+
+    for (const member of next.members) {
+      const key = (member.name || '').toLowerCase();
+      if (!key || !merged.members.some(m => (m.name || '').toLowerCase() === key)) merged.members.push(member);
+    }
+    for (const addOn of next.addOns) {
+      if (!merged.addOns.some(a => a.name.toLowerCase() === addOn.name.toLowerCase())) merged.addOns.push(addOn);
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { dimensionFor, scorePolicy } from "./score.ts";
+import { TYPE_RULEBOOKS } from "./typeRulebooks.ts";
+import type { AnalysisFeature } from "./rules.ts";
+
+const feature = (name: string, policyStates = ""): AnalysisFeature => ({ name, policyStates, explanation: "" });
+
+// One great feature in every health dimension
+const COMPLETE = [
+  feature("Room rent", "Any room, no capping"),
+  feature("Pre and post hospitalization", "60 days pre-hospitalization and 180 days post-hospitalization"),
+  feature("PED waiting", "Pre-existing diseases covered after 12 months"),
+  feature("No co-pay", "No co-payment on any claim"),
+  feature("No sub-limits", "No sub-limit on any treatment"),
+  feature("Unlimited restore", "Sum insured is restored unlimited times"),
+  feature("Air ambulance", "Covered up to the sum insured")
+];
+
+describe("dimensionFor", () => {
+  it.each([
+    ["Pre-hospitalization", "30 days", "prePost"],
+    ["PED waiting", "36 months", "waitingPeriods"],
+    ["Room category", "Single private room", "roomRent"],
+    ["Senior citizen clause", "20% co-pay above 60", "coPay"],
+    ["AYUSH", "Covered up to sum insured", "extras"]
+  ])("puts %j in %s", (name, policyStates, id) => {
+    expect(dimensionFor(feature(name, policyStates))).toBe(id);
+  });
+});
+
+describe("scorePolicy", () => {
+  it("scores an empty extraction as missing everything", () => {
+    const score = scorePolicy({});
+    expect(score.total).toBe(50);
+    expect(score.dimensions.find(d => d.id === "roomRent")!.deductions).toEqual([
+      { points: 10, feature: "Room rent", bucket: null, reason: "Not found in the policy" }
+    ]);
+  });
+
+  it("gives full marks when every dimension has a great feature", () => {
+    expect(scorePolicy({ greatFeatures: COMPLETE }).total).toBe(100);
+  });
+
+  it("deducts once per dimension, however many standard features it lists", () => {
+    const one = scorePolicy({ greatFeatures: COMPLETE.slice(0, 6), goodFeatures: [feature("AYUSH")] });
+    const many = scorePolicy({ greatFeatures: COMPLETE.slice(0, 6), goodFeatures: [feature("AYUSH"), feature("Day care"), feature("Ambulance")] });
+    expect(one.total).toBe(99);
+    expect(many).toEqual(one);
+    expect(scorePolicy({ goodFeatures: [feature("AYUSH")] }).total).toBeGreaterThan(scorePolicy({}).total);
+  });
+
+  it("scores a dimension on its worst finding", () => {
+    const score = scorePolicy({
+      greatFeatures: COMPLETE,
+      goodFeatures: [feature("Room rent", "Single private room")],
+      redFlags: [feature("Room rent capped", "1% of sum insured per day")],
+      needsClarification: [feature("Room rent", "Room as per eligibility")]
+    });
+    const roomRent = score.dimensions.find(d => d.id === "roomRent")!;
+    expect(roomRent.score).toBe(5);
+    expect(roomRent.deductions).toEqual([{ points: 15, feature: "Room rent capped", bucket: "redFlags", reason: "Red flag" }]);
+    expect(score.total).toBe(85);
+  });
+
+  it("uses the dimensions of other policy types", () => {
+    const { scoring, dimensions } = TYPE_RULEBOOKS.motor;
+    const score = scorePolicy({ redFlags: [feature("Depreciation", "50% depreciation on plastic parts")] }, scoring, dimensions);
+    expect(score.dimensions.map(d => d.id)).toEqual(Object.keys(scoring.weights));
+    expect(score.dimensions.find(d => d.id === "depreciation")!.deductions[0].bucket).toBe("redFlags");
+    expect(score.total).toBe(Math.round(100 - 25 * 0.75 - 75 * 0.5));
+  });
+});
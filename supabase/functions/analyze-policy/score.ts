@@ -0,0 +1,109 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ SCORE - 0-100 policy score with a per-dimension breakdown                  ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// Counts of great/good/red features hide how bad one red flag can be. Each
+// feature is assigned to a dimension (room rent, waiting periods, ...) and the
+// dimension loses a share of its weight for its worst finding, so listing more
+// standard benefits never costs points. A dimension with no finding at all
+// loses the `missing` share - an extraction that found nothing can't score
+// well. Weights and penalties live in RULEBOOK; life, motor and home policies
+// bring their own dimensions (typeRulebooks.ts).
+
+import { RULEBOOK, type ScoreDimension, type ScoringRules } from "./rulebook.ts";
+import type { AnalysisFeature, Bucket } from "./rules.ts";
+
+export interface ScoreDeduction {
+  points: number;
+  // The dimension's label when nothing in the policy covers it
+  feature: string;
+  bucket: Bucket | null;
+  reason: string;
+}
+
+export interface DimensionScore {
+  id: string;
+  label: string;
+  weight: number;
+  score: number;
+  deductions: ScoreDeduction[];
+}
+
+export interface PolicyScore {
+  total: number;
+  dimensions: DimensionScore[];
+}
+
+/** A scoring dimension and the features it takes - a dimension without a pattern takes the rest */
+export interface DimensionRule {
+  id: string;
+  label: string;
+  pattern?: RegExp;
+}
+
+// First match wins - pre/post is checked before waiting so "pre-hospitalization" isn't read as PED
+export const HEALTH_DIMENSIONS: (DimensionRule & { id: ScoreDimension })[] = [
+  { id: 'roomRent', label: 'Room rent', pattern: /room rent|room category|room charges|proportionate/ },
+  { id: 'prePost', label: 'Pre/post hospitalization', pattern: /(pre|post)[- ]?hospitali[sz]ation/ },
+  { id: 'waitingPeriods', label: 'Waiting periods', pattern: /waiting|pre[- ]?existing|\bped\b|moratorium/ },
+  { id: 'coPay', label: 'Co-pay', pattern: /co[- ]?pay/ },
+  { id: 'subLimits', label: 'Sub-limits', pattern: /sub[- ]?limit|disease[- ]?wise (limit|cap)/ },
+  { id: 'restore', label: 'Restore', pattern: /restor|refill|reload|recharge|\breset\b/ },
+  { id: 'extras', label: 'Extras' }
+];
+
+const BUCKET_PENALTY: Record<Bucket, { grade: keyof ScoringRules['penalties']; reason: string }> = {
+  greatFeatures: { grade: 'great', reason: 'Great feature' },
+  goodFeatures: { grade: 'good', reason: 'Market standard, not best-in-class' },
+  redFlags: { grade: 'red', reason: 'Red flag' },
+  needsClarification: { grade: 'unclear', reason: 'Unclear terms' }
+};
+
+// Worst first - a dimension is scored on the first bucket that has one of its features
+const BUCKETS: Bucket[] = ['redFlags', 'needsClarification', 'goodFeatures', 'greatFeatures'];
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+export function dimensionFor(feature: AnalysisFeature, dimensions: DimensionRule[] = HEALTH_DIMENSIONS): string {
+  const name = (feature.name || '').toLowerCase();
+  const text = `${name} ${feature.policyStates || ''}`.toLowerCase();
+  for (const source of [name, text]) {
+    const match = dimensions.find(({ pattern }) => pattern?.test(source));
+    if (match) return match.id;
+  }
+  return dimensions.find(d => !d.pattern)!.id;
+}
+
+/**
+ * Scores the final buckets. Each dimension deducts once, for its worst
+ * finding or for having none, so the listed deductions always add up to
+ * exactly the points lost.
+ */
+export function scorePolicy(
+  result: Partial<Record<Bucket, AnalysisFeature[]>>,
+  rules: ScoringRules<string> = RULEBOOK.scoring,
+  dimensionRules: DimensionRule[] = HEALTH_DIMENSIONS
+): PolicyScore {
+  const labels = new Map(dimensionRules.map(d => [d.id, d.label]));
+  const worst = new Map<string, { feature: AnalysisFeature; bucket: Bucket }>();
+  for (const bucket of BUCKETS) {
+    for (const feature of result[bucket] || []) {
+      const id = dimensionFor(feature, dimensionRules);
+      if (!worst.has(id)) worst.set(id, { feature, bucket });
+    }
+  }
+
+  const dimensions = Object.keys(rules.weights).map((id): DimensionScore => {
+    const weight = rules.weights[id];
+    const label = labels.get(id) ?? id;
+    const found = worst.get(id);
+    const points = round1(weight * rules.penalties[found ? BUCKET_PENALTY[found.bucket].grade : 'missing']);
+    const deduction: ScoreDeduction = found
+      ? { points, feature: found.feature.name, bucket: found.bucket, reason: BUCKET_PENALTY[found.bucket].reason }
+      : { points, feature: label, bucket: null, reason: 'Not found in the policy' };
+    return { id, label, weight, score: round1(weight - points), deductions: points > 0 ? [deduction] : [] };
+  });
+
+  const total = Math.round(dimensions.reduce((n, d) => n + d.score, 0));
+  return { total, dimensions };
+}
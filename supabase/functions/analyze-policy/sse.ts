@@ -0,0 +1,59 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ SERVER-SENT EVENTS - Streams analysis progress to the client               ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// Event stream for `{ stream: true }` requests:
+//   event: stage   data: { stage, elapsedMs, ...payload }
+//   event: result  data: <final analysis, same shape as the JSON response>
+//   event: error   data: { error, ... }
+// The stream always ends with exactly one result or error event.
+
+export type AnalysisStage =
+  | 'validated'
+  | 'model_call_started'
+  | 'categories_parsed'
+  | 'post_processing_done';
+
+export type ProgressEmitter = (stage: AnalysisStage, payload?: Record<string, unknown>) => void;
+
+// Used for plain JSON requests
+export const noProgress: ProgressEmitter = () => {};
+
+export type EventSender = (event: 'stage' | 'result' | 'error', data: unknown) => void;
+
+/**
+ * Runs `producer` and streams whatever it sends as SSE. Errors thrown by the
+ * producer are turned into an error event by `onError`.
+ */
+export function sseResponse(
+  headers: Record<string, string>,
+  producer: (send: EventSender) => Promise<void>,
+  onError: (error: unknown) => unknown
+): Response {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: EventSender = (event, data) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        await producer(send);
+      } catch (error) {
+        send('error', onError(error));
+      } finally {
+        controller.close();
+      }
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      ...headers,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    }
+  });
+}
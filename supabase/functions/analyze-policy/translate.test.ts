@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { applyTranslations, batchTexts, collectTexts, isEnglishReport, renderBatch, translationPrompt, uniqueTexts } from "./translate.ts";
+
+const report = () => ({
+  language: "en",
+  redFlags: [{ name: "Room rent cap", policyStates: "1% of SI per day", reference: "Section 4.2", explanation: "Bills are cut" }],
+  goodFeatures: [{ name: "Ambulance", policyStates: "Up to Rs. 2,000", explanation: "" }],
+  addOns: [{ name: "Room Rent Waiver", explanation: "Removes the cap", neutralises: ["Room rent cap"] }],
+  score: { dimensions: [{ label: "Room rent", deductions: [{ feature: "Room rent cap", reason: "Red flag" }] }] },
+  disclaimer: "For information only."
+});
+
+describe("translationPrompt", () => {
+  it("names the insurance type and its own terms", () => {
+    const prompt = translationPrompt("hi", "motor");
+    expect(prompt).toContain("motor insurance reports from English into Hindi");
+    expect(prompt).toContain("IDV");
+    expect(prompt).not.toContain("health");
+  });
+});
+
+describe("isEnglishReport", () => {
+  it("accepts a finished English report", () => {
+    expect(isEnglishReport(report())).toBe(true);
+    expect(isEnglishReport({ ...report(), language: undefined })).toBe(true);
+  });
+
+  it.each([
+    ["a translated report", { ...report(), language: "hi" }],
+    ["a report without buckets", { policyName: "Acme", disclaimer: "x" }],
+    ["a bucket that is not a list", { ...report(), redFlags: "none" }],
+    ["a list", [report()]],
+    ["nothing", null]
+  ])("rejects %s", (_label, value) => {
+    expect(isEnglishReport(value)).toBe(false);
+  });
+});
+
+describe("collectTexts", () => {
+  it("collects reader-facing text and never quotes or references", () => {
+    const texts = uniqueTexts(collectTexts(report()));
+    expect(texts).toEqual(["Ambulance", "Room rent cap", "Bills are cut", "Removes the cap", "Room rent", "Red flag", "For information only."]);
+  });
+});
+
+describe("batchTexts", () => {
+  it("splits on count and on characters", () => {
+    expect(batchTexts(["a", "b", "c"], 2, 100).map(b => b.map(i => i.id))).toEqual([[0, 1], [2]]);
+    expect(batchTexts(["aaaa", "bbbb", "c"], 10, 6).map(b => b.map(i => i.id))).toEqual([[0], [1, 2]]);
+  });
+
+  it("numbers each text on one line", () => {
+    expect(renderBatch([{ id: 3, text: "Line one\n  line two" }])).toBe("[3] Line one line two");
+  });
+});
+
+describe("applyTranslations", () => {
+  it("writes one translation to every copy of a text and keeps English for the rest", () => {
+    const result = report();
+    const slots = collectTexts(result);
+    const texts = uniqueTexts(slots);
+    const counts = applyTranslations(slots, texts, [{ id: 1, text: " कमरे के किराये की सीमा " }, { id: 2, text: "" }, { id: 99, text: "x" }]);
+    expect(counts).toEqual({ texts: 7, translated: 1, missing: 6 });
+    expect(result.redFlags[0]).toMatchObject({ name: "कमरे के किराये की सीमा", explanation: "Bills are cut", policyStates: "1% of SI per day" });
+    expect(result.addOns[0].neutralises).toEqual(["कमरे के किराये की सीमा"]);
+    expect(result.score.dimensions[0].deductions[0].feature).toBe("कमरे के किराये की सीमा");
+  });
+});
@@ -0,0 +1,186 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ TRANSLATION - The finished report in the reader's language                 ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// The rule engine, add-on matching and scoring all read English feature names,
+// so the analysis itself always runs in English. Only the text written for the
+// reader is translated afterwards: feature names, explanations, relevance
+// reasons, add-on explanations, score labels and the disclaimer. Quotes and
+// references are never touched - they must match the policy word for word.
+// Identical strings are translated once, so a feature name and the score
+// deduction that names it always read the same.
+
+import { DEFAULT_LANGUAGE, LANGUAGES, type LanguageCode } from "../_shared/languages.ts";
+import { INSURANCE_TYPES, type InsuranceType } from "../_shared/insuranceTypes.ts";
+import type { Bucket } from "./rules.ts";
+
+export interface TranslationItem {
+  id: number;
+  text: string;
+}
+
+export interface TranslationCounts {
+  texts: number;
+  translated: number;
+  // Texts the model left out - they stay in English
+  missing: number;
+}
+
+interface TextSlot {
+  text: string;
+  apply: (translated: string) => void;
+}
+
+type Translatable = Record<string, unknown>;
+
+const BUCKETS: Bucket[] = ['greatFeatures', 'goodFeatures', 'redFlags', 'needsClarification'];
+
+export const TRANSLATE_TOOL = {
+  name: "submit_translations",
+  description: "Submit the translation of every numbered text, keeping its id",
+  input_schema: {
+    type: "object",
+    properties: {
+      translations: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "integer", description: "The number in brackets before the text" },
+            text: { type: "string", description: "The translated text" }
+          },
+          required: ["id", "text"]
+        }
+      }
+    },
+    required: ["translations"]
+  }
+};
+
+// Terms readers meet in each type of report, given as examples of what to keep in English
+const TERM_EXAMPLES: Record<InsuranceType, string> = {
+  health: 'co-pay, sum insured, sub-limit, IRDAI',
+  life: 'sum assured, surrender value, rider, IRDAI',
+  motor: 'IDV, no claim bonus, zero depreciation, IRDAI',
+  home: 'sum insured, reinstatement value, burglary, IRDAI'
+};
+
+export function translationPrompt(language: LanguageCode, type: InsuranceType): string {
+  const { label } = LANGUAGES[language];
+  return `You translate ${INSURANCE_TYPES[type].label.toLowerCase()} insurance reports from English into ${label} for readers who are not insurance experts.
+Write simple, everyday ${label} in its native script, the way a trusted family member would explain it.
+Keep numbers, rupee amounts, percentages, durations and policy section numbers exactly as written.
+For insurance terms without a common ${label} word (${TERM_EXAMPLES[type]}), write the ${label} phrase followed by the English term in brackets.
+Translate every text. Never add, drop or soften information.`;
+}
+
+/**
+ * Whether `value` is a finished English report, as sent back by the client
+ * to have it translated without running the analysis again.
+ */
+export function isEnglishReport(value: unknown): value is Translatable {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const report = value as Translatable;
+  if (report.language !== undefined && report.language !== DEFAULT_LANGUAGE) return false;
+  return BUCKETS.every(b => report[b] === undefined || Array.isArray(report[b])) && BUCKETS.some(b => Array.isArray(report[b]));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Collecting and applying
+// ─────────────────────────────────────────────────────────────────────────────
+
+function slot(slots: TextSlot[], target: Translatable, field: string) {
+  const value = target[field];
+  if (typeof value === 'string' && value.trim()) {
+    slots.push({ text: value, apply: (translated) => { target[field] = translated; } });
+  }
+}
+
+function listSlots(slots: TextSlot[], list: unknown) {
+  if (!Array.isArray(list)) return;
+  list.forEach((value, i) => {
+    if (typeof value === 'string' && value.trim()) {
+      slots.push({ text: value, apply: (translated) => { list[i] = translated; } });
+    }
+  });
+}
+
+/** Every reader-facing string in an analysis result, in a stable order */
+export function collectTexts(result: Translatable): TextSlot[] {
+  const slots: TextSlot[] = [];
+  const items = (value: unknown): Translatable[] =>
+    Array.isArray(value) ? value.filter((v): v is Translatable => !!v && typeof v === 'object') : [];
+
+  for (const bucket of BUCKETS) {
+    for (const feature of items(result[bucket])) {
+      slot(slots, feature, 'name');
+      slot(slots, feature, 'explanation');
+      slot(slots, feature, 'relevanceReason');
+    }
+  }
+
+  for (const addOn of items(result.addOns)) {
+    slot(slots, addOn, 'explanation');
+    // Names of red flags - translated with the red flags themselves
+    listSlots(slots, addOn.neutralises);
+  }
+
+  const score = result.score as Translatable | undefined;
+  for (const dimension of items(score?.dimensions)) {
+    slot(slots, dimension, 'label');
+    for (const deduction of items(dimension.deductions)) {
+      slot(slots, deduction, 'feature');
+      slot(slots, deduction, 'reason');
+    }
+  }
+
+  slot(slots, result, 'disclaimer');
+  return slots;
+}
+
+export function uniqueTexts(slots: TextSlot[]): string[] {
+  return [...new Set(slots.map(s => s.text))];
+}
+
+/** Groups text ids into batches of at most `size` texts and `maxChars` characters */
+export function batchTexts(texts: string[], size: number, maxChars: number): TranslationItem[][] {
+  const batches: TranslationItem[][] = [];
+  let current: TranslationItem[] = [];
+  let chars = 0;
+  texts.forEach((text, id) => {
+    if (current.length > 0 && (current.length >= size || chars + text.length > maxChars)) {
+      batches.push(current);
+      current = [];
+      chars = 0;
+    }
+    current.push({ id, text });
+    chars += text.length;
+  });
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+export function renderBatch(batch: TranslationItem[]): string {
+  return batch.map(item => `[${item.id}] ${item.text.replace(/\s*\n\s*/g, ' ')}`).join('\n');
+}
+
+/**
+ * Writes the translations back into the result the slots were collected
+ * from. Ids the model didn't return, or returned empty, keep their English.
+ */
+export function applyTranslations(slots: TextSlot[], texts: string[], items: TranslationItem[]): TranslationCounts {
+  const byText = new Map<string, string>();
+  for (const item of items) {
+    const source = Number.isInteger(item?.id) ? texts[item.id] : undefined;
+    if (source !== undefined && typeof item.text === 'string' && item.text.trim()) {
+      byText.set(source, item.text.trim());
+    }
+  }
+
+  for (const s of slots) {
+    const translated = byText.get(s.text);
+    if (translated) s.apply(translated);
+  }
+
+  return { texts: texts.length, translated: byText.size, missing: texts.length - byText.size };
+}
@@ -0,0 +1,417 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ TYPE RULEBOOKS - Classification rules for life, motor and home policies    ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// Health policies are graded by RULEBOOK, whose waiting period and room rent
+// thresholds are also enforced by the rule engine. Life, motor and home terms
+// rarely reduce to one number, so their rulebooks are lists per grade: the
+// prompt and tool descriptions (prompts.ts), the self-review keywords, the
+// add-on links and the score dimensions all come from here. The output keeps
+// the same great/good/red/unclear shape. Bump `version` on every change.
+
+import { checkCommonRules, type AddOnRule, type Grade, type Rulebook, type ScoringRules } from "./rulebook.ts";
+import type { DimensionRule } from "./score.ts";
+import type { InsuranceType } from "../_shared/insuranceTypes.ts";
+
+/** A RED FLAG the model must actively look for, with where to look */
+export interface SearchedRedFlag {
+  // Must be one of features.red
+  term: string;
+  search: string;
+}
+
+export interface TypeRulebook {
+  type: Exclude<InsuranceType, 'health'>;
+  version: string;
+  // What is analysed, e.g. "Indian motor insurance policy"
+  subject: string;
+  // Descriptions of the header fields in the tool schema
+  header: {
+    sumInsured: string;
+    policyType: string;
+    exampleFeature: string;
+  };
+  features: Record<Grade, string[]>;
+  searched: SearchedRedFlag[];
+  neverFlag: string[];
+  standardExclusions: string[];
+  unclear: Rulebook['unclear'];
+  mustInclude: string[];
+  addOns: AddOnRule[];
+  scoring: ScoringRules<string>;
+  dimensions: DimensionRule[];
+  // Clauses the self-review looks for in the policy text
+  keywords: string[];
+  checklist: string[];
+  output: Rulebook['output'];
+}
+
+const UNCLEAR_INCLUDE = [
+  'Conflicting statements',
+  'Benefit without details',
+  '"Company discretion" without criteria'
+];
+
+const PENALTIES: ScoringRules['penalties'] = { great: 0, good: 0.15, red: 0.75, unclear: 0.25, missing: 0.5 };
+
+const CHECKLIST = [
+  'Optional riders and add-ons only in addOns, never in the feature buckets',
+  'No standard exclusions mentioned',
+  'Counts match actual features'
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Term life
+// ─────────────────────────────────────────────────────────────────────────────
+
+const LIFE: TypeRulebook = {
+  type: 'life',
+  version: "2026.01.2",
+  subject: 'Indian term life insurance policy',
+  header: {
+    sumInsured: "Sum assured paid on death (e.g., '₹1 Crore')",
+    policyType: "Type of plan (e.g., 'Pure Term', 'Term with Return of Premium', 'Increasing Cover')",
+    exampleFeature: 'Terminal Illness Benefit'
+  },
+
+  features: {
+    great: [
+      'Cover up to age 85 or beyond',
+      'Terminal illness benefit paid in advance at no extra cost',
+      'Waiver of premium on disability or critical illness built in',
+      'Express claim settlement (a few working days)',
+      'Option to increase cover at life events (marriage, child, home loan)',
+      'Special exit: premiums refunded if cover is stopped late in the term'
+    ],
+    good: [
+      'Suicide clause: at least 80% of premiums paid refunded within 12 months',
+      'Grace period of 30 days (15 days for monthly premiums)',
+      'Revival of a lapsed policy within 5 years',
+      'Claims not contested after 3 years (Section 45)',
+      'Free look period of 15-30 days',
+      'Lump sum or monthly income payout options',
+      'Claim settlement timelines stated'
+    ],
+    red: [
+      'Suicide exclusion longer than 12 months or refund below 80% of premiums',
+      'Reduced (graded) death benefit in the first years',
+      'Exclusions beyond suicide in a pure term plan (named diseases, travel, occupation)',
+      'Cover ends before age 60',
+      'No waiver of premium on disability or critical illness',
+      'Death benefit only returns premiums for some causes of death'
+    ]
+  },
+
+  searched: [
+    { term: 'Suicide exclusion longer than 12 months or refund below 80% of premiums', search: '"suicide"' },
+    { term: 'Reduced (graded) death benefit in the first years', search: '"graded", "% of sum assured" or "return of premium" in the first policy years' }
+  ],
+
+  neverFlag: [
+    'Suicide clause of 12 months with an 80% refund (IRDAI standard)',
+    'Non-disclosure clause (Section 45)',
+    'Policy lapse after the grace period',
+    'Standard rider exclusions'
+  ],
+
+  standardExclusions: [
+    'Suicide within 12 months', 'Non-disclosure of material facts', 'Criminal acts',
+    'War and nuclear (riders)', 'Self-inflicted injury (riders)', 'Alcohol/drugs (riders)', 'Hazardous sports (riders)'
+  ],
+
+  unclear: {
+    include: UNCLEAR_INCLUDE,
+    exclude: ['Suicide clause', 'grace period', 'riders with prices']
+  },
+
+  mustInclude: [
+    'Policy term and maximum cover age', 'Sum assured and payout options', 'Suicide clause', 'Exclusions',
+    'Riders', 'Grace period and revival', 'Claim settlement process and timelines', 'Free look period'
+  ],
+
+  addOns: [
+    { name: 'Waiver of premium', aliases: ['waiver of premium', 'premium waiver', 'wop'], neutralises: ['waiver of premium'] },
+    { name: 'Accidental death benefit', aliases: ['accidental death', 'adb', 'accident benefit'], neutralises: ['accidental death', 'accident'] },
+    { name: 'Critical illness rider', aliases: ['critical illness', 'ci rider'], neutralises: ['critical illness'] },
+    { name: 'Disability rider', aliases: ['disability', 'tpd', 'dismemberment'], neutralises: ['disability'] }
+  ],
+
+  scoring: {
+    weights: { exclusions: 25, claims: 20, coverTerm: 15, riders: 15, premiums: 15, extras: 10 },
+    penalties: PENALTIES
+  },
+
+  // First match wins - riders before premiums so "waiver of premium" is a rider
+  dimensions: [
+    { id: 'exclusions', label: 'Exclusions', pattern: /exclu|suicide|not covered|graded|hazard/ },
+    { id: 'riders', label: 'Riders', pattern: /rider|waiver|accidental|critical illness|disab|terminal/ },
+    { id: 'claims', label: 'Claim settlement', pattern: /claim|settle|contest|section 45|nominee/ },
+    { id: 'coverTerm', label: 'Cover term', pattern: /policy term|cover (till|up ?to)|maturity age|\bage\b/ },
+    { id: 'premiums', label: 'Premiums', pattern: /premium|grace|lapse|reviv|surrender|paid[- ]up|free[- ]look/ },
+    { id: 'extras', label: 'Extras' }
+  ],
+
+  keywords: ['suicide', 'exclusion', 'graded', 'waiver of premium', 'grace period', 'revival', 'claim settlement', 'section 45'],
+
+  checklist: [
+    'Suicide clause graded by its period and refund',
+    ...CHECKLIST
+  ],
+
+  output: {
+    great: { min: 3, max: 8 },
+    good: { min: 3, max: 8 }
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Motor
+// ─────────────────────────────────────────────────────────────────────────────
+
+const MOTOR: TypeRulebook = {
+  type: 'motor',
+  version: "2026.01.3",
+  subject: 'Indian motor insurance policy',
+  header: {
+    sumInsured: "Insured Declared Value (IDV) of the vehicle (e.g., '₹6.5 Lakhs')",
+    policyType: "Type of cover (e.g., 'Comprehensive', 'Third Party Only', 'Standalone Own Damage')",
+    exampleFeature: 'Zero Depreciation Included'
+  },
+
+  features: {
+    great: [
+      'Zero depreciation in the base cover',
+      'Engine and gearbox protection in the base cover',
+      'Return to invoice in the base cover',
+      'NCB protection in the base cover',
+      'Consumables (oil, nuts, bolts) covered',
+      '24x7 roadside assistance and towing included'
+    ],
+    good: [
+      'NCB as per the IRDAI slab (20% rising to 50%)',
+      'Compulsory deductible at the IRDAI standard (₹1,000 up to 1500cc, ₹2,000 above)',
+      'IDV as per the IRDAI depreciation schedule',
+      'Third-party liability as per the Motor Vehicles Act',
+      'Personal accident cover of ₹15 lakh for the owner-driver',
+      'Cashless repairs at network garages'
+    ],
+    red: [
+      'Depreciation deducted on parts (name the rates)',
+      'Compulsory deductible above the IRDAI standard',
+      'Engine damage from water ingress excluded',
+      'IDV well below the vehicle\'s market value',
+      'Limit on the number of claims per year',
+      'Consumables not covered'
+    ]
+  },
+
+  searched: [
+    { term: 'Depreciation deducted on parts (name the rates)', search: '"depreciation" with rubber / plastic / fibre glass rates' },
+    { term: 'Compulsory deductible above the IRDAI standard', search: '"compulsory deductible" or "excess"' },
+    { term: 'Engine damage from water ingress excluded', search: '"water ingress", "hydrostatic" or "consequential"' }
+  ],
+
+  neverFlag: [
+    'NCB reset after an own damage claim (standard)',
+    'Compulsory deductible at the IRDAI standard',
+    'No own damage cover on a third party only policy',
+    'Standard motor exclusions'
+  ],
+
+  standardExclusions: [
+    'Drunk or drugged driving', 'Driving without a valid licence', 'Wear and tear',
+    'Mechanical or electrical breakdown', 'Use outside the permitted purpose', 'War and nuclear'
+  ],
+
+  unclear: {
+    include: UNCLEAR_INCLUDE,
+    exclude: ['Depreciation rates', 'deductibles', 'add-ons with prices']
+  },
+
+  mustInclude: [
+    'IDV', 'Depreciation on parts', 'Compulsory and voluntary deductibles', 'NCB',
+    'Third-party liability', 'Owner-driver personal accident', 'Engine and water damage', 'Cashless garages'
+  ],
+
+  addOns: [
+    { name: 'Zero depreciation', aliases: ['zero dep', 'nil dep', 'depreciation cover', 'depreciation waiver', 'bumper to bumper'], neutralises: ['depreciation'] },
+    { name: 'Engine protect', aliases: ['engine', 'hydrostatic', 'gearbox'], neutralises: ['engine', 'water ingress'] },
+    { name: 'NCB protect', aliases: ['ncb', 'no claim bonus'], neutralises: ['ncb', 'no claim bonus'] },
+    { name: 'Consumables cover', aliases: ['consumable', 'consumables'], neutralises: ['consumable'] },
+    { name: 'Return to invoice', aliases: ['return to invoice', 'invoice', 'rti'], neutralises: ['idv', 'market value'] },
+    { name: 'Roadside assistance', aliases: ['roadside', 'rsa', 'towing'], neutralises: ['roadside', 'towing'] }
+  ],
+
+  scoring: {
+    weights: { depreciation: 25, exclusions: 15, deductibles: 15, idv: 15, ncb: 10, claims: 10, extras: 10 },
+    penalties: PENALTIES
+  },
+
+  // First match wins - NCB before claims so "no claim bonus" isn't read as a claim term
+  dimensions: [
+    { id: 'depreciation', label: 'Depreciation', pattern: /depreciat|zero dep|nil dep|bumper to bumper/ },
+    { id: 'deductibles', label: 'Deductibles', pattern: /deductible|excess/ },
+    { id: 'idv', label: 'IDV', pattern: /\bidv\b|insured declared value|invoice|total loss|market value/ },
+    { id: 'ncb', label: 'No claim bonus', pattern: /\bncb\b|no claim bonus/ },
+    { id: 'exclusions', label: 'Exclusions', pattern: /exclu|not covered|consequential|engine|water/ },
+    { id: 'claims', label: 'Claims', pattern: /claim|cashless|garage|survey|towing|roadside/ },
+    { id: 'extras', label: 'Extras' }
+  ],
+
+  keywords: ['depreciation', 'compulsory deductible', 'voluntary deductible', 'insured declared value', 'no claim bonus', 'consequential', 'water ingress', 'cashless'],
+
+  checklist: [
+    'Depreciation checked for rubber, plastic, fibre glass and metal parts',
+    ...CHECKLIST
+  ],
+
+  output: {
+    great: { min: 3, max: 8 },
+    good: { min: 3, max: 8 }
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Home
+// ─────────────────────────────────────────────────────────────────────────────
+
+const HOME: TypeRulebook = {
+  type: 'home',
+  version: "2026.01.3",
+  subject: 'Indian home insurance policy',
+  header: {
+    sumInsured: "Sum insured for the building and the contents (e.g., 'Building ₹50 Lakhs, Contents ₹10 Lakhs')",
+    policyType: "Type of cover (e.g., 'Bharat Griha Raksha', 'Building + Contents', 'Contents only')",
+    exampleFeature: 'Reinstatement Value Basis'
+  },
+
+  features: {
+    great: [
+      'Building insured on reinstatement value (rebuild cost, no depreciation)',
+      'Contents insured on replacement value (new for old)',
+      'Automatic yearly increase of the building sum insured',
+      'Under-insurance (average clause) waived',
+      'Alternative accommodation or loss of rent covered',
+      'Jewellery and valuables covered in the base policy'
+    ],
+    good: [
+      'Fire, lightning, explosion, storm, flood and earthquake covered',
+      'Burglary and theft of contents covered',
+      'Debris removal and architect fees covered',
+      'Contents on an agreed value or first loss basis',
+      'Public liability covered',
+      'Terrorism covered'
+    ],
+    red: [
+      'Building insured on market value (depreciated)',
+      'Average clause (claims cut for under-insurance)',
+      'Major perils excluded (earthquake, flood, storm)',
+      'Contents covered only against fire',
+      'Cover void if the home is unoccupied for a set period',
+      'High deductible per claim (name the amount)'
+    ]
+  },
+
+  searched: [
+    { term: 'Building insured on market value (depreciated)', search: '"market value" or "depreciation"' },
+    { term: 'Average clause (claims cut for under-insurance)', search: '"average", "under-insurance" or "proportion"' },
+    { term: 'Cover void if the home is unoccupied for a set period', search: '"unoccupied" or "vacant"' }
+  ],
+
+  neverFlag: [
+    'Standard excess of ₹10,000 or less per claim',
+    'Sub-limits on valuables when valuables are covered',
+    'Standard home exclusions'
+  ],
+
+  standardExclusions: [
+    'Wear and tear', 'Gradual deterioration', 'Wilful damage', 'War and nuclear',
+    'Mechanical or electrical breakdown', 'Cash and bullion', 'Pollution'
+  ],
+
+  unclear: {
+    include: UNCLEAR_INCLUDE,
+    exclude: ['Valuation basis', 'deductibles', 'add-ons with prices']
+  },
+
+  mustInclude: [
+    'Building and contents sum insured', 'Valuation basis (reinstatement or market value)', 'Average clause',
+    'Perils covered', 'Burglary and theft', 'Valuables', 'Deductibles', 'Unoccupancy conditions'
+  ],
+
+  addOns: [
+    { name: 'Earthquake cover', aliases: ['earthquake'], neutralises: ['earthquake'] },
+    { name: 'Flood and storm cover', aliases: ['flood', 'storm', 'stfi', 'cyclone'], neutralises: ['flood', 'storm'] },
+    { name: 'Valuables cover', aliases: ['jewellery', 'jewelry', 'valuable', 'valuables'], neutralises: ['jewel', 'valuable'] },
+    { name: 'Contents all-risk cover', aliases: ['all risk', 'burglary', 'contents'], neutralises: ['contents covered only'] },
+    { name: 'Loss of rent cover', aliases: ['loss of rent', 'alternative accommodation'], neutralises: ['loss of rent', 'alternative accommodation'] }
+  ],
+
+  scoring: {
+    weights: { basis: 25, perils: 25, contents: 15, exclusions: 15, claims: 10, extras: 10 },
+    penalties: PENALTIES
+  },
+
+  // First match wins - valuation before perils so "market value" isn't read as cover
+  dimensions: [
+    { id: 'basis', label: 'Valuation basis', pattern: /reinstatement|market value|replacement|depreciat|average|under[- ]?insur/ },
+    { id: 'perils', label: 'Perils covered', pattern: /peril|fire|flood|storm|earthquake|burglar|theft|terror|lightning|cyclone/ },
+    { id: 'contents', label: 'Contents', pattern: /content|jewel|valuable|household goods|electronic/ },
+    { id: 'exclusions', label: 'Exclusions', pattern: /exclu|vacan|unoccupied|not covered/ },
+    { id: 'claims', label: 'Claims', pattern: /claim|excess|deductible|survey/ },
+    { id: 'extras', label: 'Extras' }
+  ],
+
+  keywords: ['reinstatement', 'market value', 'average', 'under-insurance', 'unoccupied', 'earthquake', 'flood', 'excess'],
+
+  checklist: [
+    'Valuation basis of the building stated (reinstatement or market value)',
+    ...CHECKLIST
+  ],
+
+  output: {
+    great: { min: 3, max: 8 },
+    good: { min: 3, max: 8 }
+  }
+};
+
+export const TYPE_RULEBOOKS: Record<TypeRulebook['type'], TypeRulebook> = {
+  life: LIFE,
+  motor: MOTOR,
+  home: HOME
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Consistency check
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Like checkRulebook - every contradiction, or an empty array */
+export function checkTypeRulebook(rulebook: TypeRulebook): string[] {
+  const problems: string[] = [];
+
+  for (const { term } of rulebook.searched) {
+    if (!rulebook.features.red.includes(term)) {
+      problems.push(`searched: "${term}" is not one of the RED FLAG features`);
+    }
+  }
+
+  const ids = new Set(rulebook.dimensions.map(d => d.id));
+  for (const id of Object.keys(rulebook.scoring.weights)) {
+    if (!ids.has(id)) problems.push(`scoring.weights.${id} has no dimension`);
+  }
+  for (const id of ids) {
+    if (!(id in rulebook.scoring.weights)) problems.push(`dimension ${id} has no weight`);
+  }
+  if (rulebook.dimensions.filter(d => !d.pattern).length !== 1) {
+    problems.push('dimensions need exactly one catch-all without a pattern');
+  }
+
+  return [...problems, ...checkCommonRules({
+    graded: (Object.keys(rulebook.features) as Grade[]).flatMap(g => rulebook.features[g].map(text => [text, g] as [string, Grade])),
+    neverFlagged: [...rulebook.neverFlag, ...rulebook.standardExclusions],
+    unclear: rulebook.unclear,
+    addOns: rulebook.addOns,
+    scoring: rulebook.scoring,
+    output: rulebook.output
+  })].map(problem => `${rulebook.type}: ${problem}`);
+}
@@ -0,0 +1,194 @@
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ ANSWERS - Context selection and citation checks for policy questions       ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+//
+// An answer is only as good as the clauses behind it. The model must quote the
+// policy for every answer; each quote is located in the uploaded text with the
+// same verifier analyze-policy uses, and quotes that can't be found are
+// dropped. An answer left without a single located quote is turned into a
+// refusal rather than shown as fact.
+
+import type { FeatureSource, SourceDocumentInput } from "../_shared/documents.ts";
+import { buildSourceIndex, verifyQuote, type QuoteStatus } from "../analyze-policy/quotes.ts";
+import { buildPageIndex, pageAt, pageReference } from "../analyze-policy/pages.ts";
+import { documentAt } from "../analyze-policy/documents.ts";
+import { splitIntoChunks } from "../analyze-policy/chunking.ts";
+
+export interface ConversationTurn {
+  question: string;
+  answer: string;
+}
+
+export interface RawCitation {
+  quote: string;
+  reference?: string;
+}
+
+export interface RawAnswer {
+  answerable: boolean;
+  answer: string;
+  citations?: RawCitation[];
+}
+
+export interface AnswerCitation {
+  quote: string;
+  reference: string;
+  status: Exclude<QuoteStatus, 'not_found'>;
+  page?: number;
+  source?: FeatureSource;
+}
+
+export interface PolicyAnswer {
+  answered: boolean;
+  answer: string;
+  citations: AnswerCitation[];
+}
+
+export const ANSWER_TOOL = {
+  name: "answer_policy_question",
+  description: "Answer a question about the policy using only the policy text, with verbatim quotes",
+  input_schema: {
+    type: "object",
+    properties: {
+      answerable: {
+        type: "boolean",
+        description: "true only if the policy text directly answers the question. false if it is silent, or the question is not about this policy."
+      },
+      answer: {
+        type: "string",
+        description: "Plain-English answer in 1-4 sentences. If not answerable, say what the text does not cover and suggest asking the insurer."
+      },
+      citations: {
+        type: "array",
+        description: "The clauses the answer relies on. Required when answerable.",
+        items: {
+          type: "object",
+          properties: {
+            quote: { type: "string", description: "Exact words copied from the policy text, 5-40 words" },
+            reference: { type: "string", description: "Section or clause and page, e.g. 'Section 4.2, Page 12'" }
+          },
+          required: ["quote", "reference"]
+        }
+      }
+    },
+    required: ["answerable", "answer", "citations"]
+  }
+};
+
+const NOT_COVERED = "The policy text doesn't clearly answer this. Please check with your insurer before relying on it.";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Request parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Keeps the last `maxTurns` well-formed turns, each trimmed to `maxChars` */
+export function parseHistory(raw: unknown, maxTurns: number, maxChars: number): ConversationTurn[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((t): t is Record<string, unknown> => !!t && typeof t === 'object')
+    .filter(t => typeof t.question === 'string' && typeof t.answer === 'string')
+    .slice(-maxTurns)
+    .map(t => ({
+      question: (t.question as string).substring(0, maxChars),
+      answer: (t.answer as string).substring(0, maxChars)
+    }));
+}
+
+export function renderHistory(history: ConversationTurn[]): string {
+  if (history.length === 0) return '';
+  const turns = history.map(t => `Q: ${t.question}\nA: ${t.answer}`).join('\n\n');
+  return `\n\nEARLIER IN THIS CONVERSATION (for follow-up questions only - earlier answers are not evidence):\n${turns}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Context selection
+// ─────────────────────────────────────────────────────────────────────────────
+
+const STOPWORDS = new Set([
+  'what', 'which', 'when', 'where', 'does', 'will', 'would', 'could', 'should', 'there', 'their',
+  'this', 'that', 'with', 'from', 'have', 'about', 'policy', 'covered', 'cover', 'insurance'
+]);
+
+function keywords(text: string): string[] {
+  return [...new Set((text.toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) || []).filter(w => w.length >= 4 && !STOPWORDS.has(w)))];
+}
+
+/**
+ * Policy text to send with the question. Short policies go in whole; longer
+ * ones are cut into sections and the ones sharing the most words with the
+ * question (and the previous question, for follow-ups) are kept, in
+ * document order. Each excerpt starts with its page marker.
+ */
+export function selectContext(text: string, question: string, maxChars: number, history: ConversationTurn[] = []): string {
+  if (text.length <= maxChars) return text;
+
+  const words = keywords(`${question} ${history[history.length - 1]?.question ?? ''}`);
+  const pages = buildPageIndex(text);
+  const sections = splitIntoChunks(text, Math.ceil(maxChars / 6)).map(chunk => {
+    const lower = chunk.text.toLowerCase();
+    const score = words.reduce((n, w) => n + lower.split(w).length - 1, 0);
+    return { chunk, score };
+  });
+
+  const selected: typeof sections = [];
+  let used = 0;
+  for (const section of [...sections].sort((a, b) => b.score - a.score)) {
+    if (used + section.chunk.text.length > maxChars) continue;
+    selected.push(section);
+    used += section.chunk.text.length;
+  }
+
+  return selected
+    .sort((a, b) => a.chunk.start - b.chunk.start)
+    .map(({ chunk }) => {
+      const page = pageAt(pages, chunk.start);
+      const startsWithMarker = /^\s*\[Page \d+\]/.test(chunk.text);
+      return page !== null && !startsWithMarker ? `[Page ${page}]\n${chunk.text}` : chunk.text;
+    })
+    .join('\n\n[...]\n\n');
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Citation checks
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Locates every quote in the combined policy text, dropping the ones that
+ * can't be found and filling in the page and document of the rest.
+ */
+export function checkAnswer(raw: RawAnswer, policyText: string, documents: SourceDocumentInput[]): { answer: PolicyAnswer; dropped: number } {
+  const index = buildSourceIndex(policyText);
+  const pages = buildPageIndex(policyText);
+  const citations: AnswerCitation[] = [];
+  let dropped = 0;
+
+  for (const citation of raw.citations || []) {
+    const verification = verifyQuote(index, citation.quote);
+    if (verification.status === 'not_found' || verification.start === undefined) {
+      dropped++;
+      continue;
+    }
+
+    const page = pageAt(pages, verification.start);
+    const document = documents.length === 1 ? 0 : documentAt(policyText, verification.start);
+    const located: AnswerCitation = {
+      quote: citation.quote,
+      reference: page !== null ? pageReference(citation.reference, page) : citation.reference || '',
+      status: verification.status
+    };
+    if (page !== null) located.page = page;
+    if (document !== null && documents[document]) {
+      located.source = { document, kind: documents[document].kind, name: documents[document].name };
+    }
+    citations.push(located);
+  }
+
+  if (!raw.answerable) {
+    return { answer: { answered: false, answer: raw.answer || NOT_COVERED, citations: [] }, dropped };
+  }
+  if (citations.length === 0) {
+    console.warn(`Answer had no locatable quotes (${dropped} dropped), refusing`);
+    return { answer: { answered: false, answer: NOT_COVERED, citations: [] }, dropped };
+  }
+  return { answer: { answered: true, answer: raw.answer, citations }, dropped };
+}
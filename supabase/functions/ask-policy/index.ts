@@ -0,0 +1,165 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createProvider, type LLMProvider } from "../analyze-policy/providers/index.ts";
+import { describeError } from "../analyze-policy/errors.ts";
+import { corsHeaders, jsonResponse, errorResponse } from "../_shared/http.ts";
+import { createServiceClient } from "../analyze-policy/cache.ts";
+import { identifyCaller, consumeQuota } from "../analyze-policy/quotas.ts";
+import { callToolWithRetry, type CallContext } from "../analyze-policy/retry.ts";
+import { parseDocuments, combineDocuments } from "../analyze-policy/documents.ts";
+import type { SourceDocumentInput } from "../_shared/documents.ts";
+import { DEFAULT_LANGUAGE, LANGUAGES, isLanguageCode, type LanguageCode } from "../_shared/languages.ts";
+import { DEFAULT_INSURANCE_TYPE, INSURANCE_TYPES, detectInsuranceType, type InsuranceType } from "../_shared/insuranceTypes.ts";
+import { detectLanguages, policyTermsFor } from "../_shared/textLanguage.ts";
+import { ANSWER_TOOL, checkAnswer, parseHistory, renderHistory, selectContext, type ConversationTurn, type RawAnswer } from "./answer.ts";
+
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ CONFIG                                                                     ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+
+const CONFIG = {
+  version: "1.1.0",
+  maxTokens: 1024,
+  temperature: 0,
+  maxContextChars: 120000, // policy text sent per question - longer policies are excerpted
+  maxDocuments: 5,
+  maxQuestionChars: 500,
+  // Earlier turns sent with a follow-up question
+  history: {
+    maxTurns: 6,
+    maxChars: 1000
+  },
+  timeoutMs: 30000,
+  retry: {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 4000,
+    minAttemptMs: 5000
+  },
+  // Questions are cheaper than analyses, so they get their own, larger buckets
+  quotas: {
+    anonymous: { perMinute: 6, perDay: 60 },
+    authenticated: { perMinute: 10, perDay: 150 }
+  }
+};
+
+// The clauses that most often turn a "yes" into a "no", per insurance type
+const CHECK_FIRST: Record<InsuranceType, string> = {
+  health: 'Waiting periods, sub-limits and exclusions often decide the answer - check them before saying something is covered.',
+  life: 'Exclusions, the suicide clause and rider conditions often decide the answer - check them before saying something is paid.',
+  motor: 'Depreciation, deductibles and exclusions often decide the answer - check them before saying something is covered.',
+  home: 'The valuation basis, the average clause and exclusions often decide the answer - check them before saying something is covered.'
+};
+
+function systemPrompt(type: InsuranceType): string {
+  return `You answer questions about one Indian ${INSURANCE_TYPES[type].label.toLowerCase()} insurance policy for the person who bought it.
+Answer ONLY from the policy text you are given - never from general knowledge of insurance or of other policies.
+Every answer must quote the exact clause it relies on, copied word for word, with its section and page.
+If the text does not answer the question, or the question is not about this policy, set answerable to false and say so plainly. Never guess.
+${CHECK_FIRST[type]}`;
+}
+
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ MODEL CALL                                                                 ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+
+async function answerWithModel(
+  provider: LLMProvider,
+  ctx: CallContext,
+  policyText: string,
+  question: string,
+  history: ConversationTurn[],
+  language: LanguageCode,
+  type: InsuranceType
+): Promise<RawAnswer> {
+  console.log(`Calling ${provider.name} to answer a question...`);
+
+  const context = selectContext(policyText, question, CONFIG.maxContextChars, history);
+  const excerptNote = context.length < policyText.length
+    ? `\n\nNOTE: The policy is long, so only the sections most related to the question are included, separated by [...].`
+    : '';
+  const languageNote = language === DEFAULT_LANGUAGE
+    ? ''
+    : `\n\nWrite the answer in ${LANGUAGES[language].label}. Copy quotes exactly as they appear in the policy - never translate them.`;
+
+  return await callToolWithRetry<RawAnswer>(provider, {
+    system: systemPrompt(type),
+    tool: ANSWER_TOOL,
+    document: `Answer the question using only this policy.${excerptNote}${languageNote}${renderHistory(history)}
+
+QUESTION: ${question}
+
+Policy:
+${context}`
+  }, ctx);
+}
+
+// ╔═══════════════════════════════════════════════════════════════════════════╗
+// ║ MAIN HANDLER                                                               ║
+// ╚═══════════════════════════════════════════════════════════════════════════╝
+
+serve(async (req) => {
+  const startTime = Date.now();
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+
+    // Same document shape as analyze-policy: { documents: [{ kind, name, text }] } or { policyText }
+    const documents: SourceDocumentInput[] = parseDocuments(body, CONFIG.maxDocuments);
+    if (documents.length === 0) {
+      return errorResponse('NO_POLICY_TEXT');
+    }
+
+    const question = typeof body.question === 'string' ? body.question.trim().substring(0, CONFIG.maxQuestionChars) : '';
+    if (!question) {
+      return errorResponse('NO_QUESTION');
+    }
+    const history = parseHistory(body.history, CONFIG.history.maxTurns, CONFIG.history.maxChars);
+    const language = isLanguageCode(body.language) ? body.language : DEFAULT_LANGUAGE;
+    const policyText = combineDocuments(documents);
+    // Same detection as analyze-policy; the question is answered even if no type is recognised
+    const type = detectInsuranceType(policyText, policyTermsFor(detectLanguages(policyText).languages)).type ?? DEFAULT_INSURANCE_TYPE;
+    console.log(`[${Date.now() - startTime}ms] Question on ${documents.length} ${type} document(s), ${policyText.length} chars, ${history.length} earlier turn(s)`);
+
+    const provider = createProvider({
+      maxTokens: CONFIG.maxTokens,
+      temperature: CONFIG.temperature,
+      timeoutMs: CONFIG.timeoutMs
+    });
+
+    // Questions have their own buckets so chatting never uses up analyses
+    const serviceClient = createServiceClient();
+    if (serviceClient) {
+      const caller = await identifyCaller(req, serviceClient);
+      const quota = caller.authenticated ? CONFIG.quotas.authenticated : CONFIG.quotas.anonymous;
+      const decision = await consumeQuota(serviceClient, { ...caller, subject: `ask:${caller.subject}` }, quota);
+      if (!decision.allowed) {
+        return errorResponse('QUOTA_EXCEEDED', decision.retryAfterMs);
+      }
+    }
+
+    const ctx: CallContext = { deadline: startTime + CONFIG.timeoutMs, policy: CONFIG.retry, attempts: [] };
+    const raw = await answerWithModel(provider, ctx, policyText, question, history, language, type);
+    const { answer, dropped } = checkAnswer(raw, policyText, documents);
+    console.log(`[${Date.now() - startTime}ms] ${answer.answered ? `Answered with ${answer.citations.length} citation(s)` : 'Not answerable'}, ${dropped} quote(s) not found`);
+
+    return jsonResponse({
+      ...answer,
+      _meta: {
+        version: CONFIG.version,
+        provider: provider.name,
+        model: provider.model,
+        processingTimeMs: Date.now() - startTime,
+        droppedCitations: dropped,
+        attempts: ctx.attempts
+      }
+    });
+
+  } catch (error) {
+    const { status, body } = describeError(error);
+    return jsonResponse(body, status);
+  }
+});
@@ -0,0 +1,18 @@
+-- Cache of analyze-policy results keyed by a hash of the normalized policy
+-- text, function version, model and prompt. Only the edge function (service
+-- role) reads or writes it, so RLS is enabled with no policies.
+
+CREATE TABLE IF NOT EXISTS public.analysis_cache (
+    cache_key text PRIMARY KEY,
+    version text NOT NULL,
+    model text NOT NULL,
+    prompt_hash text NOT NULL,
+    result jsonb NOT NULL,
+    hit_count integer NOT NULL DEFAULT 0,
+    created_at timestamp with time zone NOT NULL DEFAULT now(),
+    last_hit_at timestamp with time zone
+);
+
+CREATE INDEX IF NOT EXISTS analysis_cache_created_at_idx ON public.analysis_cache (created_at);
+
+ALTER TABLE public.analysis_cache ENABLE ROW LEVEL SECURITY;
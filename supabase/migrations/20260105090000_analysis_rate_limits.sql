@@ -0,0 +1,82 @@
+-- Token buckets for analyze-policy quotas. Each caller (an authenticated user
+-- id or a client IP) has a per-minute and a per-day bucket. Buckets refill
+-- continuously and one request takes one token from both. Only the edge
+-- function (service role) calls consume_analysis_quota, so RLS is enabled with
+-- no policies and EXECUTE is revoked from the client roles.
+
+CREATE TABLE IF NOT EXISTS public.analysis_rate_limits (
+    subject text NOT NULL,
+    scope text NOT NULL CHECK (scope IN ('minute', 'day')),
+    tokens double precision NOT NULL,
+    updated_at timestamp with time zone NOT NULL DEFAULT now(),
+    PRIMARY KEY (subject, scope)
+);
+
+CREATE INDEX IF NOT EXISTS analysis_rate_limits_updated_at_idx ON public.analysis_rate_limits (updated_at);
+
+ALTER TABLE public.analysis_rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Takes one token from both buckets, or none if either is empty. When the
+-- request is refused, retry_after_ms is how long until both buckets have a
+-- token again and exceeded names the bucket that ran out ('day' wins).
+CREATE OR REPLACE FUNCTION public.consume_analysis_quota(
+    p_subject text,
+    p_per_minute integer,
+    p_per_day integer
+)
+RETURNS TABLE (allowed boolean, retry_after_ms integer, exceeded text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_now timestamp with time zone := clock_timestamp();
+    v_minute double precision;
+    v_day double precision;
+    v_wait_minute double precision := 0;
+    v_wait_day double precision := 0;
+BEGIN
+    INSERT INTO public.analysis_rate_limits (subject, scope, tokens, updated_at)
+    VALUES (p_subject, 'minute', p_per_minute, v_now), (p_subject, 'day', p_per_day, v_now)
+    ON CONFLICT (subject, scope) DO NOTHING;
+
+    -- Lock both rows so concurrent requests from the same caller queue up
+    SELECT LEAST(p_per_minute, tokens + EXTRACT(EPOCH FROM v_now - updated_at) * p_per_minute / 60.0)
+    INTO v_minute
+    FROM public.analysis_rate_limits
+    WHERE subject = p_subject AND scope = 'minute'
+    FOR UPDATE;
+
+    SELECT LEAST(p_per_day, tokens + EXTRACT(EPOCH FROM v_now - updated_at) * p_per_day / 86400.0)
+    INTO v_day
+    FROM public.analysis_rate_limits
+    WHERE subject = p_subject AND scope = 'day'
+    FOR UPDATE;
+
+    IF v_minute < 1 THEN
+        v_wait_minute := (1 - v_minute) * 60000.0 / p_per_minute;
+    END IF;
+    IF v_day < 1 THEN
+        v_wait_day := (1 - v_day) * 86400000.0 / p_per_day;
+    END IF;
+
+    IF v_wait_minute > 0 OR v_wait_day > 0 THEN
+        -- Nothing is consumed, so the stored tokens/updated_at still refill correctly
+        RETURN QUERY SELECT
+            false,
+            CEIL(GREATEST(v_wait_minute, v_wait_day))::integer,
+            CASE WHEN v_wait_day > 0 THEN 'day' ELSE 'minute' END;
+        RETURN;
+    END IF;
+
+    UPDATE public.analysis_rate_limits
+    SET tokens = CASE scope WHEN 'minute' THEN v_minute - 1 ELSE v_day - 1 END,
+        updated_at = v_now
+    WHERE subject = p_subject;
+
+    RETURN QUERY SELECT true, 0, NULL::text;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.consume_analysis_quota(text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_analysis_quota(text, integer, integer) TO service_role;